@@ -1,7 +1,13 @@
 import { describe, it, expect, afterEach, vi } from "vitest";
-import React from "react";
-import { render, cleanup, fireEvent } from "@testing-library/react";
+import React, { useState } from "react";
+import { render, cleanup, fireEvent, act } from "@testing-library/react";
 import { WebMCPForm } from "../components/WebMCPForm";
+import { WebMCPInput } from "../components/WebMCPInput";
+import { WebMCPSelect } from "../components/WebMCPSelect";
+import { WebMCPTextarea } from "../components/WebMCPTextarea";
+import { installWebMCPPolyfill } from "../polyfill";
+import { textResult } from "../utils/toolResult";
+import { installMockModelContext, removeMockModelContext } from "./helpers";
 
 describe("WebMCPForm", () => {
   afterEach(() => {
@@ -173,3 +179,165 @@ describe("WebMCPForm", () => {
     expect(onToolActivated).not.toHaveBeenCalled();
   });
 });
+
+describe("WebMCPForm imperative fallback", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+    delete (HTMLFormElement.prototype as unknown as Record<string, unknown>).toolName;
+  });
+
+  function Booking({
+    autoSubmit,
+    onSubmit,
+  }: {
+    autoSubmit?: boolean;
+    onSubmit?: (values: { guests: string; name: string; notes: string; terrace: boolean }) => unknown;
+  }) {
+    const [name, setName] = useState("");
+    const [guests, setGuests] = useState("2");
+    const [notes, setNotes] = useState("");
+    const [terrace, setTerrace] = useState(false);
+    return (
+      <WebMCPForm
+        toolName="book"
+        toolDescription="Book a table"
+        toolAutoSubmit={autoSubmit}
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (e.agentInvoked) {
+            e.respondWith(Promise.resolve(onSubmit?.({ guests, name, notes, terrace })));
+          }
+        }}
+      >
+        <WebMCPInput
+          name="full_name"
+          toolParamTitle="name"
+          toolParamDescription="Guest name"
+          required
+          minLength={2}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <WebMCPSelect name="guests" value={guests} onChange={(e) => setGuests(e.target.value)}>
+          <option value="">Choose</option>
+          <option value="2">Two</option>
+          <option value="4">Four</option>
+        </WebMCPSelect>
+        <WebMCPTextarea name="notes" maxLength={200} value={notes} onChange={(e) => setNotes(e.target.value)} />
+        <input type="checkbox" name="terrace" checked={terrace} onChange={(e) => setTerrace(e.target.checked)} />
+        <input type="number" name="age" min={18} max={99} disabled />
+        <button type="submit">Book</button>
+      </WebMCPForm>
+    );
+  }
+
+  it("registers the form with a schema derived from its controls", () => {
+    const mc = installMockModelContext();
+    const { container } = render(<Booking />);
+
+    expect(mc.registerTool).toHaveBeenCalledTimes(1);
+    const registered = mc.registerTool.mock.calls[0][0];
+    expect(registered.name).toBe("book");
+    expect(registered.inputSchema).toEqual({
+      type: "object",
+      properties: {
+        guests: {
+          type: "string",
+          oneOf: [
+            { const: "2", title: "Two" },
+            { const: "4", title: "Four" },
+          ],
+        },
+        name: { type: "string", description: "Guest name", minLength: 2 },
+        notes: { type: "string", maxLength: 200 },
+        terrace: { type: "boolean" },
+      },
+      required: ["name"],
+    });
+    expect(container.querySelector("form")!.getAttribute("toolname")).toBe("book");
+  });
+
+  it("fills the controls, auto-submits and resolves with the responded value", async () => {
+    const mc = installMockModelContext();
+    const onSubmit = vi.fn((values: unknown) => textResult(JSON.stringify(values)));
+    const onActivated = vi.fn();
+    window.addEventListener("toolactivated", onActivated);
+    render(<Booking autoSubmit onSubmit={onSubmit} />);
+
+    let result: unknown;
+    await act(async () => {
+      result = await mc.registerTool.mock.calls[0][0].execute({
+        name: "Ada",
+        guests: "4",
+        notes: "Window seat",
+        terrace: true,
+      });
+    });
+    window.removeEventListener("toolactivated", onActivated);
+
+    expect(onSubmit).toHaveBeenCalledWith({ name: "Ada", guests: "4", notes: "Window seat", terrace: true });
+    expect(result).toEqual(
+      textResult(JSON.stringify({ guests: "4", name: "Ada", notes: "Window seat", terrace: true })),
+    );
+    expect((onActivated.mock.calls[0][0] as CustomEvent).detail).toEqual({ toolName: "book" });
+  });
+
+  it("waits for the user to submit without toolAutoSubmit", async () => {
+    const mc = installMockModelContext();
+    const onSubmit = vi.fn(() => "Booked");
+    const { container } = render(<Booking onSubmit={onSubmit} />);
+
+    let pending!: Promise<unknown>;
+    act(() => {
+      pending = mc.registerTool.mock.calls[0][0].execute({ name: "Ada" });
+    });
+    expect((container.querySelector("input[name=full_name]") as HTMLInputElement).value).toBe("Ada");
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    fireEvent.submit(container.querySelector("form")!);
+    await expect(pending).resolves.toBe("Booked");
+  });
+
+  it("answers with a default result when onSubmit does not respond", async () => {
+    const mc = installMockModelContext();
+    render(
+      <WebMCPForm toolName="plain" toolDescription="Plain" toolAutoSubmit onSubmit={(e) => e.preventDefault()}>
+        <input name="q" />
+      </WebMCPForm>,
+    );
+
+    await expect(mc.registerTool.mock.calls[0][0].execute({ q: "x" })).resolves.toEqual(
+      textResult('The form "plain" was submitted.'),
+    );
+  });
+
+  it("leaves registration to the browser when it supports declarative forms", () => {
+    const mc = installMockModelContext();
+    Object.defineProperty(HTMLFormElement.prototype, "toolName", { value: "", configurable: true });
+    render(<Booking />);
+    expect(mc.registerTool).not.toHaveBeenCalled();
+  });
+
+  it("registers through the polyfill even when declarative forms are supported", () => {
+    Object.defineProperty(HTMLFormElement.prototype, "toolName", { value: "", configurable: true });
+    const handle = installWebMCPPolyfill();
+    try {
+      render(<Booking />);
+      expect(handle.modelContextTesting!.listTools().map((t) => t.name)).toEqual(["book"]);
+    } finally {
+      cleanup();
+      handle.uninstall();
+    }
+  });
+
+  it("does not register with imperativeFallback={false}", () => {
+    const mc = installMockModelContext();
+    render(
+      <WebMCPForm toolName="plain" toolDescription="Plain" imperativeFallback={false}>
+        <input name="q" />
+      </WebMCPForm>,
+    );
+    expect(mc.registerTool).not.toHaveBeenCalled();
+  });
+});
@@ -1,10 +1,14 @@
 import { describe, it, expect, afterEach, vi, beforeEach } from "vitest";
-import React from "react";
-import { render, cleanup, act } from "@testing-library/react";
+import React, { useEffect, useState } from "react";
+import { render, cleanup, act, screen } from "@testing-library/react";
 import { WebMCPTool } from "../adapters/WebMCPTool";
+import { WebMCPField } from "../adapters/WebMCPField";
+import { useAgentFill } from "../adapters/useAgentFill";
+import { useAgentSubmit } from "../adapters/useAgentSubmit";
 import {
   installMockModelContext,
   removeMockModelContext,
+  createStandardSchema,
 } from "./helpers";
 
 describe("WebMCPTool", () => {
@@ -121,6 +125,48 @@ describe("WebMCPTool", () => {
     errorSpy.mockRestore();
   });
 
+  it("validates agent input against the collected schema", () => {
+    const mc = installMockModelContext();
+    const execute = vi.fn(() => "sent");
+
+    render(
+      <WebMCPTool name="test" description="Test" onExecute={execute}>
+        <input name="email" type="email" required />
+      </WebMCPTool>,
+    );
+
+    const registered = mc.registerTool.mock.calls[0][0];
+    expect(registered.execute({}).isError).toBe(true);
+    expect(execute).not.toHaveBeenCalled();
+
+    expect(registered.execute({ email: "a@b.c" })).toBe("sent");
+    expect(execute).toHaveBeenCalledWith({ email: "a@b.c" }, { signal: expect.any(AbortSignal) });
+  });
+
+  it("registers and validates with a Standard Schema inputSchema", () => {
+    const mc = installMockModelContext();
+    const execute = vi.fn();
+    const validator = createStandardSchema(
+      (value) =>
+        typeof (value as { email?: unknown }).email === "string"
+          ? { value }
+          : { issues: [{ message: "Required", path: ["email"] }] },
+      { type: "object", properties: { email: { type: "string" } }, required: ["email"] },
+    );
+
+    render(
+      <WebMCPTool name="test" description="Test" inputSchema={validator} onExecute={execute}>
+        <input name="ignored" />
+      </WebMCPTool>,
+    );
+
+    const registered = mc.registerTool.mock.calls[0][0];
+    expect(Object.keys(registered.inputSchema.properties)).toEqual(["email"]);
+    expect(registered.execute({}).isError).toBe(true);
+    registered.execute({ email: "a@b.c" });
+    expect(execute).toHaveBeenCalledWith({ email: "a@b.c" }, { signal: expect.any(AbortSignal) });
+  });
+
   it("listens for toolactivated events", () => {
     installMockModelContext();
     const onActivated = vi.fn();
@@ -199,3 +245,220 @@ describe("WebMCPTool", () => {
     expect(onActivated).not.toHaveBeenCalled();
   });
 });
+
+describe("WebMCPTool agent fill", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+  });
+
+  function QueryField() {
+    const [query, setQuery] = useState("");
+    const fill = useAgentFill("query");
+    useEffect(() => {
+      if (fill) setQuery(String(fill.value));
+    }, [fill]);
+    return (
+      <input name="query" aria-label="query" value={query} onChange={(e) => setQuery(e.target.value)} />
+    );
+  }
+
+  let review: ReturnType<typeof useAgentSubmit>;
+  function Review() {
+    review = useAgentSubmit();
+    return review.pending ? <p>Review the search</p> : null;
+  }
+
+  function Search(props: {
+    agentFill?: boolean;
+    autoSubmit?: boolean;
+    timeoutMs?: number;
+    inputSchema?: ReturnType<typeof createStandardSchema>;
+    onExecute: () => unknown;
+  }) {
+    return (
+      <WebMCPTool name="search" description="Search" {...props}>
+        <QueryField />
+        <Review />
+      </WebMCPTool>
+    );
+  }
+
+  it("fills the fields and runs onExecute at once with autoSubmit", async () => {
+    const mc = installMockModelContext();
+    const onExecute = vi.fn(() => "done");
+    render(<Search autoSubmit onExecute={onExecute} />);
+
+    let result: unknown;
+    await act(async () => {
+      result = await mc.registerTool.mock.calls[0][0].execute({ query: "shoes" });
+    });
+    expect(result).toBe("done");
+    expect(screen.getByLabelText<HTMLInputElement>("query").value).toBe("shoes");
+    expect(onExecute).toHaveBeenCalledWith({ query: "shoes" }, expect.anything());
+  });
+
+  it("waits for the user to submit the reviewed values", async () => {
+    const mc = installMockModelContext();
+    const onExecute = vi.fn(() => "done");
+    render(<Search agentFill onExecute={onExecute} />);
+
+    let call!: Promise<unknown>;
+    await act(async () => {
+      call = mc.registerTool.mock.calls[0][0].execute({ query: "shoes" });
+    });
+    expect(screen.getByLabelText<HTMLInputElement>("query").value).toBe("shoes");
+    expect(screen.getByText("Review the search")).toBeTruthy();
+    expect(review.pending).toEqual({ query: "shoes" });
+    expect(onExecute).not.toHaveBeenCalled();
+
+    act(() => {
+      expect(review.submit({ query: "red shoes" })).toBe(true);
+    });
+    await expect(call).resolves.toBe("done");
+    expect(onExecute).toHaveBeenCalledWith({ query: "red shoes" }, expect.anything());
+    expect(screen.queryByText("Review the search")).toBeNull();
+  });
+
+  it("refuses at once with agentFill and no submit consumer", async () => {
+    const mc = installMockModelContext();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const onExecute = vi.fn(() => "done");
+    render(
+      <WebMCPTool name="search" description="Search" agentFill onExecute={onExecute}>
+        <QueryField />
+      </WebMCPTool>,
+    );
+
+    let result: unknown;
+    await act(async () => {
+      result = await mc.registerTool.mock.calls[0][0].execute({ query: "shoes" });
+    });
+    expect(result).toMatchObject({
+      isError: true,
+      content: [{ text: expect.stringContaining("No submit prompt is available") }],
+    });
+    expect(onExecute).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("no useAgentSubmit() is mounted"));
+    warn.mockRestore();
+  });
+
+  it("validates the values the user submits", async () => {
+    const mc = installMockModelContext();
+    const onExecute = vi.fn(() => "done");
+    const inputSchema = createStandardSchema((value) =>
+      typeof (value as { query?: unknown }).query === "string"
+        ? { value }
+        : { issues: [{ message: "Expected string", path: ["query"] }] },
+      { type: "object", properties: { query: { type: "string" } }, required: ["query"] },
+    );
+    render(<Search agentFill inputSchema={inputSchema} onExecute={onExecute} />);
+
+    let call!: Promise<unknown>;
+    await act(async () => {
+      call = mc.registerTool.mock.calls[0][0].execute({ query: "shoes" });
+    });
+    act(() => {
+      review.submit({ query: 5 });
+    });
+    await expect(call).resolves.toMatchObject({
+      isError: true,
+      content: [{ text: expect.stringContaining("Expected string") }],
+    });
+    expect(onExecute).not.toHaveBeenCalled();
+  });
+
+  it("does not count the user's review time against timeoutMs", async () => {
+    const mc = installMockModelContext();
+    render(<Search agentFill timeoutMs={30} onExecute={() => "done"} />);
+
+    let call!: Promise<unknown>;
+    await act(async () => {
+      call = mc.registerTool.mock.calls[0][0].execute({ query: "shoes" });
+    });
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(review.pending).toEqual({ query: "shoes" });
+    act(() => {
+      review.submit();
+    });
+    await expect(call).resolves.toBe("done");
+  });
+
+  it("answers the agent with an error when the user declines", async () => {
+    const mc = installMockModelContext();
+    const onExecute = vi.fn();
+    render(<Search agentFill onExecute={onExecute} />);
+
+    let call!: Promise<unknown>;
+    await act(async () => {
+      call = mc.registerTool.mock.calls[0][0].execute({ query: "shoes" });
+    });
+    act(() => {
+      review.decline("Not now");
+    });
+    await expect(call).resolves.toMatchObject({ isError: true, content: [{ text: "Not now" }] });
+    expect(onExecute).not.toHaveBeenCalled();
+  });
+
+  it("declines a waiting call when a newer one arrives", async () => {
+    const mc = installMockModelContext();
+    render(<Search agentFill onExecute={() => "done"} />);
+    const execute = mc.registerTool.mock.calls[0][0].execute;
+
+    let first!: Promise<unknown>;
+    let second!: Promise<unknown>;
+    await act(async () => {
+      first = execute({ query: "a" });
+    });
+    await act(async () => {
+      second = execute({ query: "b" });
+    });
+    await expect(first).resolves.toMatchObject({ isError: true });
+    expect(review.pending).toEqual({ query: "b" });
+    act(() => {
+      review.submit();
+    });
+    await expect(second).resolves.toBe("done");
+  });
+
+  it("stops waiting when the call is cancelled", async () => {
+    const mc = installMockModelContext();
+    render(<Search agentFill onExecute={() => "done"} />);
+
+    let call!: Promise<unknown>;
+    await act(async () => {
+      call = mc.registerTool.mock.calls[0][0].execute({ query: "shoes" });
+    });
+    act(() => {
+      window.dispatchEvent(new CustomEvent("toolcancel", { detail: { toolName: "search" } }));
+    });
+    await expect(call).resolves.toMatchObject({ isError: true });
+    expect(review.pending).toBeNull();
+  });
+
+  it("passes fills to WebMCP.Field onAgentFill", async () => {
+    const mc = installMockModelContext();
+    const onAgentFill = vi.fn();
+    render(
+      <WebMCPTool name="rate" description="Rate" autoSubmit onExecute={() => "ok"}>
+        <WebMCPField name="rating" type="number" onAgentFill={onAgentFill}>
+          <div />
+        </WebMCPField>
+      </WebMCPTool>,
+    );
+
+    await act(async () => {
+      await mc.registerTool.mock.calls[mc.registerTool.mock.calls.length - 1][0].execute({ rating: 4 });
+    });
+    expect(onAgentFill).toHaveBeenCalledWith(4);
+  });
+
+  it("does not fill the fields without agentFill or autoSubmit", () => {
+    const mc = installMockModelContext();
+    render(<Search onExecute={() => "done"} />);
+    act(() => {
+      expect(mc.registerTool.mock.calls[0][0].execute({ query: "shoes" })).toBe("done");
+    });
+    expect(screen.getByLabelText<HTMLInputElement>("query").value).toBe("");
+  });
+});
@@ -0,0 +1,311 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import React from "react";
+import { render, cleanup } from "@testing-library/react";
+import { WebMCPProvider } from "../context";
+import { useWebMCPTool } from "../hooks/useWebMCPTool";
+import { redactInput, toJSONL } from "../audit/auditLog";
+import type { AuditConfig, AuditEvent } from "../audit/auditLog";
+import {
+  createBeaconAuditSink,
+  createConsoleAuditSink,
+  createLocalStorageAuditSink,
+  createMemoryAuditSink,
+} from "../audit/sinks";
+import {
+  installMockModelContext,
+  removeMockModelContext,
+  createToolConfig,
+} from "./helpers";
+
+function event(overrides: Partial<AuditEvent> = {}): AuditEvent {
+  return {
+    id: "audit-1",
+    timestamp: "2026-01-01T00:00:00.000Z",
+    tool: "t",
+    owner: "useWebMCPTool",
+    annotations: undefined,
+    input: {},
+    outcome: "success",
+    durationMs: 1,
+    ...overrides,
+  };
+}
+
+describe("redactInput", () => {
+  it("masks, omits and transforms fields by name at any depth", () => {
+    const input = {
+      user: "ann",
+      password: "hunter2",
+      token: "abc",
+      card: { number: "4242424242424242", holder: "Ann" },
+      contacts: [{ email: "a@b.c" }],
+    };
+    expect(
+      redactInput(input, {
+        password: "mask",
+        token: "omit",
+        number: (v) => `****${String(v).slice(-4)}`,
+        email: "mask",
+      }),
+    ).toEqual({
+      user: "ann",
+      password: "[REDACTED]",
+      card: { number: "****4242", holder: "Ann" },
+      contacts: [{ email: "[REDACTED]" }],
+    });
+    expect(input.password).toBe("hunter2");
+  });
+
+  it("prefers dotted paths over field names", () => {
+    expect(
+      redactInput(
+        { name: "Ann", card: { name: "ANN SMITH" }, items: [{ name: "x" }] },
+        { "card.name": "mask", "items[].name": "omit" },
+      ),
+    ).toEqual({ name: "Ann", card: { name: "[REDACTED]" }, items: [{}] });
+  });
+});
+
+describe("toJSONL", () => {
+  it("writes one event per line", () => {
+    const text = toJSONL([event({ id: "a" }), event({ id: "b" })]);
+    expect(text.split("\n")).toHaveLength(3);
+    expect(JSON.parse(text.split("\n")[1]).id).toBe("b");
+    expect(toJSONL([])).toBe("");
+  });
+});
+
+describe("audit sinks", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    localStorage.clear();
+  });
+
+  it("memory sink keeps the most recent events", () => {
+    const sink = createMemoryAuditSink({ capacity: 2 });
+    const listener = vi.fn();
+    sink.subscribe(listener);
+    sink.write(event({ id: "1" }));
+    sink.write(event({ id: "2" }));
+    sink.write(event({ id: "3" }));
+
+    expect(sink.getEvents().map((e) => e.id)).toEqual(["2", "3"]);
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(sink.toJSONL().trim().split("\n")).toHaveLength(2);
+    sink.clear();
+    expect(sink.getEvents()).toEqual([]);
+  });
+
+  it("console sink logs each event", () => {
+    const info = vi.spyOn(console, "info").mockImplementation(() => {});
+    createConsoleAuditSink().write(event({ tool: "deleteTodo", outcome: "denied" }));
+    expect(info).toHaveBeenCalledWith(
+      "[react-webmcp] audit: deleteTodo denied",
+      expect.objectContaining({ tool: "deleteTodo" }),
+    );
+  });
+
+  it("localStorage sink persists a capped list", () => {
+    const sink = createLocalStorageAuditSink({ key: "audit", capacity: 2 });
+    sink.write(event({ id: "1" }));
+    sink.write(event({ id: "2" }));
+    sink.write(event({ id: "3" }));
+
+    expect(JSON.parse(localStorage.getItem("audit")!).map((e: AuditEvent) => e.id)).toEqual([
+      "2",
+      "3",
+    ]);
+    expect(sink.getEvents()).toHaveLength(2);
+    sink.clear();
+    expect(localStorage.getItem("audit")).toBeNull();
+  });
+
+  it("localStorage sink ignores corrupt data and quota errors", () => {
+    localStorage.setItem("react-webmcp:audit", "{not json");
+    const sink = createLocalStorageAuditSink();
+    expect(sink.getEvents()).toEqual([]);
+
+    vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+      throw new DOMException("full", "QuotaExceededError");
+    });
+    expect(() => sink.write(event())).not.toThrow();
+  });
+
+  it("beacon sink batches events and sends JSON Lines", async () => {
+    const fetchMock = vi.fn(() => Promise.resolve(new Response()));
+    vi.stubGlobal("fetch", fetchMock);
+    const sink = createBeaconAuditSink({
+      url: "/audit",
+      batchSize: 2,
+      flushIntervalMs: 0,
+      headers: { Authorization: "Bearer x" },
+    });
+
+    sink.write(event({ id: "1" }));
+    expect(fetchMock).not.toHaveBeenCalled();
+    sink.write(event({ id: "2" }));
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("/audit");
+    expect(init).toMatchObject({
+      method: "POST",
+      keepalive: true,
+      headers: { "Content-Type": "application/x-ndjson", Authorization: "Bearer x" },
+    });
+    expect((init.body as string).trim().split("\n")).toHaveLength(2);
+
+    sink.dispose();
+    vi.unstubAllGlobals();
+  });
+
+  it("beacon sink prefers sendBeacon and flushes on an interval and on pagehide", () => {
+    vi.useFakeTimers();
+    const sendBeacon = vi.fn(() => true);
+    Object.defineProperty(navigator, "sendBeacon", { value: sendBeacon, configurable: true });
+    const sink = createBeaconAuditSink({ url: "/audit", flushIntervalMs: 1000 });
+
+    sink.write(event());
+    vi.advanceTimersByTime(1000);
+    expect(sendBeacon).toHaveBeenCalledTimes(1);
+    expect(sendBeacon).toHaveBeenCalledWith("/audit", expect.any(Blob));
+
+    sink.write(event());
+    window.dispatchEvent(new Event("pagehide"));
+    expect(sendBeacon).toHaveBeenCalledTimes(2);
+
+    sink.dispose();
+    // biome-ignore lint: test cleanup
+    delete (navigator as unknown as Record<string, unknown>).sendBeacon;
+  });
+});
+
+describe("WebMCPProvider audit", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+    vi.restoreAllMocks();
+  });
+
+  function setup(config: Omit<AuditConfig, "sinks">, overrides: Record<string, unknown> = {}) {
+    const mc = installMockModelContext();
+    const memory = createMemoryAuditSink();
+    function Tool() {
+      useWebMCPTool(createToolConfig(overrides));
+      return null;
+    }
+    render(
+      <WebMCPProvider audit={{ sinks: [memory], ...config }}>
+        <Tool />
+      </WebMCPProvider>,
+    );
+    return { memory, call: mc.registerTool.mock.calls[0][0].execute };
+  }
+
+  it("records successful calls with redacted input", async () => {
+    const { memory, call } = setup(
+      { redact: { query: "mask" } },
+      {
+        annotations: { readOnlyHint: true },
+        execute: async () => ({ content: [{ type: "text", text: "3 results" }] }),
+      },
+    );
+
+    await call({ query: "secret search" });
+
+    const [recorded] = memory.getEvents();
+    expect(recorded).toMatchObject({
+      tool: "test-tool",
+      owner: "useWebMCPTool",
+      annotations: { readOnlyHint: true },
+      input: { query: "[REDACTED]" },
+      outcome: "success",
+      result: "3 results",
+    });
+    expect(recorded.durationMs).toBeGreaterThanOrEqual(0);
+    expect(Date.parse(recorded.timestamp)).not.toBeNaN();
+  });
+
+  it("records errors, invalid input and policy refusals", async () => {
+    const { memory, call } = setup(
+      { maxSummaryLength: 10 },
+      {
+        execute: () => {
+          throw new Error("database unavailable");
+        },
+      },
+    );
+
+    expect(() => call({ query: "x" })).toThrow();
+    call({ query: 1 });
+
+    const [thrown, invalid] = memory.getEvents();
+    expect(thrown).toMatchObject({ outcome: "error", error: "database …" });
+    expect(invalid.outcome).toBe("error");
+  });
+
+  it("classifies refusals, denials and cancellations", async () => {
+    const mc = installMockModelContext();
+    const memory = createMemoryAuditSink();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    function Tools() {
+      useWebMCPTool(createToolConfig({ name: "blocked" }));
+      useWebMCPTool(createToolConfig({ name: "destructive", requireConfirmation: true }));
+      useWebMCPTool(
+        createToolConfig({ name: "slow", timeoutMs: 1, execute: () => new Promise(() => {}) }),
+      );
+      return null;
+    }
+    render(
+      <WebMCPProvider
+        audit={{ sinks: [memory] }}
+        policy={({ phase, name }) => phase === "register" || name !== "blocked"}
+        confirmDialog={false}
+      >
+        <Tools />
+      </WebMCPProvider>,
+    );
+
+    const byName = (name: string) =>
+      mc.registerTool.mock.calls.find(([t]) => t.name === name)![0].execute;
+    byName("blocked")({});
+    await byName("destructive")({});
+    await byName("slow")({});
+
+    expect(memory.getEvents().map((e) => [e.tool, e.outcome])).toEqual([
+      ["blocked", "denied"],
+      ["destructive", "rejected"],
+      ["slow", "cancelled"],
+    ]);
+  });
+
+  it("keeps calls working when a sink throws", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const memory = createMemoryAuditSink();
+    const mc = installMockModelContext();
+    function Tool() {
+      useWebMCPTool(createToolConfig());
+      return null;
+    }
+    render(
+      <WebMCPProvider
+        audit={{
+          sinks: [
+            {
+              write: () => {
+                throw new Error("sink down");
+              },
+            },
+            memory,
+          ],
+        }}
+      >
+        <Tool />
+      </WebMCPProvider>,
+    );
+
+    expect(mc.registerTool.mock.calls[0][0].execute({ query: "q" })).toEqual({ result: "q" });
+    expect(memory.getEvents()).toHaveLength(1);
+  });
+});
@@ -114,6 +114,32 @@ describe("buildInputSchema", () => {
     ]);
   });
 
+  it("maps multiple fields to arrays of their options", () => {
+    const schema = buildInputSchema([
+      {
+        name: "toppings",
+        type: "checkbox",
+        multiple: true,
+        title: "Toppings",
+        required: true,
+        oneOf: [{ value: "ham", label: "Ham" }],
+      },
+      { name: "tags", multiple: true, enumValues: ["a", "b"] },
+      { name: "size", type: "radio", enumValues: ["s", "l"] },
+    ]);
+
+    expect(schema.properties).toEqual({
+      size: { type: "string", enum: ["s", "l"] },
+      tags: { type: "array", items: { type: "string", enum: ["a", "b"] } },
+      toppings: {
+        type: "array",
+        title: "Toppings",
+        items: { type: "string", oneOf: [{ const: "ham", title: "Ham" }] },
+      },
+    });
+    expect(schema.required).toEqual(["toppings"]);
+  });
+
   it("omits required when no fields are required", () => {
     const schema = buildInputSchema([{ name: "optional" }]);
     expect(schema.required).toBeUndefined();
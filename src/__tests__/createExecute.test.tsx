@@ -0,0 +1,200 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import React from "react";
+import { render, cleanup, act } from "@testing-library/react";
+import { WebMCPProvider } from "../context";
+import { useWebMCPTool } from "../hooks/useWebMCPTool";
+import { useWebMCPContext } from "../hooks/useWebMCPContext";
+import { useToolConfirmation } from "../hooks/useToolConfirmation";
+import type { ToolExecuteContext } from "../types";
+import {
+  installMockModelContext,
+  removeMockModelContext,
+  createToolConfig,
+} from "./helpers";
+
+/** A handler that never settles and records the context it was given. */
+function hangingHandler() {
+  const contexts: ToolExecuteContext[] = [];
+  const execute = vi.fn((_input: Record<string, unknown>, context: ToolExecuteContext) => {
+    contexts.push(context);
+    return new Promise(() => {});
+  });
+  return { execute, contexts };
+}
+
+function Tool({ overrides }: { overrides?: Record<string, unknown> }) {
+  useWebMCPTool(createToolConfig(overrides));
+  return null;
+}
+
+describe("execute cancellation", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+    vi.useRealTimers();
+  });
+
+  it("passes a live signal to the handler", () => {
+    const mc = installMockModelContext();
+    const execute = vi.fn();
+    render(<Tool overrides={{ execute }} />);
+
+    mc.registerTool.mock.calls[0][0].execute({ query: "x" });
+    const [, context] = execute.mock.calls[0];
+    expect(context.signal).toBeInstanceOf(AbortSignal);
+    expect(context.signal.aborted).toBe(false);
+  });
+
+  it("times out after timeoutMs with a well-formed result", async () => {
+    vi.useFakeTimers();
+    const mc = installMockModelContext();
+    const { execute, contexts } = hangingHandler();
+    render(<Tool overrides={{ execute, timeoutMs: 500 }} />);
+
+    const pending = mc.registerTool.mock.calls[0][0].execute({});
+    await vi.advanceTimersByTimeAsync(500);
+
+    await expect(pending).resolves.toEqual({
+      content: [
+        { type: "text", text: 'Tool "test-tool" timed out after 500 ms.' },
+        { type: "json", json: { cancelled: true, tool: "test-tool", reason: "timeout" } },
+      ],
+      isError: true,
+    });
+    expect(contexts[0].signal.aborted).toBe(true);
+    expect((contexts[0].signal.reason as DOMException).name).toBe("TimeoutError");
+  });
+
+  it("does not time out calls that settle in time", async () => {
+    vi.useFakeTimers();
+    const mc = installMockModelContext();
+    render(<Tool overrides={{ execute: async () => "done", timeoutMs: 500 }} />);
+
+    await expect(mc.registerTool.mock.calls[0][0].execute({})).resolves.toBe("done");
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("aborts in-flight calls on unmount", async () => {
+    const mc = installMockModelContext();
+    const { execute, contexts } = hangingHandler();
+    const { unmount } = render(<Tool overrides={{ execute }} />);
+
+    const pending = mc.registerTool.mock.calls[0][0].execute({});
+    unmount();
+
+    await expect(pending).resolves.toMatchObject({
+      isError: true,
+      content: [{}, { json: { reason: "unregistered" } }],
+    });
+    expect((contexts[0].signal.reason as DOMException).name).toBe("AbortError");
+  });
+
+  it("aborts in-flight calls when the definition is re-registered", async () => {
+    const mc = installMockModelContext();
+    const { execute, contexts } = hangingHandler();
+    const { rerender } = render(<Tool overrides={{ execute }} />);
+
+    const pending = mc.registerTool.mock.calls[0][0].execute({});
+    rerender(<Tool overrides={{ execute, description: "Changed" }} />);
+
+    await expect(pending).resolves.toMatchObject({ isError: true });
+    expect(contexts[0].signal.aborted).toBe(true);
+  });
+
+  it("aborts on toolcancel for the same tool only", async () => {
+    const mc = installMockModelContext();
+    const { execute, contexts } = hangingHandler();
+    render(<Tool overrides={{ execute }} />);
+
+    const pending = mc.registerTool.mock.calls[0][0].execute({});
+    window.dispatchEvent(new CustomEvent("toolcancel", { detail: { toolName: "other" } }));
+    expect(contexts[0].signal.aborted).toBe(false);
+
+    window.dispatchEvent(new CustomEvent("toolcancel", { detail: { toolName: "test-tool" } }));
+    await expect(pending).resolves.toMatchObject({
+      isError: true,
+      content: [
+        { text: 'Tool "test-tool" was cancelled by the agent.' },
+        { json: { reason: "toolcancel" } },
+      ],
+    });
+  });
+
+  it("aborts useWebMCPContext calls when the tools are unregistered", async () => {
+    const mc = installMockModelContext();
+    const { execute, contexts } = hangingHandler();
+    function Tools() {
+      useWebMCPContext({ tools: [createToolConfig({ execute })] });
+      return null;
+    }
+    const { unmount } = render(<Tools />);
+
+    const pending = mc.registerTool.mock.calls[0][0].execute({});
+    unmount();
+
+    await expect(pending).resolves.toMatchObject({ isError: true });
+    expect(contexts[0].signal.aborted).toBe(true);
+  });
+
+  it("withdraws a pending confirmation when the call is cancelled", async () => {
+    const mc = installMockModelContext();
+    const execute = vi.fn();
+    let confirmation!: ReturnType<typeof useToolConfirmation>;
+    function Prompt() {
+      confirmation = useToolConfirmation();
+      return null;
+    }
+    render(
+      <WebMCPProvider>
+        <Tool overrides={{ execute, requireConfirmation: true }} />
+        <Prompt />
+      </WebMCPProvider>,
+    );
+
+    let pending!: Promise<unknown>;
+    act(() => {
+      pending = mc.registerTool.mock.calls[0][0].execute({});
+    });
+    expect(confirmation.pending).toHaveLength(1);
+
+    act(() => {
+      window.dispatchEvent(new CustomEvent("toolcancel", { detail: { toolName: "test-tool" } }));
+    });
+    await expect(pending).resolves.toMatchObject({
+      content: [{ text: 'Tool "test-tool" was cancelled by the agent.' }, {}],
+    });
+    expect(confirmation.pending).toHaveLength(0);
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it("starts timeoutMs once a confirmation is approved", async () => {
+    vi.useFakeTimers();
+    const mc = installMockModelContext();
+    let confirmation!: ReturnType<typeof useToolConfirmation>;
+    function Prompt() {
+      confirmation = useToolConfirmation();
+      return null;
+    }
+    render(
+      <WebMCPProvider>
+        <Tool
+          overrides={{ requireConfirmation: true, timeoutMs: 100, execute: () => new Promise(() => {}) }}
+        />
+        <Prompt />
+      </WebMCPProvider>,
+    );
+
+    let pending!: Promise<unknown>;
+    act(() => {
+      pending = mc.registerTool.mock.calls[0][0].execute({});
+    });
+    await act(() => vi.advanceTimersByTimeAsync(500));
+    expect(confirmation.pending).toHaveLength(1);
+
+    act(() => confirmation.current!.approve());
+    await act(() => vi.advanceTimersByTimeAsync(100));
+    await expect(pending).resolves.toMatchObject({
+      content: [{ text: 'Tool "test-tool" timed out after 100 ms.' }, {}],
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { defineTool } from "../utils/defineTool";
+import type { InferToolInput, JSONSchema } from "../types";
+
+describe("defineTool", () => {
+  it("returns the definition unchanged", () => {
+    const execute = () => "ok";
+    const def = {
+      name: "search",
+      description: "Search",
+      inputSchema: { type: "object", properties: { q: { type: "string" } } },
+      execute,
+    } as const;
+
+    const tool = defineTool(def);
+    expect(tool).toBe(def);
+    expect(tool.execute({ q: "x" })).toBe("ok");
+  });
+
+  it("infers the execute input from the schema", () => {
+    defineTool({
+      name: "book",
+      description: "Book a flight",
+      inputSchema: {
+        type: "object",
+        properties: {
+          origin: { type: "string" },
+          passengers: { type: "integer" },
+          cabin: { type: "string", enum: ["economy", "business"] },
+          tags: { type: "array", items: { type: "string" } },
+        },
+        required: ["origin", "cabin"],
+      },
+      execute: (input) => {
+        expectTypeOf(input).toEqualTypeOf<{
+          origin: string;
+          cabin: "economy" | "business";
+          passengers?: number;
+          tags?: string[];
+        }>();
+        return null;
+      },
+    });
+  });
+});
+
+describe("InferToolInput", () => {
+  it("falls back to Record<string, unknown> for non-literal schemas", () => {
+    expectTypeOf<InferToolInput<JSONSchema>>().toEqualTypeOf<Record<string, unknown>>();
+  });
+
+  it("maps nested objects with their own required keys", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        contact: {
+          type: "object",
+          properties: { email: { type: "string" }, phone: { type: "string" } },
+          required: ["email"],
+        },
+      },
+    } as const;
+
+    expectTypeOf<InferToolInput<typeof schema>>().toEqualTypeOf<{
+      contact?: { email: string; phone?: string };
+    }>();
+  });
+});
@@ -155,6 +155,71 @@ describe("extractFields", () => {
     });
   });
 
+  it("merges a radio group into one field labelled by its labels", () => {
+    const h = React.createElement;
+    const children = h(
+      React.Fragment,
+      null,
+      h("label", null, h("input", { type: "radio", name: "size", value: "s", required: true }), " Small"),
+      h("input", { type: "radio", name: "size", value: "l", id: "size-l" }),
+      h("label", { htmlFor: "size-l" }, "Large"),
+    );
+
+    expect(extractFields(children)).toEqual([
+      {
+        name: "size",
+        type: "radio",
+        required: true,
+        enumValues: ["s", "l"],
+        oneOf: [
+          { value: "s", label: "Small" },
+          { value: "l", label: "Large" },
+        ],
+      },
+    ]);
+  });
+
+  it("merges same-name checkboxes into a multiple field", () => {
+    const h = React.createElement;
+    // MUI-style <FormControlLabel control={...} label="..." />
+    const FormControlLabel = (props: { control: React.ReactElement; label: string }) => props.control;
+    const children = h(
+      "div",
+      null,
+      h(FormControlLabel, { control: h("input", { type: "checkbox", name: "toppings", value: "ham" }), label: "Ham" }),
+      h(FormControlLabel, { control: h("input", { type: "checkbox", name: "toppings", value: "olives" }), label: "Olives" }),
+      h("input", { type: "checkbox", name: "agree" }),
+    );
+
+    expect(extractFields(children)).toEqual([
+      {
+        name: "toppings",
+        type: "checkbox",
+        multiple: true,
+        enumValues: ["ham", "olives"],
+        oneOf: [
+          { value: "ham", label: "Ham" },
+          { value: "olives", label: "Olives" },
+        ],
+      },
+      { name: "agree", type: "checkbox" },
+    ]);
+  });
+
+  it("reads multiple from <select multiple>", () => {
+    const children = React.createElement(
+      "select",
+      { name: "tags", multiple: true },
+      React.createElement("option", { value: "a" }, "A"),
+    );
+    expect(extractFields(children)[0]).toMatchObject({ name: "tags", multiple: true, enumValues: ["a"] });
+  });
+
+  it("labels options with a string label prop", () => {
+    const children = React.createElement("div", { value: "s", label: "Small" });
+    expect(extractOptions(children)).toEqual([{ value: "s", label: "Small" }]);
+  });
+
   it("returns empty array for non-element children", () => {
     expect(extractFields("just text")).toEqual([]);
     expect(extractFields(null)).toEqual([]);
@@ -0,0 +1,143 @@
+import { bench, describe } from "vitest";
+import { structuralKey } from "../utils/fingerprint";
+
+/**
+ * Change detection cost per render: the previous `JSON.stringify`
+ * fingerprints against the current ones. Run with `npm run bench`. Only
+ * the fingerprint is timed; schemas that must be new on every call are
+ * built beforehand.
+ */
+
+function createField(i: number) {
+  return {
+    type: "string",
+    description: `Field number ${i} of the form`,
+    enum: ["a", "b", "c"],
+    minLength: 1,
+  };
+}
+
+function createSchema(fields: number, createProperty = createField) {
+  const properties: Record<string, object> = {};
+  for (let i = 0; i < fields; i++) {
+    properties[`field${i}`] = createProperty(i);
+  }
+  return { type: "object", properties, required: Object.keys(properties).slice(0, 5) };
+}
+
+// Benches that need a new schema per call take it from a pool built in
+// `setup`, outside the timed body, and run a fixed number of iterations
+// so the pool never runs dry.
+const ITERATIONS = 2000;
+const WARMUP_ITERATIONS = 200;
+
+function freshSchemas(build: () => object) {
+  let pool: object[] = [];
+  return {
+    next: () => pool.pop()!,
+    options: {
+      time: 0,
+      iterations: ITERATIONS,
+      warmupTime: 0,
+      warmupIterations: WARMUP_ITERATIONS,
+      setup: () => {
+        pool = Array.from({ length: ITERATIONS + WARMUP_ITERATIONS }, build);
+      },
+    },
+  };
+}
+
+const annotations = { readOnlyHint: true };
+
+// The fingerprints as they were before structural keys.
+function legacyToolFingerprint(config: {
+  name: string;
+  description: string;
+  inputSchema: object;
+  annotations?: object;
+}): string {
+  return `${config.name}::${config.description}::${JSON.stringify(config.inputSchema)}::${JSON.stringify({})}::${JSON.stringify(config.annotations ?? {})}`;
+}
+
+function toolFingerprint(config: {
+  name: string;
+  description: string;
+  inputSchema: object;
+  annotations?: object;
+}): string {
+  return `${config.name}::${config.description}::${structuralKey(config.inputSchema)}::${structuralKey({})}::${structuralKey(config.annotations ?? {})}`;
+}
+
+for (const fields of [5, 50]) {
+  const hoisted = createSchema(fields);
+
+  describe(`tool with a hoisted ${fields}-field schema`, () => {
+    bench("JSON.stringify (before)", () => {
+      legacyToolFingerprint({ name: "search", description: "Search", inputSchema: hoisted, annotations });
+    });
+    bench("structural key", () => {
+      toolFingerprint({ name: "search", description: "Search", inputSchema: hoisted, annotations });
+    });
+  });
+
+  describe(`tool with an inline ${fields}-field schema literal`, () => {
+    const before = freshSchemas(() => createSchema(fields));
+    bench(
+      "JSON.stringify (before)",
+      () => {
+        legacyToolFingerprint({ name: "search", description: "Search", inputSchema: before.next() });
+      },
+      before.options,
+    );
+    const after = freshSchemas(() => createSchema(fields));
+    bench(
+      "structural key",
+      () => {
+        toolFingerprint({ name: "search", description: "Search", inputSchema: after.next() });
+      },
+      after.options,
+    );
+  });
+
+  describe(`tool with an inline ${fields}-field literal of hoisted fields`, () => {
+    const shared = Array.from({ length: fields }, (_, i) => createField(i));
+    const before = freshSchemas(() => createSchema(fields, (i) => shared[i]));
+    bench(
+      "JSON.stringify (before)",
+      () => {
+        legacyToolFingerprint({ name: "search", description: "Search", inputSchema: before.next() });
+      },
+      before.options,
+    );
+    const after = freshSchemas(() => createSchema(fields, (i) => shared[i]));
+    bench(
+      "structural key",
+      () => {
+        toolFingerprint({ name: "search", description: "Search", inputSchema: after.next() });
+      },
+      after.options,
+    );
+  });
+}
+
+describe("useWebMCPContext with 50 tools, same tools array", () => {
+  const tools = Array.from({ length: 50 }, (_, i) => ({
+    name: `tool${i}`,
+    description: `Tool ${i}`,
+    inputSchema: createSchema(10),
+  }));
+  let last: unknown[] | null = null;
+  let lastPrint = "";
+
+  bench("JSON.stringify (before)", () => {
+    tools.map(legacyToolFingerprint).join("|");
+  });
+  bench("structural key, reference bail-out", () => {
+    // What `useMemo(..., [config.tools])` does on a re-render.
+    if (last !== tools) {
+      last = tools;
+      lastPrint = tools.map(toolFingerprint).join("|");
+    }
+    return lastPrint;
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import React from "react";
+import { render, cleanup } from "@testing-library/react";
+import { useWebMCPTool } from "../hooks/useWebMCPTool";
+import { structuralKey } from "../utils/fingerprint";
+import type { JSONSchema } from "../types";
+import {
+  installMockModelContext,
+  removeMockModelContext,
+  createToolConfig,
+} from "./helpers";
+
+describe("structuralKey", () => {
+  it("gives equal structures the same key", () => {
+    expect(structuralKey({ a: [1, "x"], b: { c: true } })).toBe(
+      structuralKey({ a: [1, "x"], b: { c: true } }),
+    );
+    expect(structuralKey({ a: 1 })).not.toBe(structuralKey({ a: 2 }));
+    expect(structuralKey("1")).not.toBe(structuralKey(1));
+    expect(structuralKey(undefined)).toBe("undefined");
+  });
+
+  it("serialises each object once", () => {
+    const schema = { type: "object", properties: { q: { type: "string" } } };
+    const stringify = vi.spyOn(JSON, "stringify");
+    const first = structuralKey(schema);
+    expect(structuralKey(schema)).toBe(first);
+    expect(stringify).toHaveBeenCalledTimes(1);
+    stringify.mockRestore();
+  });
+});
+
+describe("useWebMCPTool change detection", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+  });
+
+  function Tool({ inputSchema, description }: { inputSchema: JSONSchema; description?: string }) {
+    useWebMCPTool(createToolConfig({ inputSchema, ...(description ? { description } : {}) }));
+    return null;
+  }
+
+  it("does not serialise a hoisted schema again on re-render", () => {
+    const mc = installMockModelContext();
+    const schema: JSONSchema = { type: "object", properties: { query: { type: "string" } } };
+    const { rerender } = render(<Tool inputSchema={schema} />);
+    const stringify = vi.spyOn(JSON, "stringify");
+    rerender(<Tool inputSchema={schema} />);
+    rerender(<Tool inputSchema={schema} description="Changed" />);
+    expect(stringify).not.toHaveBeenCalledWith(schema);
+    stringify.mockRestore();
+    expect(mc.registerTool).toHaveBeenCalledTimes(2);
+  });
+
+  it("re-registers for a new schema with a different structure", () => {
+    const mc = installMockModelContext();
+    const { rerender } = render(<Tool inputSchema={{ type: "object", properties: {} }} />);
+    rerender(<Tool inputSchema={{ type: "object", properties: {} }} />);
+    expect(mc.registerTool).toHaveBeenCalledTimes(1);
+    rerender(
+      <Tool inputSchema={{ type: "object", properties: { query: { type: "string" } } }} />,
+    );
+    expect(mc.registerTool).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,395 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import React, { useEffect, useRef } from "react";
+import { render, cleanup, act } from "@testing-library/react";
+import { useWebMCPTool } from "../hooks/useWebMCPTool";
+import { useToolConfirmation } from "../hooks/useToolConfirmation";
+import { useWebMCPFrameTools } from "../hooks/useWebMCPFrameTools";
+import { WebMCPFrameBridge } from "../components/WebMCPFrameBridge";
+import { WebMCPProvider } from "../context";
+import { connectFrameTools, exposeFrameTools } from "../bridge/frameBridge";
+import {
+  installMockModelContext,
+  removeMockModelContext,
+  createToolConfig,
+} from "./helpers";
+
+const HOST = "https://host.test";
+const APP = "https://app.test";
+const CHILD_TYPES = ["tools", "result", "unload"];
+
+/**
+ * jsdom's postMessage sets neither `source` nor `origin`, so route the
+ * frame window's messages by hand: the child (exposing tools to the frame
+ * window as its "parent") and the parent (talking to the frame window)
+ * share the test's window. Each message is delivered asynchronously, with
+ * the origin of the side that sent it, when `targetOrigin` allows.
+ */
+function createFrame(options: { appOrigin?: string } = {}) {
+  const iframe = document.createElement("iframe");
+  document.body.appendChild(iframe);
+  const frameWindow = iframe.contentWindow!;
+  const posted: Array<{ message: { type: string }; targetOrigin: string }> = [];
+  vi.spyOn(frameWindow, "postMessage").mockImplementation(((
+    message: { type: string },
+    targetOrigin: string,
+  ) => {
+    posted.push({ message, targetOrigin });
+    const fromChild = CHILD_TYPES.includes(message.type);
+    const senderOrigin = fromChild ? (options.appOrigin ?? APP) : HOST;
+    const receiverOrigin = fromChild ? HOST : APP;
+    if (targetOrigin !== "*" && targetOrigin !== receiverOrigin) return;
+    setTimeout(() => {
+      window.dispatchEvent(
+        new MessageEvent("message", {
+          data: structuredClone(message),
+          origin: senderOrigin,
+          source: frameWindow,
+        }),
+      );
+    }, 0);
+  }) as typeof frameWindow.postMessage);
+  return { iframe, frameWindow, posted };
+}
+
+function ChildTools({
+  slow = false,
+  destructive = false,
+}: {
+  slow?: boolean;
+  destructive?: boolean;
+}) {
+  useWebMCPTool(
+    createToolConfig({
+      annotations: destructive ? { destructiveHint: true } : { readOnlyHint: true },
+      ...(slow ? { execute: () => new Promise(() => {}) } : {}),
+    }),
+  );
+  return null;
+}
+
+function registeredNames(mc: ReturnType<typeof installMockModelContext>) {
+  const registered = mc.registerTool.mock.calls.map(([tool]) => tool.name as string);
+  const unregistered = mc.unregisterTool.mock.calls.map(([name]) => name as string);
+  return registered.filter(
+    (name, i) => registered.slice(0, i + 1).filter((n) => n === name).length >
+      unregistered.filter((n) => n === name).length,
+  );
+}
+
+describe("frame bridge", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+    document.body.innerHTML = "";
+    vi.restoreAllMocks();
+  });
+
+  it("registers the frame's tools in the parent under a prefix and proxies calls", async () => {
+    const mc = installMockModelContext();
+    const { iframe, frameWindow } = createFrame();
+    render(
+      <>
+        <ChildTools />
+        <WebMCPFrameBridge allowedOrigins={[HOST]} target={frameWindow} />
+      </>,
+    );
+    const disconnect = connectFrameTools({
+      frame: iframe,
+      allowedOrigins: [APP],
+      prefix: "app_",
+    });
+
+    await vi.waitFor(() => expect(registeredNames(mc)).toContain("app_test-tool"));
+    const proxy = mc.registerTool.mock.calls.find(([tool]) => tool.name === "app_test-tool")![0];
+    expect(proxy).toMatchObject({
+      description: "A test tool",
+      annotations: { readOnlyHint: true },
+      inputSchema: { type: "object" },
+    });
+
+    await expect(proxy.execute({ query: "hi" })).resolves.toEqual({ result: "hi" });
+    // Invalid input is answered in the parent.
+    expect(proxy.execute({ query: 5 })).toMatchObject({ isError: true });
+    disconnect();
+    expect(registeredNames(mc)).not.toContain("app_test-tool");
+  });
+
+  it("follows the frame's registrations", async () => {
+    const mc = installMockModelContext();
+    const { iframe, frameWindow } = createFrame();
+    const { rerender } = render(
+      <>
+        <ChildTools />
+        <WebMCPFrameBridge allowedOrigins={[HOST]} target={frameWindow} />
+      </>,
+    );
+    const disconnect = connectFrameTools({ frame: iframe, allowedOrigins: [APP] });
+    await vi.waitFor(() => expect(registeredNames(mc)).toContain("test-tool"));
+
+    act(() => rerender(<WebMCPFrameBridge allowedOrigins={[HOST]} target={frameWindow} />));
+    await vi.waitFor(() =>
+      expect(mc.unregisterTool.mock.calls.filter(([n]) => n === "test-tool")).toHaveLength(2),
+    );
+    disconnect();
+  });
+
+  it("ignores messages from origins that are not allowed", async () => {
+    const mc = installMockModelContext();
+    const { iframe, frameWindow, posted } = createFrame({ appOrigin: "https://evil.test" });
+    render(
+      <>
+        <ChildTools />
+        <WebMCPFrameBridge allowedOrigins={[HOST]} target={frameWindow} />
+      </>,
+    );
+    const disconnect = connectFrameTools({ frame: iframe, allowedOrigins: [APP] });
+    await vi.waitFor(() => expect(posted.some((p) => p.message.type === "tools")).toBe(true));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(mc.registerTool.mock.calls.map(([t]) => t.name)).toEqual(["test-tool"]);
+    disconnect();
+  });
+
+  it("only posts to the allowed parent origins", () => {
+    installMockModelContext();
+    const { frameWindow, posted } = createFrame();
+    const stop = exposeFrameTools({
+      allowedOrigins: [HOST, "https://other.test"],
+      target: frameWindow,
+    });
+    expect(posted.map((p) => p.targetOrigin)).toEqual([HOST, "https://other.test"]);
+    stop();
+  });
+
+  it("answers pending calls when the frame unloads or times out", async () => {
+    const mc = installMockModelContext();
+    const { iframe, frameWindow } = createFrame();
+    render(<ChildTools slow />);
+    const stop = exposeFrameTools({ allowedOrigins: [HOST], target: frameWindow });
+    const disconnect = connectFrameTools({
+      frame: iframe,
+      allowedOrigins: [APP],
+      prefix: "app_",
+      timeoutMs: 50,
+    });
+    await vi.waitFor(() => expect(registeredNames(mc)).toContain("app_test-tool"));
+    const proxy = mc.registerTool.mock.calls.find(([tool]) => tool.name === "app_test-tool")![0];
+
+    await expect(proxy.execute({ query: "a" })).resolves.toMatchObject({
+      isError: true,
+      content: [{ text: 'Tool "app_test-tool" did not answer within 50 ms.' }],
+    });
+
+    const pending = proxy.execute({ query: "b" });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    stop();
+    await expect(pending).resolves.toMatchObject({
+      isError: true,
+      content: [{ text: "The frame unloaded before answering." }],
+    });
+    expect(registeredNames(mc)).not.toContain("app_test-tool");
+    disconnect();
+  });
+
+  it("cancels only the call the parent names", async () => {
+    installMockModelContext();
+    const { frameWindow } = createFrame();
+    const signals: AbortSignal[] = [];
+    function Slow() {
+      useWebMCPTool(
+        createToolConfig({
+          execute: (_input: unknown, { signal }: { signal: AbortSignal }) => {
+            signals.push(signal);
+            return new Promise(() => {});
+          },
+        }),
+      );
+      return null;
+    }
+    render(<Slow />);
+    const stop = exposeFrameTools({ allowedOrigins: [HOST], target: frameWindow });
+    const send = (message: object) =>
+      frameWindow.postMessage({ source: "react-webmcp", ...message }, APP);
+
+    send({ type: "call", id: "1", name: "test-tool", input: { query: "a" } });
+    send({ type: "call", id: "2", name: "test-tool", input: { query: "b" } });
+    await vi.waitFor(() => expect(signals).toHaveLength(2));
+    send({ type: "cancel", id: "1" });
+    await vi.waitFor(() => expect(signals[0].aborted).toBe(true));
+    expect(signals[1].aborted).toBe(false);
+    stop();
+  });
+
+  it("useWebMCPFrameTools posts nothing with no allowed origins", () => {
+    installMockModelContext();
+    const posted: unknown[] = [];
+    function Host() {
+      const ref = useRef<HTMLIFrameElement>(null);
+      useWebMCPFrameTools(ref, { allowedOrigins: [] });
+      return (
+        <iframe
+          ref={(el) => {
+            ref.current = el;
+            if (el) {
+              vi.spyOn(el.contentWindow!, "postMessage").mockImplementation((message) => {
+                posted.push(message);
+              });
+            }
+          }}
+        />
+      );
+    }
+    expect(() => render(<Host />)).not.toThrow();
+    expect(posted).toEqual([]);
+  });
+
+  it("useWebMCPFrameTools connects the referenced iframe", async () => {
+    const mc = installMockModelContext();
+    let frameWindow: Window | undefined;
+    function Host() {
+      const ref = useRef<HTMLIFrameElement>(null);
+      useWebMCPFrameTools(ref, { allowedOrigins: [APP], prefix: "embed_" });
+      return (
+        <iframe
+          ref={(el) => {
+            ref.current = el;
+            if (el && !frameWindow) {
+              frameWindow = el.contentWindow!;
+            }
+          }}
+        />
+      );
+    }
+    const { unmount } = render(<Host />);
+    // Route the rendered iframe's messages like createFrame() does.
+    const win = frameWindow!;
+    vi.spyOn(win, "postMessage").mockImplementation(((message: { type: string }) => {
+      if (!CHILD_TYPES.includes(message.type)) return;
+      setTimeout(() =>
+        act(() => {
+          window.dispatchEvent(
+            new MessageEvent("message", { data: structuredClone(message), origin: APP, source: win }),
+          );
+        }),
+      );
+    }) as typeof win.postMessage);
+
+    render(<ChildTools />);
+    const stop = exposeFrameTools({ allowedOrigins: [HOST], target: win });
+    await vi.waitFor(() => expect(registeredNames(mc)).toContain("embed_test-tool"));
+    unmount();
+    expect(registeredNames(mc)).not.toContain("embed_test-tool");
+    stop();
+  });
+
+  it("useWebMCPFrameTools applies the provider's policy and cancels calls in the frame", async () => {
+    const mc = installMockModelContext();
+    let frameWindow: Window | undefined;
+    function Host() {
+      const ref = useRef<HTMLIFrameElement>(null);
+      useWebMCPFrameTools(ref, { allowedOrigins: [APP], prefix: "embed_" });
+      return (
+        <iframe
+          ref={(el) => {
+            ref.current = el;
+            if (el && !frameWindow) frameWindow = el.contentWindow!;
+          }}
+        />
+      );
+    }
+    render(
+      <WebMCPProvider policy={({ phase, input }) => phase === "register" || input?.query !== "no"}>
+        <Host />
+      </WebMCPProvider>,
+    );
+    const win = frameWindow!;
+    const sent: Array<{ type: string }> = [];
+    vi.spyOn(win, "postMessage").mockImplementation(((message: { type: string }) => {
+      if (!CHILD_TYPES.includes(message.type)) {
+        sent.push(message);
+        return;
+      }
+      setTimeout(() =>
+        act(() => {
+          window.dispatchEvent(
+            new MessageEvent("message", { data: structuredClone(message), origin: APP, source: win }),
+          );
+        }),
+      );
+    }) as typeof win.postMessage);
+
+    render(<ChildTools slow />);
+    const stop = exposeFrameTools({ allowedOrigins: [HOST], target: win });
+    await vi.waitFor(() => expect(registeredNames(mc)).toContain("embed_test-tool"));
+    const proxy = mc.registerTool.mock.calls.find(([tool]) => tool.name === "embed_test-tool")![0];
+
+    expect(proxy.execute({ query: "no" })).toMatchObject({ isError: true });
+    expect(sent.filter((m) => m.type === "call")).toHaveLength(0);
+
+    const pending = proxy.execute({ query: "a" });
+    expect(sent.filter((m) => m.type === "call")).toHaveLength(1);
+    window.dispatchEvent(new CustomEvent("toolcancel", { detail: { toolName: "embed_test-tool" } }));
+    await expect(pending).resolves.toMatchObject({ isError: true });
+    expect(sent.filter((m) => m.type === "cancel")).toHaveLength(1);
+    stop();
+  });
+
+  it("useWebMCPFrameTools asks for confirmation of a destructive frame tool once", async () => {
+    const mc = installMockModelContext();
+    let frameWindow: Window | undefined;
+    function Host() {
+      const ref = useRef<HTMLIFrameElement>(null);
+      useWebMCPFrameTools(ref, { allowedOrigins: [APP], prefix: "embed_" });
+      return (
+        <iframe
+          ref={(el) => {
+            ref.current = el;
+            if (el && !frameWindow) frameWindow = el.contentWindow!;
+          }}
+        />
+      );
+    }
+    const asked: string[] = [];
+    function AutoApprove() {
+      const { current } = useToolConfirmation();
+      useEffect(() => {
+        if (!current) return;
+        asked.push(current.toolName);
+        current.approve();
+      }, [current]);
+      return null;
+    }
+    render(
+      <WebMCPProvider>
+        <Host />
+        <ChildTools destructive />
+        <AutoApprove />
+      </WebMCPProvider>,
+    );
+    const win = frameWindow!;
+    vi.spyOn(win, "postMessage").mockImplementation(((message: { type: string }) => {
+      setTimeout(() =>
+        act(() => {
+          window.dispatchEvent(
+            new MessageEvent("message", {
+              data: structuredClone(message),
+              origin: CHILD_TYPES.includes(message.type) ? APP : HOST,
+              source: win,
+            }),
+          );
+        }),
+      );
+    }) as typeof win.postMessage);
+
+    const stop = exposeFrameTools({ allowedOrigins: [HOST], target: win });
+    await vi.waitFor(() => expect(registeredNames(mc)).toContain("embed_test-tool"));
+    const proxy = mc.registerTool.mock.calls.find(([tool]) => tool.name === "embed_test-tool")![0];
+
+    let result: unknown;
+    await act(async () => {
+      result = await proxy.execute({ query: "a" });
+    });
+    expect(result).toEqual({ result: "a" });
+    expect(asked).toEqual(["test-tool"]);
+    stop();
+  });
+});
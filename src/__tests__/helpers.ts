@@ -83,3 +83,25 @@ export function createToolConfig(overrides: Record<string, unknown> = {}) {
     ...overrides,
   };
 }
+
+/**
+ * Creates a minimal Standard Schema validator for tests. `validate` returns
+ * either `{ value }` or `{ issues }`; `jsonSchema` is what the validator's
+ * Standard JSON Schema converter reports (omit it to simulate a validator
+ * without JSON Schema support).
+ */
+export function createStandardSchema(
+  validate: (value: unknown) => unknown,
+  jsonSchema?: Record<string, unknown>,
+) {
+  return {
+    "~standard": {
+      version: 1 as const,
+      vendor: "test",
+      validate: vi.fn(validate) as unknown as (
+        value: unknown,
+      ) => { value: unknown } | { issues: { message: string }[] },
+      ...(jsonSchema ? { jsonSchema: { input: vi.fn(() => jsonSchema) } } : {}),
+    },
+  };
+}
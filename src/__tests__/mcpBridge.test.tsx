@@ -0,0 +1,407 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import React from "react";
+import { render, cleanup, act } from "@testing-library/react";
+import { PassThrough } from "node:stream";
+import { connect as netConnect } from "node:net";
+import { randomBytes } from "node:crypto";
+import { useWebMCPTool } from "../hooks/useWebMCPTool";
+import { connectMCPBridge } from "../bridge";
+import type { MCPBridge, MCPBridgeStatus } from "../bridge";
+import { startMCPRelay } from "../bridge/relay";
+import type { MCPRelay } from "../bridge/relay";
+import {
+  installMockModelContext,
+  removeMockModelContext,
+  createToolConfig,
+} from "./helpers";
+
+/**
+ * The parts of a browser WebSocket the bridge uses, over a plain TCP
+ * socket: jsdom's WebSocket cannot dispatch events under vitest.
+ */
+function createTestSocket(url: string, origin = "http://localhost:5173"): WebSocket {
+  const { hostname, port } = new URL(url);
+  const listeners: Record<string, Array<(event: { data?: string }) => void>> = {};
+  const emit = (type: string, event: { data?: string } = {}) =>
+    (listeners[type] ?? []).forEach((listener) => listener(event));
+  const socket = netConnect(Number(port), hostname);
+  let buffer = Buffer.alloc(0);
+  let upgraded = false;
+  let closed = false;
+
+  const ws = {
+    OPEN: 1,
+    readyState: 0,
+    addEventListener: (type: string, listener: (event: { data?: string }) => void) => {
+      (listeners[type] ??= []).push(listener);
+    },
+    send(text: string) {
+      const payload = Buffer.from(text, "utf8");
+      const mask = randomBytes(4);
+      const header =
+        payload.length < 126
+          ? Buffer.from([0x81, 0x80 | payload.length])
+          : Buffer.from([0x81, 0x80 | 126, payload.length >> 8, payload.length & 0xff]);
+      const masked = payload.map((byte, i) => byte ^ mask[i % 4]);
+      socket.write(Buffer.concat([header, mask, masked]));
+    },
+    close() {
+      socket.end(Buffer.concat([Buffer.from([0x88, 0x80]), randomBytes(4)]));
+    },
+  };
+
+  socket.on("connect", () => {
+    socket.write(
+      `GET / HTTP/1.1\r\nHost: ${hostname}:${port}\r\nUpgrade: websocket\r\n` +
+        `Connection: Upgrade\r\nSec-WebSocket-Key: ${randomBytes(16).toString("base64")}\r\n` +
+        `Origin: ${origin}\r\nSec-WebSocket-Version: 13\r\n\r\n`,
+    );
+  });
+  socket.on("data", (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    if (!upgraded) {
+      const end = buffer.indexOf("\r\n\r\n");
+      if (end === -1) return;
+      upgraded = true;
+      buffer = buffer.subarray(end + 4);
+      ws.readyState = 1;
+      emit("open");
+    }
+    while (buffer.length >= 2) {
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (buffer.length < offset + length) return;
+      const opcode = buffer[0] & 0x0f;
+      const payload = buffer.subarray(offset, offset + length);
+      buffer = buffer.subarray(offset + length);
+      if (opcode === 0x1) emit("message", { data: payload.toString("utf8") });
+      if (opcode === 0x8) socket.end();
+    }
+  });
+  socket.on("close", () => {
+    if (closed) return;
+    closed = true;
+    ws.readyState = 3;
+    emit("close");
+  });
+  socket.on("error", () => {});
+  return ws as unknown as WebSocket;
+}
+
+/**
+ * A relay on a free port plus an in-memory MCP client on its stdio.
+ */
+async function startClient() {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const messages: Array<Record<string, unknown>> = [];
+  let partial = "";
+  output.on("data", (chunk: Buffer) => {
+    const lines = (partial + chunk.toString("utf8")).split("\n");
+    partial = lines.pop() ?? "";
+    for (const line of lines) messages.push(JSON.parse(line));
+  });
+  const relay = await startMCPRelay({ port: 0, input, output, log: () => {} });
+
+  let nextId = 0;
+  const send = (message: object) => input.write(`${JSON.stringify(message)}\n`);
+  const request = async (method: string, params?: object) => {
+    const id = ++nextId;
+    send({ jsonrpc: "2.0", id, method, params });
+    let response: Record<string, unknown> | undefined;
+    await vi.waitFor(() => {
+      response = messages.find((m) => m.id === id);
+      expect(response).toBeDefined();
+    });
+    return response!;
+  };
+  return { relay, messages, send, request, url: `ws://127.0.0.1:${relay.port}` };
+}
+
+/**
+ * The status line the relay answers a WebSocket upgrade with.
+ */
+function upgradeStatus(port: number, origin?: string): Promise<string> {
+  return new Promise((resolve) => {
+    const socket = netConnect(port, "127.0.0.1");
+    socket.on("connect", () => {
+      socket.write(
+        `GET / HTTP/1.1\r\nHost: 127.0.0.1:${port}\r\nUpgrade: websocket\r\n` +
+          `Connection: Upgrade\r\nSec-WebSocket-Key: ${randomBytes(16).toString("base64")}\r\n` +
+          (origin ? `Origin: ${origin}\r\n` : "") +
+          "Sec-WebSocket-Version: 13\r\n\r\n",
+      );
+    });
+    socket.once("data", (chunk: Buffer) => {
+      resolve(chunk.toString("utf8").split("\r\n")[0]);
+      socket.destroy();
+    });
+  });
+}
+
+function connect(url: string, options: { reconnectIntervalMs?: number } = {}) {
+  const statuses: MCPBridgeStatus[] = [];
+  const bridge = connectMCPBridge({
+    url,
+    reconnectIntervalMs: 0,
+    ...options,
+    createSocket: createTestSocket,
+    onStatusChange: (status) => statuses.push(status),
+  });
+  return { bridge, statuses };
+}
+
+describe("connectMCPBridge", () => {
+  let relay: MCPRelay | undefined;
+  let bridge: MCPBridge | undefined;
+
+  afterEach(async () => {
+    bridge?.close();
+    await relay?.close();
+    bridge = relay = undefined;
+    cleanup();
+    removeMockModelContext();
+  });
+
+  function Tools({ extra = false }: { extra?: boolean }) {
+    useWebMCPTool(
+      createToolConfig({ annotations: { readOnlyHint: true } }),
+    );
+    useWebMCPTool(
+      createToolConfig({
+        name: extra ? "extra-tool" : "other-tool",
+        description: "Another tool",
+        execute: () => ({ content: [{ type: "json", json: { ok: true } }] }),
+      }),
+    );
+    return null;
+  }
+
+  it("answers initialize, tools/list and tools/call with the page's tools", async () => {
+    installMockModelContext();
+    render(<Tools />);
+    const client = await startClient();
+    relay = client.relay;
+    let statuses: MCPBridgeStatus[];
+    ({ bridge, statuses } = connect(client.url));
+    await vi.waitFor(() => expect(statuses).toContain("open"));
+
+    const init = await client.request("initialize", {
+      protocolVersion: "2025-03-26",
+      capabilities: {},
+      clientInfo: { name: "test", version: "1" },
+    });
+    expect(init.result).toMatchObject({
+      protocolVersion: "2025-03-26",
+      capabilities: { tools: { listChanged: true } },
+      serverInfo: { name: "react-webmcp" },
+    });
+
+    const list = await client.request("tools/list");
+    expect(list.result).toEqual({
+      tools: [
+        {
+          name: "test-tool",
+          description: "A test tool",
+          inputSchema: expect.objectContaining({ type: "object" }),
+          annotations: { readOnlyHint: true },
+        },
+        {
+          name: "other-tool",
+          description: "Another tool",
+          inputSchema: expect.objectContaining({ type: "object" }),
+        },
+      ],
+    });
+
+    const call = await client.request("tools/call", {
+      name: "test-tool",
+      arguments: { query: "hi" },
+    });
+    expect(call.result).toEqual({ content: [{ type: "text", text: '{"result":"hi"}' }] });
+
+    const json = await client.request("tools/call", { name: "other-tool", arguments: {} });
+    expect(json.result).toEqual({ content: [{ type: "text", text: '{"ok":true}' }] });
+  });
+
+  it("reports invalid input, unknown tools and unknown methods", async () => {
+    installMockModelContext();
+    render(<Tools />);
+    const client = await startClient();
+    relay = client.relay;
+    ({ bridge } = connect(client.url));
+
+    const invalid = await client.request("tools/call", {
+      name: "test-tool",
+      arguments: { query: 5 },
+    });
+    expect(invalid.result).toMatchObject({ isError: true });
+
+    const unknown = await client.request("tools/call", { name: "nope" });
+    expect(unknown.error).toMatchObject({ code: -32602 });
+
+    const method = await client.request("resources/list");
+    expect(method.error).toMatchObject({ code: -32601 });
+  });
+
+  it("notifies the client when the tool list changes", async () => {
+    installMockModelContext();
+    const { rerender } = render(<Tools />);
+    const client = await startClient();
+    relay = client.relay;
+    ({ bridge } = connect(client.url));
+    await client.request("initialize", { protocolVersion: "2025-06-18" });
+
+    act(() => rerender(<Tools extra />));
+    await vi.waitFor(() =>
+      expect(client.messages).toContainEqual({
+        jsonrpc: "2.0",
+        method: "notifications/tools/list_changed",
+      }),
+    );
+    const list = await client.request("tools/list");
+    expect((list.result as { tools: Array<{ name: string }> }).tools.map((t) => t.name)).toEqual([
+      "test-tool",
+      "extra-tool",
+    ]);
+  });
+
+  it("holds client messages until a page connects", async () => {
+    installMockModelContext();
+    render(<Tools />);
+    const client = await startClient();
+    relay = client.relay;
+
+    const pending = client.request("ping");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(client.messages).toEqual([]);
+
+    ({ bridge } = connect(client.url));
+    await expect(pending).resolves.toEqual({ jsonrpc: "2.0", id: 1, result: {} });
+  });
+
+  it("replays the handshake to a page that reconnects", async () => {
+    installMockModelContext();
+    render(<Tools />);
+    const client = await startClient();
+    relay = client.relay;
+    const first = connect(client.url);
+    await client.request("initialize", { protocolVersion: "2025-06-18" });
+    first.bridge.close();
+    await vi.waitFor(() => expect(first.statuses).toContain("closed"));
+
+    ({ bridge } = connect(client.url));
+    await vi.waitFor(() =>
+      expect(client.messages).toContainEqual({
+        jsonrpc: "2.0",
+        method: "notifications/tools/list_changed",
+      }),
+    );
+    // The replayed initialize response is not passed on to the client.
+    expect(client.messages.filter((m) => m.result && "serverInfo" in (m.result as object))).toHaveLength(1);
+    const list = await client.request("tools/list");
+    expect(list.result).toMatchObject({ tools: expect.any(Array) });
+  });
+
+  it("answers requests pending when the page disconnects", async () => {
+    installMockModelContext();
+    function Slow() {
+      useWebMCPTool(createToolConfig({ execute: () => new Promise(() => {}) }));
+      return null;
+    }
+    render(<Slow />);
+    const client = await startClient();
+    relay = client.relay;
+    const page = connect(client.url);
+    await client.request("ping");
+
+    const call = client.request("tools/call", { name: "test-tool", arguments: { query: "x" } });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    page.bridge.close();
+    await expect(call).resolves.toMatchObject({ error: { code: -32000 } });
+  });
+
+  it("cancels only the call named by notifications/cancelled", async () => {
+    installMockModelContext();
+    const signals: AbortSignal[] = [];
+    const resolvers: Array<(value: unknown) => void> = [];
+    function Slow() {
+      useWebMCPTool(
+        createToolConfig({
+          execute: (_input: unknown, { signal }: { signal: AbortSignal }) => {
+            signals.push(signal);
+            return new Promise((resolve) => resolvers.push(resolve));
+          },
+        }),
+      );
+      return null;
+    }
+    render(<Slow />);
+    const client = await startClient();
+    relay = client.relay;
+    const page = connect(client.url);
+    bridge = page.bridge;
+    await client.request("initialize", { protocolVersion: "2025-06-18", capabilities: {} });
+
+    client.send({
+      jsonrpc: "2.0",
+      id: 100,
+      method: "tools/call",
+      params: { name: "test-tool", arguments: { query: "a" } },
+    });
+    const second = client.request("tools/call", { name: "test-tool", arguments: { query: "b" } });
+    await vi.waitFor(() => expect(signals).toHaveLength(2));
+    client.send({ jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: 100 } });
+    await vi.waitFor(() => expect(signals[0].aborted).toBe(true));
+    expect(signals[1].aborted).toBe(false);
+
+    resolvers[1]("done");
+    await expect(second).resolves.toMatchObject({
+      result: { content: [{ type: "text", text: "done" }] },
+    });
+    expect(client.messages.find((m) => m.id === 100)).toBeUndefined();
+  });
+
+  it("only accepts pages from localhost origins by default", async () => {
+    const client = await startClient();
+    relay = client.relay;
+    expect(await upgradeStatus(relay.port, "https://evil.example")).toContain("403");
+    expect(await upgradeStatus(relay.port)).toContain("403");
+    expect(await upgradeStatus(relay.port, "http://127.0.0.1:3000")).toContain("101");
+  });
+
+  it("accepts exactly the configured origins", async () => {
+    relay = await startMCPRelay({
+      port: 0,
+      origins: ["https://app.example"],
+      input: new PassThrough(),
+      output: new PassThrough(),
+      log: () => {},
+    });
+    expect(await upgradeStatus(relay.port, "https://app.example")).toContain("101");
+    expect(await upgradeStatus(relay.port, "http://localhost:5173")).toContain("403");
+  });
+
+  it("reconnects after the relay restarts", async () => {
+    installMockModelContext();
+    render(<Tools />);
+    const client = await startClient();
+    const port = client.relay.port;
+    const page = connect(client.url, { reconnectIntervalMs: 10 });
+    bridge = page.bridge;
+    await vi.waitFor(() => expect(page.statuses).toContain("open"));
+    await client.relay.close();
+    await vi.waitFor(() => expect(page.statuses).toContain("closed"));
+
+    const output = new PassThrough();
+    relay = await startMCPRelay({ port, input: new PassThrough(), output, log: () => {} });
+    await vi.waitFor(() => expect(page.statuses.filter((s) => s === "open")).toHaveLength(2));
+  });
+});
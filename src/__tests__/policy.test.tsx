@@ -0,0 +1,254 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import React from "react";
+import { render, cleanup } from "@testing-library/react";
+import { WebMCPProvider } from "../context";
+import { useWebMCPTool } from "../hooks/useWebMCPTool";
+import { useWebMCPContext } from "../hooks/useWebMCPContext";
+import { useRegisteredTools } from "../hooks/useRegisteredTools";
+import { WebMCPForm } from "../components/WebMCPForm";
+import { evaluatePolicy } from "../utils/policy";
+import type { ToolPolicy } from "../utils/policy";
+import {
+  installMockModelContext,
+  removeMockModelContext,
+  createToolConfig,
+} from "./helpers";
+
+const request = {
+  phase: "register" as const,
+  name: "t",
+  description: "d",
+  annotations: undefined,
+  owner: "useWebMCPTool",
+};
+
+describe("evaluatePolicy", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("allows everything without a policy", () => {
+    expect(evaluatePolicy(null, request)).toEqual({ allowed: true });
+  });
+
+  it("maps boolean and object decisions to verdicts", () => {
+    expect(evaluatePolicy({ policy: () => true, context: null }, request).allowed).toBe(true);
+    expect(evaluatePolicy({ policy: () => false, context: null }, request)).toEqual({
+      allowed: false,
+      reason: "the page's tool policy does not allow it.",
+    });
+    expect(
+      evaluatePolicy({ policy: () => ({ allow: false, reason: "Sign in first." }), context: null }, request),
+    ).toEqual({ allowed: false, reason: "Sign in first." });
+  });
+
+  it("passes the app context to the policy", () => {
+    const policy = vi.fn(() => true);
+    evaluatePolicy({ policy, context: { route: "/admin" } }, request);
+    expect(policy).toHaveBeenCalledWith({ ...request, context: { route: "/admin" } });
+  });
+
+  it("denies when the policy throws", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const verdict = evaluatePolicy(
+      {
+        policy: () => {
+          throw new Error("bug");
+        },
+        context: null,
+      },
+      request,
+    );
+    expect(verdict.allowed).toBe(false);
+  });
+});
+
+describe("WebMCPProvider policy", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+  });
+
+  const readOnlyWhenSignedOut: ToolPolicy<{ signedIn: boolean }> = ({ annotations, context }) =>
+    context.signedIn || annotations?.readOnlyHint === true
+      ? true
+      : { allow: false, reason: "Sign in to use this tool." };
+
+  function Tools() {
+    useWebMCPTool(createToolConfig({ name: "read", annotations: { readOnlyHint: true } }));
+    useWebMCPTool(createToolConfig({ name: "write" }));
+    return null;
+  }
+
+  it("hides denied tools at registration time", () => {
+    const mc = installMockModelContext();
+    let names: string[] = [];
+    function List() {
+      names = useRegisteredTools().map((t) => t.name);
+      return null;
+    }
+    render(
+      <WebMCPProvider policy={readOnlyWhenSignedOut} policyContext={{ signedIn: false }}>
+        <Tools />
+        <List />
+      </WebMCPProvider>,
+    );
+
+    expect(mc.registerTool.mock.calls.map(([t]) => t.name)).toEqual(["read"]);
+    expect(names).toEqual(["read"]);
+  });
+
+  it("re-evaluates registrations when the policy context changes", () => {
+    const mc = installMockModelContext();
+    const { rerender } = render(
+      <WebMCPProvider policy={readOnlyWhenSignedOut} policyContext={{ signedIn: false }}>
+        <Tools />
+      </WebMCPProvider>,
+    );
+    expect(mc.registerTool).toHaveBeenCalledTimes(1);
+
+    rerender(
+      <WebMCPProvider policy={readOnlyWhenSignedOut} policyContext={{ signedIn: true }}>
+        <Tools />
+      </WebMCPProvider>,
+    );
+    expect(mc.registerTool.mock.calls.map(([t]) => t.name)).toEqual(["read", "write"]);
+
+    rerender(
+      <WebMCPProvider policy={readOnlyWhenSignedOut} policyContext={{ signedIn: false }}>
+        <Tools />
+      </WebMCPProvider>,
+    );
+    expect(mc.unregisterTool).toHaveBeenCalledWith("write");
+    expect(mc.registerTool).toHaveBeenCalledTimes(2);
+  });
+
+  it("refuses calls the policy denies at call time, with its reason", async () => {
+    const mc = installMockModelContext();
+    const execute = vi.fn();
+    const policy: ToolPolicy = ({ phase, input }) =>
+      phase === "register" || input?.query !== "drop"
+        ? true
+        : { allow: false, reason: "Dropping is not allowed here." };
+    render(
+      <WebMCPProvider policy={policy}>
+        <Tool execute={execute} />
+      </WebMCPProvider>,
+    );
+
+    const call = mc.registerTool.mock.calls[0][0].execute;
+    expect(call({ query: "drop" })).toEqual({
+      content: [
+        { type: "text", text: 'Tool "test-tool" is not available: Dropping is not allowed here.' },
+        {
+          type: "json",
+          json: { allowed: false, tool: "test-tool", reason: "Dropping is not allowed here." },
+        },
+      ],
+      isError: true,
+    });
+    expect(execute).not.toHaveBeenCalled();
+
+    call({ query: "select" });
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  function Tool({ execute }: { execute: () => unknown }) {
+    useWebMCPTool(createToolConfig({ execute }));
+    return null;
+  }
+
+  it("applies the latest policy to calls without re-registering", () => {
+    const mc = installMockModelContext();
+    const execute = vi.fn();
+    const allowCalls = (allowed: boolean): ToolPolicy => ({ phase }) =>
+      phase === "register" || allowed;
+
+    const { rerender } = render(
+      <WebMCPProvider policy={allowCalls(true)}>
+        <Tool execute={execute} />
+      </WebMCPProvider>,
+    );
+    rerender(
+      <WebMCPProvider policy={allowCalls(false)}>
+        <Tool execute={execute} />
+      </WebMCPProvider>,
+    );
+
+    expect(mc.registerTool).toHaveBeenCalledTimes(1);
+    expect(mc.registerTool.mock.calls[0][0].execute({})).toMatchObject({ isError: true });
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it("reports the owner to the policy", () => {
+    installMockModelContext();
+    const policy = vi.fn(() => true);
+    function Context() {
+      useWebMCPContext({ tools: [createToolConfig({ name: "ctx" })], owner: "Cart" });
+      return null;
+    }
+    render(
+      <WebMCPProvider policy={policy}>
+        <Context />
+      </WebMCPProvider>,
+    );
+    expect(policy).toHaveBeenCalledWith(expect.objectContaining({ name: "ctx", owner: "Cart" }));
+  });
+
+  it("filters useWebMCPContext tools", () => {
+    const mc = installMockModelContext();
+    function Context() {
+      useWebMCPContext({
+        tools: [createToolConfig({ name: "a" }), createToolConfig({ name: "b" })],
+      });
+      return null;
+    }
+    render(
+      <WebMCPProvider policy={({ name }) => name !== "a"}>
+        <Context />
+      </WebMCPProvider>,
+    );
+
+    const tools = mc.registerTool.mock.calls.map(([tool]) => tool);
+    expect(tools.map((t: { name: string }) => t.name)).toEqual(["b"]);
+    // The remaining tool still calls its own handler.
+    expect(tools[0].execute({ query: "x" })).toEqual({ result: "x" });
+  });
+
+  it("renders denied WebMCPForms without WebMCP attributes", () => {
+    const { container } = render(
+      <WebMCPProvider policy={() => false}>
+        <WebMCPForm toolName="book" toolDescription="Book a table" toolAutoSubmit>
+          <input name="n" />
+        </WebMCPForm>
+      </WebMCPProvider>,
+    );
+    const form = container.querySelector("form")!;
+    expect(form.hasAttribute("toolname")).toBe(false);
+    expect(form.hasAttribute("tooldescription")).toBe(false);
+    expect(form.hasAttribute("toolautosubmit")).toBe(false);
+  });
+
+  it("answers denied agent submissions of a WebMCPForm with a refusal", () => {
+    const onSubmit = vi.fn();
+    const policy: ToolPolicy = ({ phase, input }) =>
+      phase === "register" || input?.party !== "99";
+    const { container } = render(
+      <WebMCPProvider policy={policy}>
+        <WebMCPForm toolName="book" toolDescription="Book a table" onSubmit={onSubmit}>
+          <input name="party" defaultValue="99" />
+        </WebMCPForm>
+      </WebMCPProvider>,
+    );
+
+    const event = Object.assign(new Event("submit", { bubbles: true, cancelable: true }), {
+      agentInvoked: true,
+      respondWith: vi.fn(),
+    });
+    container.querySelector("form")!.dispatchEvent(event);
+
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(event.defaultPrevented).toBe(true);
+    expect(event.respondWith).toHaveBeenCalledWith(expect.any(Promise));
+  });
+});
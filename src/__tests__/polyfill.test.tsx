@@ -0,0 +1,179 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import React from "react";
+import { render, cleanup } from "@testing-library/react";
+import { createModelContextPolyfill, installWebMCPPolyfill } from "../polyfill";
+import { useWebMCPTool } from "../hooks/useWebMCPTool";
+import { isWebMCPAvailable, isWebMCPTestingAvailable } from "../utils/modelContext";
+import {
+  createToolConfig,
+  installMockModelContext,
+  removeMockModelContext,
+  removeMockModelContextTesting,
+} from "./helpers";
+
+const flushMicrotasks = () => new Promise<void>((resolve) => queueMicrotask(resolve));
+
+describe("createModelContextPolyfill", () => {
+  it("registers tools and lists them with a stringified inputSchema", () => {
+    const { modelContext, modelContextTesting } = createModelContextPolyfill();
+    modelContext.registerTool({
+      name: "search",
+      description: "Search",
+      inputSchema: { type: "object", properties: { q: { type: "string" } } },
+      annotations: { readOnlyHint: true },
+      execute: () => null,
+    });
+
+    expect(modelContextTesting.listTools()).toEqual([
+      {
+        name: "search",
+        description: "Search",
+        inputSchema: '{"type":"object","properties":{"q":{"type":"string"}}}',
+        readOnlyHint: true,
+      },
+    ]);
+  });
+
+  it("throws InvalidStateError on empty names, descriptions and duplicates", () => {
+    const { modelContext } = createModelContextPolyfill();
+    const tool = createToolConfig();
+
+    const expectInvalidState = (fn: () => void) => {
+      try {
+        fn();
+        expect.unreachable();
+      } catch (err) {
+        expect(err).toBeInstanceOf(DOMException);
+        expect((err as DOMException).name).toBe("InvalidStateError");
+      }
+    };
+
+    expectInvalidState(() => modelContext.registerTool({ ...tool, name: "" }));
+    expectInvalidState(() => modelContext.registerTool({ ...tool, description: "" }));
+    modelContext.registerTool(tool);
+    expectInvalidState(() => modelContext.registerTool(tool));
+    expectInvalidState(() => modelContext.unregisterTool("missing"));
+  });
+
+  it("provideContext replaces and clearContext removes all tools", () => {
+    const { modelContext, modelContextTesting } = createModelContextPolyfill();
+    modelContext.registerTool(createToolConfig({ name: "a" }));
+    modelContext.provideContext({
+      tools: [createToolConfig({ name: "b" }), createToolConfig({ name: "c" })],
+    });
+    expect(modelContextTesting.listTools().map((t) => t.name)).toEqual(["b", "c"]);
+
+    modelContext.clearContext();
+    expect(modelContextTesting.listTools()).toEqual([]);
+  });
+
+  it("executes tools with JSON-encoded arguments and results", async () => {
+    const { modelContext, modelContextTesting } = createModelContextPolyfill();
+    const execute = vi.fn(async (input: Record<string, unknown>) => ({ echo: input.q }));
+    modelContext.registerTool(createToolConfig({ execute }));
+
+    await expect(
+      modelContextTesting.executeTool("test-tool", '{"q":"hi"}'),
+    ).resolves.toBe('{"echo":"hi"}');
+    expect(execute).toHaveBeenCalledWith({ q: "hi" }, { signal: expect.any(AbortSignal) });
+
+    await expect(modelContextTesting.executeTool("missing", "{}")).rejects.toMatchObject({
+      name: "NotFoundError",
+    });
+  });
+
+  it("coalesces tools-changed callbacks per microtask", async () => {
+    const { modelContext, modelContextTesting } = createModelContextPolyfill();
+    const callback = vi.fn();
+    modelContextTesting.registerToolsChangedCallback(callback);
+
+    modelContext.registerTool(createToolConfig({ name: "a" }));
+    modelContext.registerTool(createToolConfig({ name: "b" }));
+    modelContext.unregisterTool("a");
+    expect(callback).not.toHaveBeenCalled();
+
+    await flushMicrotasks();
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects getCrossDocumentScriptToolResult", async () => {
+    const { modelContextTesting } = createModelContextPolyfill();
+    await expect(modelContextTesting.getCrossDocumentScriptToolResult()).rejects.toMatchObject({
+      name: "InvalidStateError",
+    });
+  });
+});
+
+describe("installWebMCPPolyfill", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+    removeMockModelContextTesting();
+  });
+
+  it("installs onto navigator and uninstalls cleanly", () => {
+    const handle = installWebMCPPolyfill();
+    expect(handle.installed).toBe(true);
+    expect(isWebMCPAvailable()).toBe(true);
+    expect(isWebMCPTestingAvailable()).toBe(true);
+    expect(navigator.modelContext).toBe(handle.modelContext);
+
+    handle.uninstall();
+    expect(isWebMCPAvailable()).toBe(false);
+    expect(isWebMCPTestingAvailable()).toBe(false);
+  });
+
+  it("keeps an existing modelContext unless forced", () => {
+    const native = installMockModelContext();
+
+    const kept = installWebMCPPolyfill();
+    expect(kept.installed).toBe(false);
+    expect(navigator.modelContext).toBe(native);
+
+    const forced = installWebMCPPolyfill({ force: true });
+    expect(forced.installed).toBe(true);
+    expect(navigator.modelContext).not.toBe(native);
+
+    forced.uninstall();
+    expect(navigator.modelContext).toBe(native);
+  });
+
+  it("installs onto a custom target", () => {
+    const target: Record<string, unknown> = {};
+    const handle = installWebMCPPolyfill({ target });
+    expect(target.modelContext).toBe(handle.modelContext);
+    handle.uninstall();
+    expect("modelContext" in target).toBe(false);
+  });
+
+  it("drives hook-registered tools end to end", async () => {
+    const handle = installWebMCPPolyfill();
+
+    function Tools() {
+      useWebMCPTool(
+        createToolConfig({
+          name: "double",
+          inputSchema: {
+            type: "object",
+            properties: { n: { type: "number" } },
+            required: ["n"],
+          },
+          execute: ({ n }: Record<string, unknown>) => (n as number) * 2,
+        }),
+      );
+      return null;
+    }
+
+    const { unmount } = render(<Tools />);
+    const testing = handle.modelContextTesting!;
+    expect(testing.listTools().map((t) => t.name)).toEqual(["double"]);
+    await expect(testing.executeTool("double", '{"n":21}')).resolves.toBe("42");
+
+    const invalid = JSON.parse((await testing.executeTool("double", "{}"))!);
+    expect(invalid.isError).toBe(true);
+
+    unmount();
+    expect(testing.listTools()).toEqual([]);
+    handle.uninstall();
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import React from "react";
+import { render, cleanup } from "@testing-library/react";
+import { WebMCPProvider } from "../context";
+import { useWebMCPTool } from "../hooks/useWebMCPTool";
+import { createRateLimiter } from "../utils/rateLimiter";
+import { createMemoryAuditSink } from "../audit/sinks";
+import {
+  installMockModelContext,
+  removeMockModelContext,
+  createToolConfig,
+} from "./helpers";
+
+describe("createRateLimiter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("allows bursts and refills tokens over time", () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter();
+    const rate = { limit: 2, intervalMs: 1000 };
+
+    expect(limiter.take("t", rate)).toBeNull();
+    expect(limiter.take("t", rate)).toBeNull();
+    expect(limiter.take("t", rate)).toMatchObject({
+      isError: true,
+      content: [
+        { text: 'Tool "t" is rate limited: too many calls. Retry after 500 ms.' },
+        { json: { rateLimited: true, tool: "t", reason: "rate", retryAfterMs: 500 } },
+      ],
+    });
+
+    vi.advanceTimersByTime(500);
+    expect(limiter.take("t", rate)).toBeNull();
+    expect(limiter.take("t", rate)).not.toBeNull();
+  });
+
+  it("keeps separate buckets per tool", () => {
+    const limiter = createRateLimiter();
+    const rate = { limit: 1, intervalMs: 60_000 };
+    expect(limiter.take("a", rate)).toBeNull();
+    expect(limiter.take("b", rate)).toBeNull();
+    expect(limiter.take("a", rate)).not.toBeNull();
+  });
+
+  it("honours burst", () => {
+    const limiter = createRateLimiter();
+    const rate = { limit: 10, intervalMs: 60_000, burst: 1 };
+    expect(limiter.take("t", rate)).toBeNull();
+    expect(limiter.take("t", rate)).not.toBeNull();
+  });
+
+  it("enforces a session budget across tools", () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter();
+    const budget = { maxCalls: 2, windowMs: 10_000 };
+    expect(limiter.take("a", undefined, budget)).toBeNull();
+    expect(limiter.take("b", undefined, budget)).toBeNull();
+    expect(limiter.take("a", undefined, budget)).toMatchObject({
+      content: [{}, { json: { reason: "budget", retryAfterMs: 10_000 } }],
+    });
+
+    vi.advanceTimersByTime(10_000);
+    expect(limiter.take("a", undefined, budget)).toBeNull();
+  });
+
+  it("does not count rate-limited calls against the budget", () => {
+    const limiter = createRateLimiter();
+    const budget = { maxCalls: 2 };
+    const rate = { limit: 1, intervalMs: 60_000 };
+    expect(limiter.take("a", rate, budget)).toBeNull();
+    expect(limiter.take("a", rate, budget)).not.toBeNull();
+    expect(limiter.take("b", undefined, budget)).toBeNull();
+    expect(limiter.take("c", undefined, budget)).toMatchObject({
+      content: [
+        { text: `Tool "c" is rate limited: the session's call budget is used up.` },
+        { json: { retryAfterMs: null } },
+      ],
+    });
+  });
+});
+
+describe("concurrency and rate limits in execute", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+  });
+
+  function deferred() {
+    const resolvers: Array<(value: unknown) => void> = [];
+    const execute = vi.fn(
+      () => new Promise((resolve) => resolvers.push(resolve)),
+    );
+    return { execute, resolvers };
+  }
+
+  function setup(overrides: Record<string, unknown>) {
+    const mc = installMockModelContext();
+    function Tool() {
+      useWebMCPTool(createToolConfig(overrides));
+      return null;
+    }
+    render(<Tool />);
+    return mc.registerTool.mock.calls[0][0].execute as (input: object) => unknown;
+  }
+
+  it("queues calls over maxConcurrent by default", async () => {
+    const { execute, resolvers } = deferred();
+    const call = setup({ execute, maxConcurrent: 1 });
+
+    const first = call({});
+    const second = call({});
+    expect(execute).toHaveBeenCalledTimes(1);
+
+    resolvers[0]("one");
+    await expect(first).resolves.toBe("one");
+    await vi.waitFor(() => expect(execute).toHaveBeenCalledTimes(2));
+    resolvers[1]("two");
+    await expect(second).resolves.toBe("two");
+  });
+
+  it("rejects calls over maxConcurrent in reject mode", async () => {
+    const { execute, resolvers } = deferred();
+    const call = setup({ execute, maxConcurrent: 1, concurrencyMode: "reject" });
+
+    const first = call({});
+    expect(call({})).toMatchObject({
+      isError: true,
+      content: [{}, { json: { rateLimited: true, reason: "concurrency", retryAfterMs: null } }],
+    });
+    expect(execute).toHaveBeenCalledTimes(1);
+
+    resolvers[0]("done");
+    await first;
+    call({});
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it("frees the slot when a call fails or times out", async () => {
+    vi.useFakeTimers();
+    let attempt = 0;
+    const execute = vi.fn(() => {
+      attempt++;
+      if (attempt === 1) throw new Error("boom");
+      if (attempt === 2) return new Promise(() => {});
+      return "ok";
+    });
+    const call = setup({ execute, maxConcurrent: 1, concurrencyMode: "reject", timeoutMs: 100 });
+
+    expect(() => call({})).toThrow("boom");
+    const hanging = call({});
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(hanging).resolves.toMatchObject({ content: [{}, { json: { reason: "timeout" } }] });
+    expect(call({})).toBe("ok");
+    vi.useRealTimers();
+  });
+
+  it("answers calls over the rate limit without running the handler", () => {
+    const execute = vi.fn(() => "ok");
+    const call = setup({ execute, rateLimit: { limit: 1, intervalMs: 60_000 } });
+
+    expect(call({})).toBe("ok");
+    expect(call({})).toMatchObject({ isError: true, content: [{}, { json: { reason: "rate" } }] });
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps rate limits across re-registration inside a provider", () => {
+    const mc = installMockModelContext();
+    function Tool({ description }: { description: string }) {
+      useWebMCPTool(
+        createToolConfig({ description, rateLimit: { limit: 1, intervalMs: 60_000 } }),
+      );
+      return null;
+    }
+    const { rerender } = render(
+      <WebMCPProvider>
+        <Tool description="v1" />
+      </WebMCPProvider>,
+    );
+    mc.registerTool.mock.calls[0][0].execute({});
+
+    rerender(
+      <WebMCPProvider>
+        <Tool description="v2" />
+      </WebMCPProvider>,
+    );
+    expect(mc.registerTool.mock.calls[1][0].execute({})).toMatchObject({ isError: true });
+  });
+
+  it("applies the provider budget and audits rate-limited calls", () => {
+    const mc = installMockModelContext();
+    const memory = createMemoryAuditSink();
+    function Tools() {
+      useWebMCPTool(createToolConfig({ name: "a" }));
+      useWebMCPTool(createToolConfig({ name: "b" }));
+      return null;
+    }
+    render(
+      <WebMCPProvider budget={{ maxCalls: 1 }} audit={{ sinks: [memory] }}>
+        <Tools />
+      </WebMCPProvider>,
+    );
+
+    const [[a], [b]] = mc.registerTool.mock.calls;
+    expect(a.execute({ query: "x" })).toEqual({ result: "x" });
+    expect(b.execute({ query: "y" })).toMatchObject({ isError: true });
+    expect(memory.getEvents().map((e) => e.outcome)).toEqual(["success", "rate-limited"]);
+  });
+});
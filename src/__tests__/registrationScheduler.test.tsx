@@ -0,0 +1,198 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import React from "react";
+import { render, cleanup } from "@testing-library/react";
+import { WebMCPProvider } from "../context";
+import { useWebMCPTool } from "../hooks/useWebMCPTool";
+import { useWebMCPContext } from "../hooks/useWebMCPContext";
+import { createRegistrationScheduler } from "../utils/registrationScheduler";
+import {
+  installMockModelContext,
+  removeMockModelContext,
+  createToolConfig,
+} from "./helpers";
+
+const flushMicrotasks = () => new Promise<void>((resolve) => queueMicrotask(resolve));
+
+function Tool({ name, description = "A test tool", execute }: {
+  name: string;
+  description?: string;
+  execute?: (input: Record<string, unknown>) => unknown;
+}) {
+  useWebMCPTool(createToolConfig({ name, description, ...(execute ? { execute } : {}) }));
+  return null;
+}
+
+function names(calls: unknown[][]) {
+  return calls.map(([arg]) => (typeof arg === "string" ? arg : (arg as { name: string }).name));
+}
+
+describe("createRegistrationScheduler", () => {
+  afterEach(() => {
+    removeMockModelContext();
+  });
+
+  it("applies only the net change per name", async () => {
+    const mc = installMockModelContext();
+    const scheduler = createRegistrationScheduler(() => "microtask");
+    const tool = (name: string, description = "d") => ({ name, description, execute: () => name });
+
+    const removeA = scheduler.register(tool("a"));
+    removeA();
+    scheduler.register(tool("b"));
+    const removeC = scheduler.register(tool("c"));
+    expect(mc.registerTool).not.toHaveBeenCalled();
+
+    await flushMicrotasks();
+    expect(names(mc.registerTool.mock.calls)).toEqual(["b", "c"]);
+
+    // Changed metadata: unregister and register again.
+    removeC();
+    scheduler.register(tool("c", "changed"));
+    await flushMicrotasks();
+    expect(names(mc.unregisterTool.mock.calls)).toEqual(["c"]);
+    expect(mc.registerTool.mock.calls[2][0].description).toBe("changed");
+  });
+
+  it("swaps the handler without touching the browser when only execute changes", async () => {
+    const mc = installMockModelContext();
+    const scheduler = createRegistrationScheduler(() => "microtask");
+    const remove = scheduler.register({ name: "a", description: "d", execute: () => "old" });
+    await flushMicrotasks();
+    const registered = mc.registerTool.mock.calls[0][0];
+
+    remove();
+    const removeNew = scheduler.register({ name: "a", description: "d", execute: () => "new" });
+    await flushMicrotasks();
+    expect(mc.registerTool).toHaveBeenCalledTimes(1);
+    expect(mc.unregisterTool).not.toHaveBeenCalled();
+    expect(registered.execute({})).toBe("new");
+
+    removeNew();
+    await flushMicrotasks();
+    expect(mc.unregisterTool).toHaveBeenCalledWith("a");
+    expect(registered.execute({})).toMatchObject({ isError: true });
+  });
+
+  it("reports duplicate names and failed registrations at the flush", async () => {
+    const mc = installMockModelContext();
+    mc.registerTool.mockImplementationOnce(() => {
+      throw new TypeError("bad schema");
+    });
+    const scheduler = createRegistrationScheduler(() => "microtask");
+    const onFailed = vi.fn();
+    const onDuplicate = vi.fn();
+    scheduler.register({ name: "a", description: "d", execute: () => 1 }, onFailed);
+    scheduler.register({ name: "a", description: "d", execute: () => 2 }, onDuplicate);
+    expect(onDuplicate).not.toHaveBeenCalled();
+
+    await flushMicrotasks();
+    expect(onDuplicate).toHaveBeenCalledWith(expect.objectContaining({ name: "InvalidStateError" }));
+    expect(onFailed).toHaveBeenCalledWith(expect.any(TypeError));
+  });
+
+  it("waits for a frame in frame mode", async () => {
+    const mc = installMockModelContext();
+    const frames: FrameRequestCallback[] = [];
+    vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) => frames.push(callback));
+    const scheduler = createRegistrationScheduler(() => "frame");
+    scheduler.register({ name: "a", description: "d", execute: () => 1 });
+
+    await flushMicrotasks();
+    expect(mc.registerTool).not.toHaveBeenCalled();
+    frames[0](0);
+    expect(mc.registerTool).toHaveBeenCalledTimes(1);
+    vi.unstubAllGlobals();
+  });
+});
+
+describe("WebMCPProvider registrationBatching", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+  });
+
+  it("coalesces a render burst into net registrations", async () => {
+    const mc = installMockModelContext();
+    const { rerender } = render(
+      <WebMCPProvider registrationBatching="microtask">
+        <Tool name="a" />
+        <Tool name="b" />
+      </WebMCPProvider>,
+    );
+    rerender(
+      <WebMCPProvider registrationBatching="microtask">
+        <Tool name="a" description="A, updated" />
+        <Tool name="c" />
+      </WebMCPProvider>,
+    );
+    expect(mc.registerTool).not.toHaveBeenCalled();
+
+    await flushMicrotasks();
+    expect(mc.registerTool.mock.calls.map(([tool]) => [tool.name, tool.description])).toEqual([
+      ["a", "A, updated"],
+      ["c", "A test tool"],
+    ]);
+    expect(mc.unregisterTool).not.toHaveBeenCalled();
+  });
+
+  it("keeps a remounted tool registered and calls its new handler", async () => {
+    const mc = installMockModelContext();
+    const first = vi.fn(() => "first");
+    const second = vi.fn(() => "second");
+    const { rerender } = render(
+      <WebMCPProvider registrationBatching="microtask">
+        <Tool key="1" name="a" execute={first} />
+      </WebMCPProvider>,
+    );
+    await flushMicrotasks();
+    const registered = mc.registerTool.mock.calls[0][0];
+
+    rerender(
+      <WebMCPProvider registrationBatching="microtask">
+        <Tool key="2" name="a" execute={second} />
+      </WebMCPProvider>,
+    );
+    await flushMicrotasks();
+    expect(mc.registerTool).toHaveBeenCalledTimes(1);
+    expect(mc.unregisterTool).not.toHaveBeenCalled();
+    expect(registered.execute({ query: "x" })).toBe("second");
+    expect(first).not.toHaveBeenCalled();
+  });
+
+  it("batches useWebMCPContext tools and unregisters them on unmount", async () => {
+    const mc = installMockModelContext();
+    function Tools() {
+      useWebMCPContext({
+        tools: [createToolConfig({ name: "x" }), createToolConfig({ name: "y" })],
+      });
+      return null;
+    }
+    const { unmount } = render(
+      <WebMCPProvider registrationBatching="microtask">
+        <Tools />
+        <Tool name="z" />
+      </WebMCPProvider>,
+    );
+    await flushMicrotasks();
+    expect(names(mc.registerTool.mock.calls)).toEqual(["x", "y", "z"]);
+
+    unmount();
+    expect(mc.unregisterTool).not.toHaveBeenCalled();
+    await flushMicrotasks();
+    expect(names(mc.unregisterTool.mock.calls).sort()).toEqual(["x", "y", "z"]);
+  });
+
+  it("warns about a duplicate name once the batch is applied", async () => {
+    installMockModelContext();
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    render(
+      <WebMCPProvider registrationBatching="microtask">
+        <Tool name="a" />
+        <Tool name="a" />
+      </WebMCPProvider>,
+    );
+    await flushMicrotasks();
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('"a" is already registered'));
+    warnSpy.mockRestore();
+  });
+});
@@ -0,0 +1,263 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import React from "react";
+import { render, cleanup, act } from "@testing-library/react";
+import { useWebMCPTool } from "../hooks/useWebMCPTool";
+import { useToolConfirmation } from "../hooks/useToolConfirmation";
+import { WebMCPProvider } from "../context";
+import { canonicalInputKey, invalidateToolCache } from "../utils/resultCache";
+import {
+  installMockModelContext,
+  removeMockModelContext,
+  createToolConfig,
+} from "./helpers";
+
+describe("canonicalInputKey", () => {
+  it("ignores object key order at every depth", () => {
+    expect(canonicalInputKey({ a: 1, b: { c: 2, d: [{ e: 3, f: 4 }] } })).toBe(
+      canonicalInputKey({ b: { d: [{ f: 4, e: 3 }], c: 2 }, a: 1 }),
+    );
+  });
+
+  it("keeps array order", () => {
+    expect(canonicalInputKey({ a: [1, 2] })).not.toBe(canonicalInputKey({ a: [2, 1] }));
+  });
+});
+
+describe("result cache", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+    invalidateToolCache();
+    vi.useRealTimers();
+  });
+
+  function setup(overrides: Record<string, unknown>) {
+    const mc = installMockModelContext();
+    function Tool() {
+      useWebMCPTool(createToolConfig(overrides));
+      return null;
+    }
+    render(<Tool />);
+    return mc.registerTool.mock.calls[0][0].execute as (input: object) => unknown;
+  }
+
+  it("reuses results of cache tools for identical input", () => {
+    const execute = vi.fn(({ query }) => ({ result: query }));
+    const call = setup({ execute, annotations: { cache: true } });
+
+    const first = call({ query: "a" });
+    expect(call({ query: "a" })).toBe(first);
+    expect(call({ query: "b" })).toEqual({ result: "b" });
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not cache tools without the annotation", () => {
+    const execute = vi.fn(() => "ok");
+    const call = setup({ execute });
+    call({ query: "a" });
+    call({ query: "a" });
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it("expires entries after cacheTtlMs", () => {
+    vi.useFakeTimers();
+    const execute = vi.fn(() => "ok");
+    const call = setup({ execute, annotations: { cache: true }, cacheTtlMs: 1000 });
+
+    call({ query: "a" });
+    vi.advanceTimersByTime(999);
+    call({ query: "a" });
+    expect(execute).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(1);
+    call({ query: "a" });
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it("never caches errors", async () => {
+    const execute = vi
+      .fn()
+      .mockReturnValueOnce({ content: [{ type: "text", text: "no" }], isError: true })
+      .mockImplementationOnce(() => {
+        throw new Error("boom");
+      })
+      .mockRejectedValueOnce(new Error("async boom"))
+      .mockReturnValue("ok");
+    const call = setup({ execute, annotations: { cache: true } });
+
+    expect(call({ query: "a" })).toMatchObject({ isError: true });
+    expect(() => call({ query: "a" })).toThrow("boom");
+    await expect(call({ query: "a" })).rejects.toThrow("async boom");
+    expect(call({ query: "a" })).toBe("ok");
+    expect(call({ query: "a" })).toBe("ok");
+    expect(execute).toHaveBeenCalledTimes(4);
+  });
+
+  it("shares identical in-flight calls of idempotent tools without caching", async () => {
+    const resolvers: Array<(value: unknown) => void> = [];
+    const execute = vi.fn(() => new Promise((resolve) => resolvers.push(resolve)));
+    const call = setup({ execute, annotations: { idempotentHint: true } });
+
+    const first = call({ query: "a" });
+    const second = call({ query: "a" });
+    expect(execute).toHaveBeenCalledTimes(1);
+    resolvers[0]("done");
+    await expect(first).resolves.toBe("done");
+    await expect(second).resolves.toBe("done");
+
+    call({ query: "a" });
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it("invalidates by tool and by input", () => {
+    const execute = vi.fn(({ query }) => query);
+    const call = setup({ execute, annotations: { cache: true } });
+
+    call({ query: "a" });
+    call({ query: "b" });
+    invalidateToolCache("test-tool", { query: "a" });
+    call({ query: "a" });
+    call({ query: "b" });
+    expect(execute).toHaveBeenCalledTimes(3);
+
+    invalidateToolCache("test-tool");
+    call({ query: "a" });
+    call({ query: "b" });
+    expect(execute).toHaveBeenCalledTimes(5);
+  });
+
+  it("does not store a result whose entry was invalidated in flight", async () => {
+    let resolve!: (value: unknown) => void;
+    const execute = vi
+      .fn()
+      .mockImplementationOnce(() => new Promise((r) => (resolve = r)))
+      .mockReturnValue("fresh");
+    const call = setup({ execute, annotations: { cache: true } });
+
+    const stale = call({ query: "a" });
+    invalidateToolCache("test-tool");
+    resolve("stale");
+    await stale;
+    expect(call({ query: "a" })).toBe("fresh");
+  });
+
+  it("keeps a cache per registration and drops it on unregister", () => {
+    const mc = installMockModelContext();
+    const execute = vi.fn(({ query }) => ({ result: query }));
+    function Tool() {
+      useWebMCPTool(createToolConfig({ execute, annotations: { cache: true } }));
+      return null;
+    }
+    const { unmount } = render(<Tool />);
+    const first = mc.registerTool.mock.calls[0][0].execute;
+    first({ query: "a" });
+    unmount();
+
+    render(<Tool />);
+    const second = mc.registerTool.mock.calls[1][0].execute;
+    second({ query: "a" });
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it("counts cache hits against the rate limit", () => {
+    const execute = vi.fn(() => "ok");
+    const call = setup({
+      execute,
+      annotations: { cache: true },
+      rateLimit: { limit: 1, intervalMs: 60_000 },
+    });
+    expect(call({ query: "a" })).toBe("ok");
+    expect(call({ query: "a" })).toMatchObject({ isError: true });
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels shared in-flight callers separately", async () => {
+    vi.useFakeTimers();
+    let signal!: AbortSignal;
+    let resolve!: (value: unknown) => void;
+    const execute = vi.fn((_input: unknown, context: { signal: AbortSignal }) => {
+      signal = context.signal;
+      return new Promise((r) => (resolve = r));
+    });
+    const mc = installMockModelContext();
+    function Tool({ timeoutMs }: { timeoutMs: number }) {
+      useWebMCPTool(
+        createToolConfig({ execute, timeoutMs, annotations: { idempotentHint: true } }),
+      );
+      return null;
+    }
+    const { rerender } = render(<Tool timeoutMs={100} />);
+    const call = mc.registerTool.mock.calls[0][0].execute;
+    const first = call({ query: "a" }) as Promise<unknown>;
+    vi.advanceTimersByTime(50);
+    rerender(<Tool timeoutMs={1000} />);
+    const second = call({ query: "a" }) as Promise<unknown>;
+    expect(execute).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(50);
+    await expect(first).resolves.toMatchObject({ isError: true });
+    expect(signal.aborted).toBe(false);
+    resolve("done");
+    await expect(second).resolves.toBe("done");
+  });
+
+  it("aborts a shared run once every caller is cancelled", async () => {
+    vi.useFakeTimers();
+    let signal!: AbortSignal;
+    const execute = vi.fn((_input: unknown, context: { signal: AbortSignal }) => {
+      signal = context.signal;
+      return new Promise(() => {});
+    });
+    const call = setup({ execute, timeoutMs: 100, annotations: { idempotentHint: true } });
+    const first = call({ query: "a" }) as Promise<unknown>;
+    const second = call({ query: "a" }) as Promise<unknown>;
+    vi.advanceTimersByTime(100);
+    await expect(first).resolves.toMatchObject({ isError: true });
+    await expect(second).resolves.toMatchObject({ isError: true });
+    expect(signal.aborted).toBe(true);
+
+    // The abandoned run is no longer shared.
+    call({ query: "a" });
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it("validates input before consulting the cache", () => {
+    const execute = vi.fn(() => "ok");
+    const call = setup({ execute, annotations: { cache: true } });
+    expect(call({ query: 5 })).toMatchObject({ isError: true });
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it("asks for confirmation on every call instead of caching", async () => {
+    const mc = installMockModelContext();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const execute = vi.fn(({ query }) => ({ result: query }));
+    let confirmation!: ReturnType<typeof useToolConfirmation>;
+    function Tool() {
+      useWebMCPTool(
+        createToolConfig({ execute, annotations: { cache: true, destructiveHint: true } }),
+      );
+      confirmation = useToolConfirmation();
+      return null;
+    }
+    render(
+      <WebMCPProvider>
+        <Tool />
+      </WebMCPProvider>,
+    );
+    const call = mc.registerTool.mock.calls[0][0].execute as (input: object) => unknown;
+
+    for (let i = 0; i < 2; i++) {
+      let result!: unknown;
+      act(() => {
+        result = call({ query: "a" });
+      });
+      expect(confirmation.pending).toHaveLength(1);
+      act(() => confirmation.current!.approve());
+      await expect(result).resolves.toEqual({ result: "a" });
+    }
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("its results are not cached"));
+    warn.mockRestore();
+  });
+});
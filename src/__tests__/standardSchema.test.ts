@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  isStandardSchema,
+  standardSchemaToJSONSchema,
+  resolveInputSchema,
+  fromStandardIssues,
+} from "../utils/standardSchema";
+import { createStandardSchema } from "./helpers";
+
+describe("isStandardSchema", () => {
+  it("detects objects with a ~standard.validate function", () => {
+    expect(isStandardSchema(createStandardSchema((v) => ({ value: v })))).toBe(true);
+    expect(isStandardSchema({ type: "object" })).toBe(false);
+    expect(isStandardSchema({ "~standard": {} })).toBe(false);
+    expect(isStandardSchema(null)).toBe(false);
+  });
+});
+
+describe("standardSchemaToJSONSchema", () => {
+  it("converts the validator's JSON Schema into the supported subset", () => {
+    const validator = createStandardSchema((v) => ({ value: v }), {
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        q: { type: "string", minLength: 1, description: "Query" },
+        n: { type: "integer", minimum: 1, maximum: 5, default: 2 },
+        cabin: { type: "string", enum: ["economy", "business"] },
+        seat: { anyOf: [{ type: "string", const: "aisle" }, { type: "string", const: "window" }] },
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["q"],
+    });
+
+    expect(standardSchemaToJSONSchema(validator)).toEqual({
+      type: "object",
+      properties: {
+        q: { type: "string", minLength: 1, description: "Query" },
+        n: { type: "integer", minimum: 1, maximum: 5, default: 2 },
+        cabin: { type: "string", enum: ["economy", "business"] },
+        seat: { type: "string", oneOf: [{ const: "aisle" }, { const: "window" }] },
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["q"],
+    });
+    expect(validator["~standard"].jsonSchema!.input).toHaveBeenCalledWith({
+      target: "draft-2020-12",
+    });
+  });
+
+  it("caches the conversion per validator", () => {
+    const validator = createStandardSchema((v) => ({ value: v }), { type: "object" });
+    const first = standardSchemaToJSONSchema(validator);
+    expect(standardSchemaToJSONSchema(validator)).toBe(first);
+    expect(validator["~standard"].jsonSchema!.input).toHaveBeenCalledTimes(1);
+  });
+
+  it("throws in dev for constructs it cannot express", () => {
+    const validator = createStandardSchema((v) => ({ value: v }), {
+      type: "object",
+      properties: {
+        a: { type: ["string", "null"] },
+        b: { type: "number", exclusiveMinimum: 0 },
+        c: { anyOf: [{ type: "string" }, { type: "number" }] },
+      },
+    });
+
+    expect(() => standardSchemaToJSONSchema(validator, "book")).toThrow(
+      /Tool "book".*cannot be expressed[\s\S]*- a: type \["string","null"\][\s\S]*- b: "exclusiveMinimum"[\s\S]*- c: "anyOf" with non-literal members/,
+    );
+  });
+
+  it("throws when the validator has no JSON Schema converter", () => {
+    const validator = createStandardSchema((v) => ({ value: v }));
+    expect(() => standardSchemaToJSONSchema(validator)).toThrow(
+      /does not implement Standard JSON Schema/,
+    );
+  });
+});
+
+describe("resolveInputSchema", () => {
+  it("passes plain JSON schemas through", () => {
+    const schema = { type: "object" as const, properties: {} };
+    expect(resolveInputSchema(schema)).toBe(schema);
+  });
+});
+
+describe("fromStandardIssues", () => {
+  it("joins paths and prefixes messages", () => {
+    expect(
+      fromStandardIssues([
+        { message: "Required", path: ["contact", { key: "email" }] },
+        { message: "Too short", path: ["tags", 1] },
+        { message: "Bad input" },
+      ]),
+    ).toEqual([
+      { path: "contact.email", message: "contact.email: Required" },
+      { path: "tags[1]", message: "tags[1]: Too short" },
+      { path: "", message: "Bad input" },
+    ]);
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, afterEach, beforeAll, vi } from "vitest";
+import React from "react";
+import { render, cleanup } from "@testing-library/react";
+import { useWebMCPTool } from "../hooks/useWebMCPTool";
+import { createTabCoordinator, getTabCoordinator, tabId } from "../utils/tabCoordinator";
+import type { TabCoordinator } from "../utils/tabCoordinator";
+import {
+  installMockModelContext,
+  removeMockModelContext,
+  createToolConfig,
+} from "./helpers";
+
+/**
+ * An in-memory `LockManager` granting each lock name to one holder at a
+ * time, in request order. Shared by the test's "tabs".
+ */
+function createLockManager() {
+  const held = new Set<string>();
+  const queues = new Map<string, Array<() => void>>();
+
+  const release = (name: string) => {
+    const next = queues.get(name)?.shift();
+    if (next) next();
+    else held.delete(name);
+  };
+
+  return {
+    request(
+      name: string,
+      options: { signal?: AbortSignal },
+      callback: (lock: unknown) => unknown,
+    ): Promise<unknown> {
+      return new Promise((resolve, reject) => {
+        const run = () => {
+          Promise.resolve(callback({ name, mode: "exclusive" }))
+            .then(resolve, reject)
+            .finally(() => release(name));
+        };
+        if (!held.has(name)) {
+          held.add(name);
+          queueMicrotask(run);
+          return;
+        }
+        const queue = queues.get(name) ?? [];
+        queues.set(name, queue);
+        queue.push(run);
+        options.signal?.addEventListener("abort", () => {
+          const index = queue.indexOf(run);
+          if (index === -1) return;
+          queue.splice(index, 1);
+          reject(new DOMException("The lock request was aborted.", "AbortError"));
+        });
+      });
+    },
+  };
+}
+
+const locks = createLockManager();
+
+/** Another tab: its own coordinator and channel, sharing the locks. */
+function openOtherTab(): { coordinator: TabCoordinator; close: () => void } {
+  const channel = new BroadcastChannel("react-webmcp:tabs");
+  return {
+    coordinator: createTabCoordinator({ locks: locks as unknown as LockManager, channel }),
+    close: () => channel.close(),
+  };
+}
+
+function registeredExecute(mc: ReturnType<typeof installMockModelContext>) {
+  const calls = mc.registerTool.mock.calls;
+  return calls[calls.length - 1][0].execute as (input: object) => unknown;
+}
+
+function LeaderTool({ execute }: { execute: (input: Record<string, unknown>) => unknown }) {
+  useWebMCPTool(createToolConfig({ tabMode: "leader", tabGroup: "search", execute }));
+  return null;
+}
+
+function ScopedTool() {
+  useWebMCPTool(createToolConfig({ tabMode: "scoped" }));
+  return null;
+}
+
+function TimedTool() {
+  useWebMCPTool(createToolConfig({ tabMode: "leader", tabGroup: "search", timeoutMs: 50 }));
+  return null;
+}
+
+afterEach(() => {
+  cleanup();
+  removeMockModelContext();
+  vi.restoreAllMocks();
+});
+
+describe("tabMode without BroadcastChannel or Web Locks", () => {
+  it("warns and registers the tool for this tab only", async () => {
+    const mc = installMockModelContext();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const execute = vi.fn(() => "local");
+    render(<LeaderTool execute={execute} />);
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('uses tabMode "leader"'));
+    expect(await registeredExecute(mc)({ query: "a" })).toBe("local");
+  });
+});
+
+describe("tab coordination", () => {
+  beforeAll(() => {
+    Object.defineProperty(window.navigator, "locks", { value: locks, configurable: true });
+  });
+
+  it("registers tab-scoped tools under a per-tab name", () => {
+    const mc = installMockModelContext();
+    const { unmount } = render(<ScopedTool />);
+    expect(mc.registerTool).toHaveBeenCalledWith(
+      expect.objectContaining({ name: `test-tool_${tabId}` }),
+    );
+    unmount();
+    expect(mc.unregisterTool).toHaveBeenCalledWith(`test-tool_${tabId}`);
+  });
+
+  it("proxies calls to the leading tab and takes over when it leaves", async () => {
+    const mc = installMockModelContext();
+    const other = openOtherTab();
+    const remote = vi.fn((input: Record<string, unknown>) => `remote:${input.query}`);
+    const leave = other.coordinator.join("search", "test-tool", remote);
+    await vi.waitFor(() => expect(other.coordinator.isLeader("search")).toBe(true));
+
+    const local = vi.fn((input: Record<string, unknown>) => `local:${input.query}`);
+    render(<LeaderTool execute={local} />);
+    await expect(registeredExecute(mc)({ query: "a" })).resolves.toBe("remote:a");
+    expect(remote).toHaveBeenCalledWith({ query: "a" }, expect.anything());
+    expect(local).not.toHaveBeenCalled();
+
+    leave();
+    await vi.waitFor(() => expect(getTabCoordinator()!.isLeader("search")).toBe(true));
+    expect(await registeredExecute(mc)({ query: "b" })).toBe("local:b");
+    other.close();
+  });
+
+  it("serves the other tabs while leading", async () => {
+    installMockModelContext();
+    const local = vi.fn(() => ({ content: [{ type: "text", text: "from leader" }] }));
+    render(<LeaderTool execute={local} />);
+    const other = openOtherTab();
+    const leave = other.coordinator.join("search", "test-tool", () => "unused");
+
+    await expect(other.coordinator.call("search", "test-tool", { query: "x" })).resolves.toEqual({
+      content: [{ type: "text", text: "from leader" }],
+    });
+    expect(local).toHaveBeenCalledWith({ query: "x" }, expect.anything());
+    // Invalid input is answered by the leader's validation.
+    await expect(
+      other.coordinator.call("search", "test-tool", { query: 5 }),
+    ).resolves.toMatchObject({ isError: true });
+    leave();
+    other.close();
+  });
+
+  it("forwards cancellation to the leading tab", async () => {
+    const mc = installMockModelContext();
+    const other = openOtherTab();
+    const slow = (_input: unknown, call?: { signal?: AbortSignal }) =>
+      new Promise((resolve) => {
+        call?.signal?.addEventListener("abort", () => resolve("stopped"));
+      });
+    const leave = other.coordinator.join("search", "test-tool", slow);
+    await vi.waitFor(() => expect(other.coordinator.isLeader("search")).toBe(true));
+    render(<LeaderTool execute={() => "local"} />);
+
+    const call = registeredExecute(mc)({ query: "a" });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    window.dispatchEvent(new CustomEvent("toolcancel", { detail: { toolName: "test-tool" } }));
+    await expect(call).resolves.toBe("stopped");
+    leave();
+    other.close();
+  });
+
+  it("cancels only the call whose signal aborts", async () => {
+    const other = openOtherTab();
+    const signals: AbortSignal[] = [];
+    const leave = other.coordinator.join("calls", "test-tool", (_input, call) => {
+      signals.push(call!.signal!);
+      return new Promise(() => {});
+    });
+    await vi.waitFor(() => expect(other.coordinator.isLeader("calls")).toBe(true));
+    const coordinator = getTabCoordinator()!;
+    const leaveHere = coordinator.join("calls", "test-tool", () => "unused");
+
+    const controller = new AbortController();
+    void coordinator.call("calls", "test-tool", { query: "a" }, 1000, controller.signal);
+    void coordinator.call("calls", "test-tool", { query: "b" }, 1000);
+    await vi.waitFor(() => expect(signals).toHaveLength(2));
+    controller.abort();
+    await vi.waitFor(() => expect(signals[0].aborted).toBe(true));
+    expect(signals[1].aborted).toBe(false);
+    leaveHere();
+    leave();
+    other.close();
+  });
+
+  it("waits for the election instead of forwarding to no leader", async () => {
+    const other = openOtherTab();
+    const leave = other.coordinator.join("solo", "test-tool", () => "elected here");
+    await expect(
+      other.coordinator.call("solo", "test-tool", { query: "a" }, 1000),
+    ).resolves.toBe("elected here");
+    leave();
+    other.close();
+  });
+
+  it("answers with an error when the leading tab does not reply in time", async () => {
+    const mc = installMockModelContext();
+    const other = openOtherTab();
+    const leave = other.coordinator.join("search", "test-tool", () => new Promise(() => {}));
+    await vi.waitFor(() => expect(other.coordinator.isLeader("search")).toBe(true));
+    render(<TimedTool />);
+
+    const result = await registeredExecute(mc)({ query: "a" });
+    expect(result).toMatchObject({ isError: true });
+    expect(JSON.stringify(result)).toContain("did not answer from the leading tab within 50 ms");
+    leave();
+    other.close();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import {
+  textResult,
+  jsonResult,
+  errorResult,
+  isToolResult,
+  normalizeToolResult,
+} from "../utils/toolResult";
+
+describe("result helpers", () => {
+  it("textResult wraps a string in a text block", () => {
+    expect(textResult("hi")).toEqual({ content: [{ type: "text", text: "hi" }] });
+  });
+
+  it("jsonResult wraps a value in a JSON block", () => {
+    expect(jsonResult({ a: 1 })).toEqual({
+      content: [{ type: "json", json: { a: 1 } }],
+    });
+  });
+
+  it("errorResult accepts strings, Errors and arbitrary values", () => {
+    expect(errorResult("nope")).toEqual({
+      content: [{ type: "text", text: "nope" }],
+      isError: true,
+    });
+    expect(errorResult(new TypeError("bad")).content[0]).toEqual({
+      type: "text",
+      text: "bad",
+    });
+    expect(errorResult({ code: 42 }).content[0]).toEqual({
+      type: "text",
+      text: '{"code":42}',
+    });
+  });
+
+  it("isToolResult detects the envelope shape", () => {
+    expect(isToolResult({ content: [] })).toBe(true);
+    expect(isToolResult({ content: "x" })).toBe(false);
+    expect(isToolResult(null)).toBe(false);
+  });
+});
+
+describe("normalizeToolResult", () => {
+  it("passes ToolResult values through unchanged", () => {
+    const result = { content: [{ type: "text" as const, text: "x" }], isError: false };
+    expect(normalizeToolResult(result)).toBe(result);
+  });
+
+  it("maps undefined and null to empty content", () => {
+    expect(normalizeToolResult(undefined)).toEqual({ content: [] });
+    expect(normalizeToolResult(null)).toEqual({ content: [] });
+  });
+
+  it("maps primitives to text", () => {
+    expect(normalizeToolResult("done")).toEqual(textResult("done"));
+    expect(normalizeToolResult(3)).toEqual(textResult("3"));
+    expect(normalizeToolResult(false)).toEqual(textResult("false"));
+  });
+
+  it("maps objects and arrays to JSON", () => {
+    expect(normalizeToolResult({ id: 1 })).toEqual(jsonResult({ id: 1 }));
+    expect(normalizeToolResult([1, 2])).toEqual(jsonResult([1, 2]));
+  });
+
+  it("maps Errors to error results", () => {
+    expect(normalizeToolResult(new Error("boom"))).toEqual(errorResult("boom"));
+  });
+});
@@ -0,0 +1,269 @@
+import { describe, it, expect, afterEach } from "vitest";
+import React, { useRef, useState } from "react";
+import { render, cleanup, act, waitFor } from "@testing-library/react";
+import { useDomSchema } from "../adapters/useDomSchema";
+import { WebMCPTool } from "../adapters/WebMCPTool";
+import { WebMCPForm } from "../components/WebMCPForm";
+import type { JSONSchema } from "../types";
+import { installMockModelContext, removeMockModelContext } from "./helpers";
+
+describe("useDomSchema", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+  });
+
+  let latest: JSONSchema | null = null;
+
+  function Probe({ children }: { children: React.ReactNode }) {
+    const ref = useRef<HTMLFormElement>(null);
+    latest = useDomSchema(ref);
+    return <form ref={ref}>{children}</form>;
+  }
+
+  // Fields rendered by components the React-children walk cannot see into.
+  function Nested() {
+    return (
+      <div>
+        <label htmlFor="email">Email address</label>
+        <input id="email" name="email" type="email" required pattern=".+@.+" aria-describedby="email-hint" />
+        <p id="email-hint">We never share it.</p>
+      </div>
+    );
+  }
+
+  it("reads the rendered controls, labels and descriptions", () => {
+    render(
+      <Probe>
+        <Nested />
+        <label>
+          Seats
+          <input name="seats" type="number" min={1} max={8} />
+        </label>
+        <label>
+          Table
+          <select name="table">
+            <option value="">Any</option>
+            <option value="window">By the window</option>
+          </select>
+        </label>
+        <textarea name="notes" toolparamtitle="remarks" toolparamdescription="Anything else" maxLength={100} />
+        <input type="hidden" name="csrf" value="x" />
+        <button type="submit" name="go">Go</button>
+      </Probe>,
+    );
+
+    expect(latest).toEqual({
+      type: "object",
+      properties: {
+        email: {
+          type: "string",
+          title: "Email address",
+          description: "We never share it.",
+          pattern: ".+@.+",
+        },
+        remarks: { type: "string", description: "Anything else", maxLength: 100 },
+        seats: { type: "number", title: "Seats", minimum: 1, maximum: 8 },
+        table: { type: "string", title: "Table", oneOf: [{ const: "window", title: "By the window" }] },
+      },
+      required: ["email"],
+    });
+  });
+
+  it("groups radios, checkbox groups and multi-selects", () => {
+    render(
+      <Probe>
+        <fieldset>
+          <legend>Size</legend>
+          <label><input type="radio" name="size" value="s" required /> Small</label>
+          <label><input type="radio" name="size" value="l" /> Large</label>
+        </fieldset>
+        <input type="checkbox" name="toppings" value="ham" id="ham" />
+        <label htmlFor="ham">Ham</label>
+        <input type="checkbox" name="toppings" value="olives" id="olives" />
+        <label htmlFor="olives">Olives</label>
+        <label>
+          Tags
+          <select name="tags" multiple>
+            <option value="a">A</option>
+            <option value="b">B</option>
+          </select>
+        </label>
+        <input type="checkbox" name="agree" />
+      </Probe>,
+    );
+
+    expect(latest).toEqual({
+      type: "object",
+      properties: {
+        agree: { type: "boolean" },
+        size: {
+          type: "string",
+          title: "Size",
+          oneOf: [
+            { const: "s", title: "Small" },
+            { const: "l", title: "Large" },
+          ],
+        },
+        tags: {
+          type: "array",
+          title: "Tags",
+          items: {
+            type: "string",
+            oneOf: [
+              { const: "a", title: "A" },
+              { const: "b", title: "B" },
+            ],
+          },
+        },
+        toppings: {
+          type: "array",
+          items: {
+            type: "string",
+            oneOf: [
+              { const: "ham", title: "Ham" },
+              { const: "olives", title: "Olives" },
+            ],
+          },
+        },
+      },
+      required: ["size"],
+    });
+  });
+
+  it("follows controls mounted and changed after the first render", async () => {
+    let setExtra!: (value: boolean) => void;
+    function Conditional() {
+      const [extra, set] = useState(false);
+      setExtra = set;
+      return extra ? <input name="coupon" required /> : null;
+    }
+    render(
+      <Probe>
+        <input name="name" />
+        <Conditional />
+      </Probe>,
+    );
+    expect(Object.keys(latest!.properties)).toEqual(["name"]);
+
+    act(() => setExtra(true));
+    await waitFor(() => expect(Object.keys(latest!.properties)).toEqual(["coupon", "name"]));
+    expect(latest!.required).toEqual(["coupon"]);
+  });
+
+  it("keeps the same object while the schema is unchanged", () => {
+    let bump!: () => void;
+    function Counter() {
+      const [count, setCount] = useState(0);
+      bump = () => setCount((c) => c + 1);
+      return <span>{count}</span>;
+    }
+    render(
+      <Probe>
+        <input name="q" />
+        <Counter />
+      </Probe>,
+    );
+    const first = latest;
+    act(() => bump());
+    expect(latest).toBe(first);
+  });
+});
+
+describe("DOM schemas as a tool's schema source", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+  });
+
+  it("registers WebMCP.Tool with the schema read through schemaRef", () => {
+    const mc = installMockModelContext();
+    function Tool() {
+      const ref = useRef<HTMLDivElement>(null);
+      return (
+        <WebMCPTool
+          name="search"
+          description="Search"
+          schemaRef={ref}
+          fields={{ q: { description: "Search terms" } }}
+          onExecute={() => null}
+        >
+          <div ref={ref}>
+            <label htmlFor="q">Query</label>
+            <input id="q" name="q" required />
+          </div>
+        </WebMCPTool>
+      );
+    }
+    render(<Tool />);
+
+    const calls = mc.registerTool.mock.calls;
+    expect(calls[calls.length - 1][0].inputSchema).toEqual({
+      type: "object",
+      properties: { q: { type: "string", title: "Query", description: "Search terms" } },
+      required: ["q"],
+    });
+  });
+
+  it("fills grouped controls from a fallback WebMCPForm call", async () => {
+    const mc = installMockModelContext();
+    let submitted: FormData | null = null;
+    const { container } = render(
+      <WebMCPForm
+        toolName="order"
+        toolDescription="Order a pizza"
+        toolAutoSubmit
+        onSubmit={(e) => {
+          e.preventDefault();
+          submitted = new FormData(e.target as HTMLFormElement);
+          e.respondWith("Ordered");
+        }}
+      >
+        <input type="radio" name="size" value="s" />
+        <input type="radio" name="size" value="l" />
+        <input type="checkbox" name="toppings" value="ham" />
+        <input type="checkbox" name="toppings" value="olives" />
+        <select name="tags" multiple>
+          <option value="a">A</option>
+          <option value="b">B</option>
+        </select>
+      </WebMCPForm>,
+    );
+
+    let result: unknown;
+    await act(async () => {
+      result = await mc.registerTool.mock.calls[0][0].execute({
+        size: "l",
+        toppings: ["olives"],
+        tags: ["a", "b"],
+      });
+    });
+
+    expect(result).toBe("Ordered");
+    expect(submitted!.get("size")).toBe("l");
+    expect(submitted!.getAll("toppings")).toEqual(["olives"]);
+    expect(submitted!.getAll("tags")).toEqual(["a", "b"]);
+    expect(container.querySelectorAll("input:checked")).toHaveLength(2);
+  });
+
+  it("re-registers a fallback WebMCPForm when its controls change", async () => {
+    const mc = installMockModelContext();
+    function Form({ withPhone }: { withPhone: boolean }) {
+      return (
+        <WebMCPForm toolName="contact" toolDescription="Contact us">
+          <input name="email" />
+          {withPhone && <input name="phone" type="tel" />}
+        </WebMCPForm>
+      );
+    }
+    const { rerender } = render(<Form withPhone={false} />);
+    expect(mc.registerTool).toHaveBeenCalledTimes(1);
+
+    rerender(<Form withPhone />);
+    await waitFor(() => expect(mc.registerTool).toHaveBeenCalledTimes(2));
+    expect(Object.keys(mc.registerTool.mock.calls[1][0].inputSchema.properties)).toEqual([
+      "email",
+      "phone",
+    ]);
+  });
+});
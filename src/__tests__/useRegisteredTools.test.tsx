@@ -0,0 +1,163 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import React from "react";
+import { render, cleanup } from "@testing-library/react";
+import { WebMCPProvider } from "../context";
+import { useRegisteredTools } from "../hooks/useRegisteredTools";
+import { useWebMCPTool } from "../hooks/useWebMCPTool";
+import { useWebMCPContext } from "../hooks/useWebMCPContext";
+import { WebMCPTool } from "../adapters/WebMCPTool";
+import { WebMCPForm } from "../components/WebMCPForm";
+import { createToolRegistry } from "../utils/toolRegistry";
+import type { RegisteredTool } from "../utils/toolRegistry";
+import {
+  installMockModelContext,
+  removeMockModelContext,
+  createToolConfig,
+} from "./helpers";
+
+describe("createToolRegistry", () => {
+  it("adds and removes tools with a stable snapshot between changes", () => {
+    const registry = createToolRegistry();
+    const snapshots: Array<readonly RegisteredTool[]> = [];
+    registry.subscribe(() => snapshots.push(registry.getSnapshot()));
+
+    const empty = registry.getSnapshot();
+    expect(registry.getSnapshot()).toBe(empty);
+
+    const remove = registry.add({
+      name: "a",
+      description: "A",
+      inputSchema: {},
+      kind: "imperative",
+      owner: "test",
+      ownerId: "o1",
+    });
+    expect(registry.getSnapshot()).toHaveLength(1);
+    expect(registry.getSnapshot()[0].id).toMatch(/^tool-/);
+
+    remove();
+    remove();
+    expect(registry.getSnapshot()).toEqual([]);
+    expect(snapshots).toHaveLength(2);
+  });
+});
+
+describe("useRegisteredTools", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+  });
+
+  let latest: readonly RegisteredTool[] = [];
+  function Inspector() {
+    latest = useRegisteredTools();
+    return <span data-testid="count">{latest.length}</span>;
+  }
+
+  it("returns an empty list outside a provider", () => {
+    installMockModelContext();
+    const { getByTestId } = render(<Inspector />);
+    expect(getByTestId("count").textContent).toBe("0");
+  });
+
+  it("tracks tools from every registration path", () => {
+    installMockModelContext();
+
+    function Hook() {
+      useWebMCPTool(
+        createToolConfig({ name: "hook-tool", annotations: { readOnlyHint: true } }),
+      );
+      return null;
+    }
+    function Context() {
+      useWebMCPContext({
+        tools: [createToolConfig({ name: "ctx-a" }), createToolConfig({ name: "ctx-b" })],
+        owner: "Sidebar",
+      });
+      return null;
+    }
+
+    const { getByTestId } = render(
+      <WebMCPProvider>
+        <Hook />
+        <Context />
+        <WebMCPTool name="adapter-tool" description="Adapter" onExecute={() => null}>
+          <input name="email" />
+        </WebMCPTool>
+        <WebMCPForm toolName="form-tool" toolDescription="Form">
+          <input name="x" />
+        </WebMCPForm>
+        <Inspector />
+      </WebMCPProvider>,
+    );
+
+    expect(getByTestId("count").textContent).toBe("5");
+    const byName = Object.fromEntries(latest.map((t) => [t.name, t]));
+
+    expect(byName["hook-tool"]).toMatchObject({
+      description: "A test tool",
+      kind: "imperative",
+      owner: "useWebMCPTool",
+      annotations: { readOnlyHint: true },
+    });
+    expect(byName["ctx-a"].owner).toBe("Sidebar");
+    expect(byName["ctx-a"].ownerId).toBe(byName["ctx-b"].ownerId);
+    expect(byName["adapter-tool"].owner).toBe("WebMCP.Tool");
+    expect(byName["adapter-tool"].inputSchema).toEqual({
+      type: "object",
+      properties: { email: { type: "string" } },
+    });
+    // jsdom has no declarative API, so the form registers imperatively.
+    expect(byName["form-tool"]).toMatchObject({
+      kind: "imperative",
+      owner: "WebMCPForm",
+      inputSchema: { type: "object", properties: { x: { type: "string" } } },
+    });
+  });
+
+  it("updates when tools unmount", () => {
+    installMockModelContext();
+
+    function Hook() {
+      useWebMCPTool(createToolConfig());
+      return null;
+    }
+
+    const { getByTestId, rerender } = render(
+      <WebMCPProvider>
+        <Hook />
+        <Inspector />
+      </WebMCPProvider>,
+    );
+    expect(getByTestId("count").textContent).toBe("1");
+
+    rerender(
+      <WebMCPProvider>
+        <Inspector />
+      </WebMCPProvider>,
+    );
+    expect(getByTestId("count").textContent).toBe("0");
+  });
+
+  it("does not list tools whose registration failed", () => {
+    const mc = installMockModelContext();
+    mc.registerTool.mockImplementation(() => {
+      throw new DOMException("dup", "InvalidStateError");
+    });
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    function Hook() {
+      useWebMCPTool(createToolConfig());
+      return null;
+    }
+
+    const { getByTestId } = render(
+      <WebMCPProvider>
+        <Hook />
+        <Inspector />
+      </WebMCPProvider>,
+    );
+    expect(getByTestId("count").textContent).toBe("0");
+    warnSpy.mockRestore();
+  });
+});
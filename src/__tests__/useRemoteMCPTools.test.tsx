@@ -0,0 +1,320 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import React from "react";
+import { render, cleanup, act } from "@testing-library/react";
+import { createServer } from "node:http";
+import type { Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { useRemoteMCPTools } from "../hooks/useRemoteMCPTools";
+import type { RemoteMCPToolsState, RemoteMCPTransport } from "../hooks/useRemoteMCPTools";
+import type { JSONRPCMessage, MCPTransport } from "../bridge/transports";
+import { installMockModelContext, removeMockModelContext } from "./helpers";
+
+const echoTool = {
+  name: "echo",
+  description: "Echo text",
+  inputSchema: { type: "object", properties: { text: { type: "string" } }, required: ["text"] },
+  annotations: { readOnlyHint: true, title: "Echo" },
+};
+const slowTool = {
+  name: "slow",
+  description: "Never answers",
+  inputSchema: { type: "object" },
+};
+
+/**
+ * A local Streamable HTTP MCP server. `tools/call` for "echo" answers over
+ * an event stream; everything else as JSON. A GET opens the notification
+ * stream, which `notify()` writes to.
+ */
+async function startHTTPServer() {
+  const requests: Array<{ method: string; headers: Record<string, unknown>; body?: JSONRPCMessage }> = [];
+  const streams: ServerResponse[] = [];
+  let tools: object[] = [echoTool];
+
+  const server: Server = createServer((req, res) => {
+    if (req.method === "GET") {
+      requests.push({ method: "GET", headers: req.headers });
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      res.flushHeaders();
+      streams.push(res);
+      return;
+    }
+    if (req.method === "DELETE") {
+      requests.push({ method: "DELETE", headers: req.headers });
+      res.writeHead(200).end();
+      return;
+    }
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const body = JSON.parse(raw) as JSONRPCMessage;
+      requests.push({ method: "POST", headers: req.headers, body });
+      if (body.id === undefined) {
+        res.writeHead(202).end();
+        return;
+      }
+      const reply = (result: unknown) => {
+        res.writeHead(200, { "Content-Type": "application/json", "Mcp-Session-Id": "session-1" });
+        res.end(JSON.stringify({ jsonrpc: "2.0", id: body.id, result }));
+      };
+      if (body.method === "initialize") {
+        reply({ protocolVersion: "2025-06-18", capabilities: { tools: { listChanged: true } } });
+      } else if (body.method === "tools/list") {
+        reply({ tools });
+      } else if (body.method === "tools/call" && body.params?.name === "echo") {
+        const text = (body.params.arguments as { text: string }).text;
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        res.write(`event: message\ndata: ${JSON.stringify({ jsonrpc: "2.0", method: "notifications/progress", params: {} })}\n\n`);
+        res.end(`data: ${JSON.stringify({ jsonrpc: "2.0", id: body.id, result: { content: [{ type: "text", text }], structuredContent: { text } } })}\n\n`);
+      } else {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ jsonrpc: "2.0", id: body.id, error: { code: -32601, message: "nope" } }));
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/mcp`,
+    requests,
+    setTools(next: object[]) {
+      tools = next;
+      for (const stream of streams) {
+        stream.write(`data: ${JSON.stringify({ jsonrpc: "2.0", method: "notifications/tools/list_changed" })}\n\n`);
+      }
+    },
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const stream of streams) stream.end();
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+/**
+ * An in-memory MCP server behind the `MCPTransport` interface.
+ */
+function createMemoryServer() {
+  const received: JSONRPCMessage[] = [];
+  let deliver: (message: JSONRPCMessage) => void = () => {};
+  let drop: (error?: Error) => void = () => {};
+  const transport: MCPTransport = {
+    start: async (onMessage, onClose) => {
+      deliver = onMessage;
+      drop = onClose;
+    },
+    send: async (message) => {
+      received.push(message);
+      if (message.id === undefined) return;
+      const result =
+        message.method === "initialize"
+          ? { protocolVersion: "2025-06-18", capabilities: {} }
+          : message.method === "tools/list"
+            ? message.params?.cursor
+              ? { tools: [slowTool] }
+              : { tools: [echoTool], nextCursor: "page-2" }
+            : message.params?.name === "echo"
+              ? { content: [{ type: "text", text: "hi" }, { type: "image", data: "AA==", mimeType: "image/png" }], isError: true }
+              : undefined;
+      if (result !== undefined) {
+        queueMicrotask(() => deliver({ jsonrpc: "2.0", id: message.id, result }));
+      }
+    },
+    close: vi.fn(),
+  };
+  return { transport: () => transport, received, drop: (error?: Error) => drop(error) };
+}
+
+function Remote({
+  transport,
+  prefix,
+  filter,
+  onState,
+}: {
+  transport: RemoteMCPTransport;
+  prefix?: string;
+  filter?: (tool: { name: string }) => boolean;
+  onState: (state: RemoteMCPToolsState) => void;
+}) {
+  onState(useRemoteMCPTools({ transport, prefix, filter }));
+  return null;
+}
+
+/** The tools currently registered, replaying registerTool/unregisterTool in call order. */
+function lastTools(mc: ReturnType<typeof installMockModelContext>) {
+  type Tool = {
+    name: string;
+    description: string;
+    annotations?: object;
+    execute: (input: object) => Promise<unknown>;
+  };
+  const events = [
+    ...mc.registerTool.mock.calls.map(([tool], i) => ({
+      order: mc.registerTool.mock.invocationCallOrder[i],
+      tool: tool as Tool,
+    })),
+    ...mc.unregisterTool.mock.calls.map(([name], i) => ({
+      order: mc.unregisterTool.mock.invocationCallOrder[i],
+      name: name as string,
+    })),
+  ].sort((a, b) => a.order - b.order);
+  const tools = new Map<string, Tool>();
+  for (const event of events) {
+    if ("tool" in event) tools.set(event.tool.name, event.tool);
+    else tools.delete(event.name);
+  }
+  return Array.from(tools.values());
+}
+
+describe("useRemoteMCPTools", () => {
+  let stopServer: (() => Promise<void>) | undefined;
+
+  afterEach(async () => {
+    cleanup();
+    removeMockModelContext();
+    await stopServer?.();
+    stopServer = undefined;
+  });
+
+  it("registers a Streamable HTTP server's tools and proxies calls", async () => {
+    const mc = installMockModelContext();
+    const server = await startHTTPServer();
+    stopServer = server.close;
+    const states: RemoteMCPToolsState[] = [];
+    render(
+      <Remote
+        transport={{ type: "http", url: server.url, headers: { Authorization: "Bearer t" } }}
+        prefix="remote_"
+        onState={(s) => states.push(s)}
+      />,
+    );
+
+    await vi.waitFor(() => expect(states[states.length - 1].status).toBe("ready"));
+    await vi.waitFor(() => expect(lastTools(mc)?.map((t) => t.name)).toEqual(["remote_echo"]));
+    expect(lastTools(mc)[0]).toMatchObject({
+      description: "Echo text",
+      annotations: { readOnlyHint: true },
+    });
+
+    await expect(lastTools(mc)[0].execute({ text: "hello" })).resolves.toEqual({
+      content: [
+        { type: "text", text: "hello" },
+        { type: "json", json: { text: "hello" } },
+      ],
+    });
+    // Invalid input is rejected locally, before reaching the server.
+    await expect(Promise.resolve(lastTools(mc)[0].execute({}))).resolves.toMatchObject({ isError: true });
+
+    const posts = server.requests.filter((r) => r.method === "POST");
+    expect(posts.map((r) => r.body?.method)).toEqual([
+      "initialize",
+      "notifications/initialized",
+      "tools/list",
+      "tools/call",
+    ]);
+    expect(posts[3].headers).toMatchObject({
+      authorization: "Bearer t",
+      "mcp-session-id": "session-1",
+      "mcp-protocol-version": "2025-06-18",
+    });
+  });
+
+  it("re-lists the tools on list_changed", async () => {
+    const mc = installMockModelContext();
+    const server = await startHTTPServer();
+    stopServer = server.close;
+    render(<Remote transport={{ type: "http", url: server.url }} onState={() => {}} />);
+    await vi.waitFor(() => expect(lastTools(mc)?.map((t) => t.name)).toEqual(["echo"]));
+    await vi.waitFor(() => expect(server.requests.some((r) => r.method === "GET")).toBe(true));
+
+    await act(async () => server.setTools([echoTool, slowTool]));
+    await vi.waitFor(() => expect(lastTools(mc)?.map((t) => t.name)).toEqual(["echo", "slow"]));
+  });
+
+  it("ends the session and unregisters the tools on unmount", async () => {
+    const mc = installMockModelContext();
+    const server = await startHTTPServer();
+    stopServer = server.close;
+    const { unmount } = render(
+      <Remote transport={{ type: "http", url: server.url }} onState={() => {}} />,
+    );
+    await vi.waitFor(() => expect(lastTools(mc)?.length).toBe(1));
+    unmount();
+    expect(lastTools(mc)).toEqual([]);
+    await vi.waitFor(() => expect(server.requests.some((r) => r.method === "DELETE")).toBe(true));
+  });
+
+  it("follows pagination and converts non-text content", async () => {
+    const mc = installMockModelContext();
+    const memory = createMemoryServer();
+    render(<Remote transport={memory.transport} onState={() => {}} />);
+
+    await vi.waitFor(() => expect(lastTools(mc)?.map((t) => t.name)).toEqual(["echo", "slow"]));
+    await expect(lastTools(mc)[0].execute({ text: "x" })).resolves.toEqual({
+      content: [
+        { type: "text", text: "hi" },
+        { type: "json", json: { type: "image", data: "AA==", mimeType: "image/png" } },
+      ],
+      isError: true,
+    });
+  });
+
+  it("re-applies filter when it changes", async () => {
+    const mc = installMockModelContext();
+    const memory = createMemoryServer();
+    const onlyEcho = (tool: { name: string }) => tool.name === "echo";
+    const onlySlow = (tool: { name: string }) => tool.name === "slow";
+    const { rerender } = render(
+      <Remote transport={memory.transport} filter={onlyEcho} onState={() => {}} />,
+    );
+    await vi.waitFor(() => expect(lastTools(mc).map((t) => t.name)).toEqual(["echo"]));
+
+    rerender(<Remote transport={memory.transport} filter={onlySlow} onState={() => {}} />);
+    expect(lastTools(mc).map((t) => t.name)).toEqual(["slow"]);
+  });
+
+  it("sends notifications/cancelled when a call is cancelled", async () => {
+    const mc = installMockModelContext();
+    const memory = createMemoryServer();
+    render(<Remote transport={memory.transport} onState={() => {}} />);
+    await vi.waitFor(() => expect(lastTools(mc)?.length).toBe(2));
+
+    const call = lastTools(mc)[1].execute({});
+    await vi.waitFor(() =>
+      expect(memory.received.some((m) => m.method === "tools/call")).toBe(true),
+    );
+    window.dispatchEvent(new CustomEvent("toolcancel", { detail: { toolName: "slow" } }));
+    await expect(call).resolves.toMatchObject({ isError: true });
+    const requestId = memory.received.find((m) => m.method === "tools/call")!.id;
+    expect(memory.received).toContainEqual(
+      expect.objectContaining({ method: "notifications/cancelled", params: expect.objectContaining({ requestId }) }),
+    );
+  });
+
+  it("reports a dropped connection and unregisters the tools", async () => {
+    const mc = installMockModelContext();
+    const memory = createMemoryServer();
+    const states: RemoteMCPToolsState[] = [];
+    render(<Remote transport={memory.transport} onState={(s) => states.push(s)} />);
+    await vi.waitFor(() => expect(lastTools(mc)?.length).toBe(2));
+
+    act(() => memory.drop(new Error("gone")));
+    await vi.waitFor(() => expect(states[states.length - 1]).toMatchObject({ status: "error" }));
+    expect(states[states.length - 1].error?.message).toBe("gone");
+    expect(lastTools(mc)).toEqual([]);
+  });
+
+  it("reports a server that cannot be reached", async () => {
+    installMockModelContext();
+    const states: RemoteMCPToolsState[] = [];
+    render(
+      <Remote
+        transport={{ type: "http", url: "http://127.0.0.1:1/mcp" }}
+        onState={(s) => states.push(s)}
+      />,
+    );
+    await vi.waitFor(() => expect(states[states.length - 1].status).toBe("error"));
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import React from "react";
+import { render, cleanup, act, fireEvent } from "@testing-library/react";
+import { WebMCPProvider } from "../context";
+import { useToolConfirmation } from "../hooks/useToolConfirmation";
+import { useWebMCPTool } from "../hooks/useWebMCPTool";
+import { WebMCPConfirmDialog } from "../components/WebMCPConfirmDialog";
+import {
+  installMockModelContext,
+  removeMockModelContext,
+  createToolConfig,
+} from "./helpers";
+
+function Tool(props: { overrides?: Record<string, unknown> }) {
+  useWebMCPTool(
+    createToolConfig({
+      annotations: { destructiveHint: true },
+      ...props.overrides,
+    }),
+  );
+  return null;
+}
+
+describe("useToolConfirmation", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+    vi.restoreAllMocks();
+  });
+
+  let confirmation: ReturnType<typeof useToolConfirmation>;
+  function Prompt() {
+    confirmation = useToolConfirmation();
+    return null;
+  }
+
+  function setup(overrides?: Record<string, unknown>) {
+    const mc = installMockModelContext();
+    const execute = vi.fn(() => "deleted");
+    render(
+      <WebMCPProvider>
+        <Tool overrides={{ execute, ...overrides }} />
+        <Prompt />
+      </WebMCPProvider>,
+    );
+    return { mc, execute, call: mc.registerTool.mock.calls[0][0].execute };
+  }
+
+  it("waits for approval before running a destructive tool", async () => {
+    const { execute, call } = setup();
+
+    let pending!: Promise<unknown>;
+    act(() => {
+      pending = call({ query: "all" });
+    });
+    expect(execute).not.toHaveBeenCalled();
+    expect(confirmation.pending).toHaveLength(1);
+    expect(confirmation.current).toMatchObject({
+      toolName: "test-tool",
+      description: "A test tool",
+      input: { query: "all" },
+      annotations: { destructiveHint: true },
+    });
+
+    act(() => confirmation.current!.approve());
+    await expect(pending).resolves.toBe("deleted");
+    expect(execute).toHaveBeenCalledWith({ query: "all" }, { signal: expect.any(AbortSignal) });
+    expect(confirmation.current).toBeNull();
+  });
+
+  it("answers a rejection with a structured refusal", async () => {
+    const { execute, call } = setup();
+
+    let pending!: Promise<unknown>;
+    act(() => {
+      pending = call({});
+    });
+    act(() => confirmation.current!.reject("Too risky"));
+
+    const result = (await pending) as { content: unknown[]; isError: boolean };
+    expect(execute).not.toHaveBeenCalled();
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([
+      {
+        type: "text",
+        text: 'The user did not confirm the call to tool "test-tool": Too risky',
+      },
+      { type: "json", json: { confirmed: false, tool: "test-tool", reason: "Too risky" } },
+    ]);
+  });
+
+  it("honours requireConfirmation over destructiveHint", async () => {
+    const { execute, call } = setup({ requireConfirmation: false });
+    expect(call({})).toBe("deleted");
+    expect(execute).toHaveBeenCalled();
+    expect(confirmation.pending).toHaveLength(0);
+  });
+
+  it("does not ask about invalid input", () => {
+    const { call } = setup();
+    act(() => {
+      call({ query: 1 });
+    });
+    expect(confirmation.pending).toHaveLength(0);
+  });
+
+  it("queues concurrent calls in order", () => {
+    const { call } = setup();
+    act(() => {
+      call({ query: "a" });
+      call({ query: "b" });
+    });
+    expect(confirmation.pending.map((p) => p.input.query)).toEqual(["a", "b"]);
+    act(() => confirmation.pending[1].approve());
+    expect(confirmation.current?.input).toEqual({ query: "a" });
+  });
+
+  it("refuses immediately when no confirmation UI is mounted", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const mc = installMockModelContext();
+    const execute = vi.fn();
+    render(
+      <WebMCPProvider confirmDialog={false}>
+        <Tool overrides={{ execute }} />
+      </WebMCPProvider>,
+    );
+
+    const result = await mc.registerTool.mock.calls[0][0].execute({});
+    expect(result).toMatchObject({ isError: true });
+    expect(execute).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("no useToolConfirmation()"));
+  });
+
+  it("refuses outside a provider", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const mc = installMockModelContext();
+    const execute = vi.fn();
+    render(<Tool overrides={{ requireConfirmation: true, annotations: undefined, execute }} />);
+
+    const result = mc.registerTool.mock.calls[0][0].execute({});
+    expect(result).toMatchObject({ isError: true });
+    expect(execute).not.toHaveBeenCalled();
+  });
+});
+
+describe("WebMCPConfirmDialog", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+  });
+
+  it("is mounted by the provider by default", async () => {
+    const mc = installMockModelContext();
+    const execute = vi.fn(() => "deleted");
+    const { getByRole, getByText } = render(
+      <WebMCPProvider confirmDialog={{ approveLabel: "Go ahead" }}>
+        <Tool overrides={{ execute }} />
+      </WebMCPProvider>,
+    );
+
+    let pending!: Promise<unknown>;
+    act(() => {
+      pending = mc.registerTool.mock.calls[0][0].execute({ query: "x" });
+    });
+    expect(getByRole("alertdialog").getAttribute("data-tool-name")).toBe("test-tool");
+
+    fireEvent.click(getByText("Go ahead"));
+    await expect(pending).resolves.toBe("deleted");
+  });
+
+  it("hides the provider's dialog while another confirmation UI is mounted", () => {
+    const mc = installMockModelContext();
+    function Custom() {
+      const { current } = useToolConfirmation();
+      return current ? <p>custom prompt</p> : null;
+    }
+    function App({ ui }: { ui: "dialog" | "custom" | "none" }) {
+      return (
+        <WebMCPProvider>
+          <Tool />
+          {ui === "dialog" && <WebMCPConfirmDialog className="mine" />}
+          {ui === "custom" && <Custom />}
+        </WebMCPProvider>
+      );
+    }
+    const { getAllByRole, getByText, rerender } = render(<App ui="dialog" />);
+    act(() => {
+      mc.registerTool.mock.calls[0][0].execute({});
+    });
+    expect(getAllByRole("alertdialog").map((d) => d.className)).toEqual(["mine"]);
+
+    rerender(<App ui="custom" />);
+    expect(getByText("custom prompt")).toBeTruthy();
+    expect(document.querySelector("[role=alertdialog]")).toBeNull();
+
+    rerender(<App ui="none" />);
+    expect(getAllByRole("alertdialog")).toHaveLength(1);
+  });
+
+  it("renders nothing until a call needs approval", () => {
+    installMockModelContext();
+    const { queryByRole } = render(
+      <WebMCPProvider>
+        <Tool />
+        <WebMCPConfirmDialog />
+      </WebMCPProvider>,
+    );
+    expect(queryByRole("alertdialog")).toBeNull();
+  });
+
+  it("shows the pending call and resolves it from its buttons", async () => {
+    const mc = installMockModelContext();
+    const execute = vi.fn(() => "deleted");
+    const { getByRole, getByText, queryByRole } = render(
+      <WebMCPProvider>
+        <Tool overrides={{ execute }} />
+        <WebMCPConfirmDialog approveLabel="Yes" rejectLabel="No" rejectReason="Declined" />
+      </WebMCPProvider>,
+    );
+
+    let first!: Promise<unknown>;
+    let second!: Promise<unknown>;
+    act(() => {
+      first = mc.registerTool.mock.calls[0][0].execute({ query: "one" });
+      second = mc.registerTool.mock.calls[0][0].execute({ query: "two" });
+    });
+
+    const dialog = getByRole("alertdialog");
+    expect(dialog.getAttribute("data-tool-name")).toBe("test-tool");
+    expect(dialog.textContent).toContain('"query": "one"');
+    expect(getByText("1 more waiting")).toBeTruthy();
+
+    fireEvent.click(getByText("Yes"));
+    await expect(first).resolves.toBe("deleted");
+    expect(getByRole("alertdialog").textContent).toContain('"query": "two"');
+
+    fireEvent.click(getByText("No"));
+    await expect(second).resolves.toMatchObject({ isError: true });
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(queryByRole("alertdialog")).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import React from "react";
+import { render, cleanup, act } from "@testing-library/react";
+import { WebMCPProvider } from "../context";
+import { useToolInvocation } from "../hooks/useToolInvocation";
+import { useWebMCPTool } from "../hooks/useWebMCPTool";
+import { useWebMCPContext } from "../hooks/useWebMCPContext";
+import { createInvocationStore } from "../utils/invocationStore";
+import type { ToolInvocationState } from "../utils/invocationStore";
+import {
+  installMockModelContext,
+  removeMockModelContext,
+  createToolConfig,
+} from "./helpers";
+
+describe("createInvocationStore", () => {
+  it("stays running until every concurrent call settles", () => {
+    const store = createInvocationStore();
+    const finishA = store.start("t", { a: 1 });
+    const finishB = store.start("t", { b: 2 });
+    expect(store.getSnapshot("t")).toMatchObject({ status: "running", count: 2, lastInput: { b: 2 } });
+
+    finishA({ result: "a" });
+    expect(store.getSnapshot("t").status).toBe("running");
+    finishB({ result: "b" });
+    expect(store.getSnapshot("t")).toMatchObject({ status: "success", lastResult: "b" });
+  });
+
+  it("treats isError results as errors", () => {
+    const store = createInvocationStore();
+    store.start("t", {})({
+      result: { content: [{ type: "text", text: "bad input" }], isError: true },
+    });
+    const state = store.getSnapshot("t");
+    expect(state.status).toBe("error");
+    expect((state.lastError as Error).message).toBe("bad input");
+  });
+
+  it("returns the same snapshot until the state changes", () => {
+    const store = createInvocationStore();
+    expect(store.getSnapshot("t")).toBe(store.getSnapshot("t"));
+    store.start("t", {});
+    expect(store.getSnapshot("t")).toBe(store.getSnapshot("t"));
+  });
+});
+
+describe("useToolInvocation", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+    vi.useRealTimers();
+  });
+
+  let state: ToolInvocationState;
+  function Status({ name }: { name: string }) {
+    state = useToolInvocation(name);
+    return <span data-testid="status">{state.status}</span>;
+  }
+
+  it("is idle outside a provider", () => {
+    const { getByTestId } = render(<Status name="test-tool" />);
+    expect(getByTestId("status").textContent).toBe("idle");
+    expect(state.count).toBe(0);
+  });
+
+  it("follows an async call from running to success", async () => {
+    const mc = installMockModelContext();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(1000);
+
+    let resolve!: (value: unknown) => void;
+    function Tool() {
+      useWebMCPTool(
+        createToolConfig({ execute: () => new Promise((r) => (resolve = r)) }),
+      );
+      return null;
+    }
+
+    const { getByTestId } = render(
+      <WebMCPProvider>
+        <Tool />
+        <Status name="test-tool" />
+      </WebMCPProvider>,
+    );
+    expect(getByTestId("status").textContent).toBe("idle");
+
+    let pending!: Promise<unknown>;
+    act(() => {
+      pending = mc.registerTool.mock.calls[0][0].execute({ query: "paris" });
+    });
+    expect(getByTestId("status").textContent).toBe("running");
+    expect(state).toMatchObject({ lastInput: { query: "paris" }, startedAt: 1000, count: 1 });
+
+    vi.setSystemTime(1250);
+    await act(async () => {
+      resolve("found");
+      await pending;
+    });
+    expect(getByTestId("status").textContent).toBe("success");
+    expect(state).toMatchObject({ lastResult: "found", durationMs: 250, lastError: undefined });
+  });
+
+  it("reports thrown errors and rethrows them to the caller", () => {
+    const mc = installMockModelContext();
+    const boom = new Error("boom");
+
+    function Tools() {
+      useWebMCPContext({
+        tools: [
+          createToolConfig({
+            execute: () => {
+              throw boom;
+            },
+          }),
+        ],
+      });
+      return null;
+    }
+
+    const { getByTestId } = render(
+      <WebMCPProvider>
+        <Tools />
+        <Status name="test-tool" />
+      </WebMCPProvider>,
+    );
+
+    act(() => {
+      expect(() => mc.registerTool.mock.calls[0][0].execute({})).toThrow(boom);
+    });
+    expect(getByTestId("status").textContent).toBe("error");
+    expect(state.lastError).toBe(boom);
+  });
+
+  it("counts rejected input as an error", () => {
+    const mc = installMockModelContext();
+
+    function Tool() {
+      useWebMCPTool(createToolConfig());
+      return null;
+    }
+
+    render(
+      <WebMCPProvider>
+        <Tool />
+        <Status name="test-tool" />
+      </WebMCPProvider>,
+    );
+
+    act(() => {
+      mc.registerTool.mock.calls[0][0].execute({ query: 5 });
+    });
+    expect(state.status).toBe("error");
+    expect((state.lastError as Error).message).toContain("query: expected string");
+  });
+});
@@ -2,13 +2,15 @@ import { describe, it, expect, afterEach, vi } from "vitest";
 import React from "react";
 import { render, cleanup } from "@testing-library/react";
 import { useWebMCPContext } from "../hooks/useWebMCPContext";
+import { useWebMCPTool } from "../hooks/useWebMCPTool";
 import {
   installMockModelContext,
   removeMockModelContext,
   createToolConfig,
+  createStandardSchema,
 } from "./helpers";
 
-describe("useWebMCPContext", () => {
+describe("useWebMCPContext (mode: exclusive)", () => {
   afterEach(() => {
     cleanup();
     removeMockModelContext();
@@ -19,7 +21,7 @@ describe("useWebMCPContext", () => {
     const tools = [createToolConfig()];
 
     function App() {
-      useWebMCPContext({ tools });
+      useWebMCPContext({ mode: "exclusive", tools });
       return null;
     }
 
@@ -36,7 +38,7 @@ describe("useWebMCPContext", () => {
     const tools = [createToolConfig()];
 
     function ContextComponent() {
-      useWebMCPContext({ tools });
+      useWebMCPContext({ mode: "exclusive", tools });
       return <div>Context</div>;
     }
 
@@ -57,6 +59,7 @@ describe("useWebMCPContext", () => {
 
     function App({ toolName }: { toolName: string }) {
       useWebMCPContext({
+        mode: "exclusive",
         tools: [createToolConfig({ name: toolName })],
       });
       return null;
@@ -78,6 +81,7 @@ describe("useWebMCPContext", () => {
 
     function App({ executeFn }: { executeFn: () => void }) {
       useWebMCPContext({
+        mode: "exclusive",
         tools: [createToolConfig({ execute: executeFn })],
       });
       return null;
@@ -97,6 +101,7 @@ describe("useWebMCPContext", () => {
 
     function App({ executeFn }: { executeFn: () => unknown }) {
       useWebMCPContext({
+        mode: "exclusive",
         tools: [createToolConfig({ execute: executeFn })],
       });
       return null;
@@ -107,11 +112,58 @@ describe("useWebMCPContext", () => {
     const registeredExecute = registeredTools[0].execute;
 
     registeredExecute({ x: "hello" });
-    expect(execute1).toHaveBeenCalledWith({ x: "hello" });
+    expect(execute1).toHaveBeenCalledWith({ x: "hello" }, { signal: expect.any(AbortSignal) });
 
     rerender(<App executeFn={execute2} />);
     registeredExecute({ x: "world" });
-    expect(execute2).toHaveBeenCalledWith({ x: "world" });
+    expect(execute2).toHaveBeenCalledWith({ x: "world" }, { signal: expect.any(AbortSignal) });
+  });
+
+  it("validates input against each tool's inputSchema", () => {
+    const mc = installMockModelContext();
+    const execute = vi.fn();
+
+    function App() {
+      useWebMCPContext({ mode: "exclusive", tools: [createToolConfig({ execute })] });
+      return null;
+    }
+
+    render(<App />);
+    const registeredExecute = mc.provideContext.mock.calls[0][0].tools[0].execute;
+
+    const result = registeredExecute({ query: false });
+    expect(execute).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      content: [
+        {
+          type: "text",
+          text: 'Invalid input for tool "test-tool":\n- query: expected string, got boolean.',
+        },
+      ],
+      isError: true,
+    });
+  });
+
+  it("converts Standard Schema validators for registration", () => {
+    const mc = installMockModelContext();
+    const validator = createStandardSchema((value) => ({ value }), {
+      type: "object",
+      properties: { id: { type: "string" } },
+    });
+
+    function App() {
+      useWebMCPContext({ mode: "exclusive", tools: [createToolConfig({ inputSchema: validator })] });
+      return null;
+    }
+
+    const { rerender } = render(<App />);
+    expect(mc.provideContext.mock.calls[0][0].tools[0].inputSchema).toEqual({
+      type: "object",
+      properties: { id: { type: "string" } },
+    });
+
+    rerender(<App />);
+    expect(mc.provideContext).toHaveBeenCalledTimes(1);
   });
 
   it("passes outputSchema for each tool when provided", () => {
@@ -123,6 +175,7 @@ describe("useWebMCPContext", () => {
 
     function App() {
       useWebMCPContext({
+        mode: "exclusive",
         tools: [createToolConfig({ outputSchema })],
       });
       return null;
@@ -137,7 +190,7 @@ describe("useWebMCPContext", () => {
     const mc = installMockModelContext();
 
     function App() {
-      useWebMCPContext({ tools: [createToolConfig()] });
+      useWebMCPContext({ mode: "exclusive", tools: [createToolConfig()] });
       return null;
     }
 
@@ -151,6 +204,7 @@ describe("useWebMCPContext", () => {
 
     function App() {
       useWebMCPContext({
+        mode: "exclusive",
         tools: [createToolConfig({ annotations: { readOnlyHint: true } })],
       });
       return null;
@@ -165,7 +219,7 @@ describe("useWebMCPContext", () => {
     const mc = installMockModelContext();
 
     function App() {
-      useWebMCPContext({ tools: [createToolConfig()] });
+      useWebMCPContext({ mode: "exclusive", tools: [createToolConfig()] });
       return null;
     }
 
@@ -179,6 +233,7 @@ describe("useWebMCPContext", () => {
 
     function App() {
       useWebMCPContext({
+        mode: "exclusive",
         tools: [
           createToolConfig({ name: "search", description: "Search" }),
           createToolConfig({ name: "filter", description: "Filter" }),
@@ -201,6 +256,7 @@ describe("useWebMCPContext", () => {
 
     function App() {
       useWebMCPContext({
+        mode: "exclusive",
         tools: [
           {
             name: "stable",
@@ -224,7 +280,7 @@ describe("useWebMCPContext", () => {
     const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
 
     function App() {
-      useWebMCPContext({ tools: [createToolConfig()] });
+      useWebMCPContext({ mode: "exclusive", tools: [createToolConfig()] });
       return <div>App</div>;
     }
 
@@ -244,7 +300,7 @@ describe("useWebMCPContext", () => {
     const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
 
     function App() {
-      useWebMCPContext({ tools: [createToolConfig()] });
+      useWebMCPContext({ mode: "exclusive", tools: [createToolConfig()] });
       return <div>App</div>;
     }
 
@@ -260,7 +316,7 @@ describe("useWebMCPContext", () => {
     });
 
     function ContextComponent() {
-      useWebMCPContext({ tools: [createToolConfig()] });
+      useWebMCPContext({ mode: "exclusive", tools: [createToolConfig()] });
       return <div>Context</div>;
     }
 
@@ -274,3 +330,162 @@ describe("useWebMCPContext", () => {
     expect(container.textContent).toBe("");
   });
 });
+
+describe("useWebMCPContext (cooperative, the default)", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+  });
+
+  it("registers each tool without replacing other registrations", () => {
+    const mc = installMockModelContext();
+
+    function App() {
+      useWebMCPTool(createToolConfig({ name: "standalone" }));
+      useWebMCPContext({
+        tools: [createToolConfig({ name: "a" }), createToolConfig({ name: "b" })],
+      });
+      return null;
+    }
+
+    render(<App />);
+    expect(mc.provideContext).not.toHaveBeenCalled();
+    expect(mc.registerTool.mock.calls.map(([tool]) => tool.name)).toEqual([
+      "standalone",
+      "a",
+      "b",
+    ]);
+    expect(typeof mc.registerTool.mock.calls[1][0].execute).toBe("function");
+  });
+
+  it("unregisters only its own tools on unmount", () => {
+    const mc = installMockModelContext();
+
+    function ContextTools() {
+      useWebMCPContext({
+        tools: [createToolConfig({ name: "a" }), createToolConfig({ name: "b" })],
+      });
+      return null;
+    }
+
+    function App({ show }: { show: boolean }) {
+      useWebMCPTool(createToolConfig({ name: "standalone" }));
+      return show ? <ContextTools /> : null;
+    }
+
+    const { rerender } = render(<App show={true} />);
+    rerender(<App show={false} />);
+    expect(mc.clearContext).not.toHaveBeenCalled();
+    expect(mc.unregisterTool.mock.calls.map(([name]) => name).sort()).toEqual(["a", "b"]);
+  });
+
+  it("re-registers only the tools that changed", () => {
+    const mc = installMockModelContext();
+
+    function App({ descriptionB, withC }: { descriptionB: string; withC: boolean }) {
+      useWebMCPContext({
+        tools: [
+          createToolConfig({ name: "a" }),
+          createToolConfig({ name: "b", description: descriptionB }),
+          ...(withC ? [createToolConfig({ name: "c" })] : []),
+        ],
+      });
+      return null;
+    }
+
+    const { rerender } = render(<App descriptionB="B" withC={true} />);
+    mc.registerTool.mockClear();
+
+    rerender(<App descriptionB="B" withC={true} />);
+    expect(mc.registerTool).not.toHaveBeenCalled();
+    expect(mc.unregisterTool).not.toHaveBeenCalled();
+
+    rerender(<App descriptionB="B, updated" withC={false} />);
+    expect(mc.unregisterTool.mock.calls.map(([name]) => name).sort()).toEqual(["b", "c"]);
+    expect(mc.registerTool).toHaveBeenCalledTimes(1);
+    expect(mc.registerTool.mock.calls[0][0]).toMatchObject({
+      name: "b",
+      description: "B, updated",
+    });
+  });
+
+  it("calls the latest handler, validating input first", () => {
+    const mc = installMockModelContext();
+    const execute1 = vi.fn(() => "result1");
+    const execute2 = vi.fn(() => "result2");
+
+    function App({ executeFn }: { executeFn: () => unknown }) {
+      useWebMCPContext({ tools: [createToolConfig({ execute: executeFn })] });
+      return null;
+    }
+
+    const { rerender } = render(<App executeFn={execute1} />);
+    const registeredExecute = mc.registerTool.mock.calls[0][0].execute;
+    rerender(<App executeFn={execute2} />);
+
+    expect(registeredExecute({ query: "x" })).toBe("result2");
+    expect(execute2).toHaveBeenCalledWith({ query: "x" }, { signal: expect.any(AbortSignal) });
+    expect(registeredExecute({ query: false })).toMatchObject({ isError: true });
+    expect(execute1).not.toHaveBeenCalled();
+  });
+
+  it("switches to and from exclusive mode", () => {
+    const mc = installMockModelContext();
+
+    function App({ mode }: { mode?: "exclusive" }) {
+      useWebMCPContext({ mode, tools: [createToolConfig()] });
+      return null;
+    }
+
+    const { rerender } = render(<App />);
+    rerender(<App mode="exclusive" />);
+    expect(mc.unregisterTool).toHaveBeenCalledWith("test-tool");
+    expect(mc.provideContext).toHaveBeenCalledTimes(1);
+
+    rerender(<App />);
+    expect(mc.clearContext).toHaveBeenCalledTimes(1);
+    expect(mc.registerTool).toHaveBeenCalledTimes(2);
+  });
+
+  it("warns about duplicate names and registers the first", () => {
+    const mc = installMockModelContext();
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    function App() {
+      useWebMCPContext({
+        tools: [
+          createToolConfig({ description: "First" }),
+          createToolConfig({ description: "Second" }),
+        ],
+      });
+      return null;
+    }
+
+    render(<App />);
+    expect(mc.registerTool).toHaveBeenCalledTimes(1);
+    expect(mc.registerTool.mock.calls[0][0].description).toBe("First");
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("appears more than once"));
+    warnSpy.mockRestore();
+  });
+
+  it("keeps registering the other tools when one registration throws", () => {
+    const mc = installMockModelContext();
+    mc.registerTool.mockImplementationOnce(() => {
+      throw new DOMException("Duplicate", "InvalidStateError");
+    });
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    function App() {
+      useWebMCPContext({
+        tools: [createToolConfig({ name: "taken" }), createToolConfig({ name: "free" })],
+      });
+      return null;
+    }
+
+    const { unmount } = render(<App />);
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('"taken" is already registered'));
+    unmount();
+    expect(mc.unregisterTool.mock.calls.map(([name]) => name)).toEqual(["free"]);
+    warnSpy.mockRestore();
+  });
+});
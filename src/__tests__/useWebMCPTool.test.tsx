@@ -6,6 +6,7 @@ import {
   installMockModelContext,
   removeMockModelContext,
   createToolConfig,
+  createStandardSchema,
 } from "./helpers";
 
 describe("useWebMCPTool", () => {
@@ -142,12 +143,164 @@ describe("useWebMCPTool", () => {
     const registered = mc.registerTool.mock.calls[0][0];
 
     registered.execute({ query: "hello" });
-    expect(execute1).toHaveBeenCalledWith({ query: "hello" });
+    expect(execute1).toHaveBeenCalledWith({ query: "hello" }, { signal: expect.any(AbortSignal) });
     expect(execute2).not.toHaveBeenCalled();
 
     rerender(<App executeFn={execute2} />);
     registered.execute({ query: "world" });
-    expect(execute2).toHaveBeenCalledWith({ query: "world" });
+    expect(execute2).toHaveBeenCalledWith({ query: "world" }, { signal: expect.any(AbortSignal) });
+  });
+
+  it("returns an isError result without calling execute for invalid input", () => {
+    const mc = installMockModelContext();
+    const execute = vi.fn();
+
+    function App() {
+      useWebMCPTool(
+        createToolConfig({
+          inputSchema: {
+            type: "object",
+            properties: { query: { type: "string" } },
+            required: ["query"],
+          },
+          execute,
+        }),
+      );
+      return null;
+    }
+
+    render(<App />);
+    const registered = mc.registerTool.mock.calls[0][0];
+
+    const result = registered.execute({ query: 42 });
+    expect(execute).not.toHaveBeenCalled();
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("query: expected string, got integer.");
+
+    expect(registered.execute({}).content[0].text).toContain("query: is required.");
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it("skips input validation when validateInput is false", () => {
+    const mc = installMockModelContext();
+    const execute = vi.fn(() => "ran");
+
+    function App() {
+      useWebMCPTool(createToolConfig({ execute, validateInput: false }));
+      return null;
+    }
+
+    render(<App />);
+    const registered = mc.registerTool.mock.calls[0][0];
+    expect(registered.execute({ query: 42 })).toBe("ran");
+    expect(execute).toHaveBeenCalledWith({ query: 42 }, { signal: expect.any(AbortSignal) });
+  });
+
+  it("normalizes results when normalizeResult is set", async () => {
+    const mc = installMockModelContext();
+
+    function App({ execute }: { execute: () => unknown }) {
+      useWebMCPTool(createToolConfig({ execute, normalizeResult: true }));
+      return null;
+    }
+
+    const { rerender } = render(<App execute={() => "done"} />);
+    const registered = mc.registerTool.mock.calls[0][0];
+    expect(registered.execute({})).toEqual({
+      content: [{ type: "text", text: "done" }],
+    });
+
+    rerender(<App execute={async () => ({ id: 7 })} />);
+    await expect(registered.execute({})).resolves.toEqual({
+      content: [{ type: "json", json: { id: 7 } }],
+    });
+
+    rerender(
+      <App
+        execute={() => {
+          throw new Error("sync failure");
+        }}
+      />,
+    );
+    expect(registered.execute({})).toEqual({
+      content: [{ type: "text", text: "sync failure" }],
+      isError: true,
+    });
+
+    rerender(<App execute={() => Promise.reject(new Error("async failure"))} />);
+    await expect(registered.execute({})).resolves.toEqual({
+      content: [{ type: "text", text: "async failure" }],
+      isError: true,
+    });
+  });
+
+  it("returns raw handler results when normalizeResult is not set", () => {
+    const mc = installMockModelContext();
+
+    function App() {
+      useWebMCPTool(createToolConfig({ execute: () => ({ raw: true }) }));
+      return null;
+    }
+
+    render(<App />);
+    expect(mc.registerTool.mock.calls[0][0].execute({})).toEqual({ raw: true });
+  });
+
+  it("accepts a Standard Schema validator as inputSchema", async () => {
+    const mc = installMockModelContext();
+    const execute = vi.fn(() => "ok");
+    const validator = createStandardSchema(
+      (value) => {
+        const q = (value as { query?: unknown }).query;
+        return typeof q === "string"
+          ? { value: { query: q.trim() } }
+          : { issues: [{ message: "Expected string", path: ["query"] }] };
+      },
+      { type: "object", properties: { query: { type: "string" } }, required: ["query"] },
+    );
+
+    function App() {
+      useWebMCPTool(createToolConfig({ inputSchema: validator, execute }));
+      return null;
+    }
+
+    render(<App />);
+    const registered = mc.registerTool.mock.calls[0][0];
+    expect(registered.inputSchema).toEqual({
+      type: "object",
+      properties: { query: { type: "string" } },
+      required: ["query"],
+    });
+
+    expect(registered.execute({ query: 1 })).toEqual({
+      content: [
+        { type: "text", text: 'Invalid input for tool "test-tool":\n- query: Expected string' },
+      ],
+      isError: true,
+    });
+    expect(execute).not.toHaveBeenCalled();
+
+    // The handler receives the validator's parsed output
+    expect(registered.execute({ query: "  hi " })).toBe("ok");
+    expect(execute).toHaveBeenCalledWith({ query: "hi" }, { signal: expect.any(AbortSignal) });
+  });
+
+  it("awaits async Standard Schema validators", async () => {
+    const mc = installMockModelContext();
+    const execute = vi.fn(() => "ok");
+    const validator = createStandardSchema(
+      (value) => Promise.resolve({ value }),
+      { type: "object" },
+    );
+
+    function App() {
+      useWebMCPTool(createToolConfig({ inputSchema: validator, execute }));
+      return null;
+    }
+
+    render(<App />);
+    await expect(mc.registerTool.mock.calls[0][0].execute({ a: 1 })).resolves.toBe("ok");
+    expect(execute).toHaveBeenCalledWith({ a: 1 }, { signal: expect.any(AbortSignal) });
   });
 
   it("does NOT re-register when inline schema objects have same values", () => {
@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import { validateInput, invalidInputResult } from "../utils/validateInput";
+import type { JSONSchema } from "../types";
+
+describe("validateInput", () => {
+  const schema: JSONSchema = {
+    type: "object",
+    properties: {
+      origin: { type: "string", pattern: "^[A-Z]{3}$" },
+      name: { type: "string", minLength: 2, maxLength: 5 },
+      passengers: { type: "integer", minimum: 1, maximum: 9 },
+      price: { type: "number" },
+      direct: { type: "boolean" },
+      cabin: { type: "string", enum: ["economy", "business"] },
+      seat: {
+        type: "string",
+        oneOf: [
+          { const: "aisle", title: "Aisle" },
+          { const: "window", title: "Window" },
+        ],
+      },
+      tags: { type: "array", items: { type: "string" } },
+      contact: {
+        type: "object",
+        properties: { email: { type: "string" } },
+        required: ["email"],
+      },
+    },
+    required: ["origin"],
+  };
+
+  it("returns no issues for valid input", () => {
+    expect(
+      validateInput(schema, {
+        origin: "LAX",
+        name: "Ann",
+        passengers: 2,
+        price: 99.5,
+        direct: true,
+        cabin: "economy",
+        seat: "window",
+        tags: ["a", "b"],
+        contact: { email: "a@b.c" },
+        extra: "ignored",
+      }),
+    ).toEqual([]);
+  });
+
+  it("reports missing required properties", () => {
+    expect(validateInput(schema, {})).toEqual([
+      { path: "origin", message: "origin: is required." },
+    ]);
+  });
+
+  it("treats missing input as an empty object", () => {
+    expect(validateInput(schema, undefined)).toHaveLength(1);
+    expect(validateInput({ type: "object", properties: {} }, undefined)).toEqual([]);
+  });
+
+  it("reports type mismatches", () => {
+    const issues = validateInput(schema, {
+      origin: "LAX",
+      price: "12",
+      direct: "yes",
+      passengers: 1.5,
+    });
+    expect(issues.map((i) => i.message)).toEqual([
+      "passengers: expected integer, got number.",
+      "price: expected number, got string.",
+      "direct: expected boolean, got string.",
+    ]);
+  });
+
+  it("accepts type arrays and null from schemas it does not model", () => {
+    // Shaped like a schema listed by a remote MCP server.
+    const remote = {
+      type: "object",
+      properties: {
+        note: { type: ["string", "null"], maxLength: 3 },
+        when: { type: "date-time" },
+      },
+    } as unknown as JSONSchema;
+    expect(validateInput(remote, { note: null, when: 5 })).toEqual([]);
+    expect(validateInput(remote, { note: "ok" })).toEqual([]);
+    expect(validateInput(remote, { note: "long" })[0].message).toContain("at most 3");
+    expect(validateInput(remote, { note: 1 })).toEqual([
+      { path: "note", message: "note: expected string or null, got integer." },
+    ]);
+  });
+
+  it("checks pattern, minLength and maxLength", () => {
+    expect(validateInput(schema, { origin: "lax" })[0].message).toContain("pattern");
+    expect(validateInput(schema, { origin: "LAX", name: "A" })[0].message).toContain(
+      "at least 2",
+    );
+    expect(
+      validateInput(schema, { origin: "LAX", name: "Abcdef" })[0].message,
+    ).toContain("at most 5");
+  });
+
+  it("checks minimum and maximum", () => {
+    expect(validateInput(schema, { origin: "LAX", passengers: 0 })[0].path).toBe(
+      "passengers",
+    );
+    expect(validateInput(schema, { origin: "LAX", passengers: 10 })).toHaveLength(1);
+  });
+
+  it("checks enum and oneOf", () => {
+    expect(validateInput(schema, { origin: "LAX", cabin: "first" })[0].message).toBe(
+      'cabin: must be one of "economy", "business".',
+    );
+    expect(validateInput(schema, { origin: "LAX", seat: "middle" })[0].message).toBe(
+      'seat: must be one of "aisle", "window".',
+    );
+  });
+
+  it("validates nested items and properties", () => {
+    const issues = validateInput(schema, {
+      origin: "LAX",
+      tags: ["ok", 3],
+      contact: {},
+    });
+    expect(issues.map((i) => i.path)).toEqual(["tags[1]", "contact.email"]);
+  });
+
+  it("rejects a non-object root", () => {
+    expect(validateInput(schema, "LAX")).toEqual([
+      { path: "", message: "input: expected object, got string." },
+    ]);
+  });
+
+  it("accepts anything for an empty schema", () => {
+    expect(validateInput({}, { anything: 1 })).toEqual([]);
+    expect(validateInput(undefined, 42)).toEqual([]);
+  });
+
+  it("ignores invalid regex patterns", () => {
+    expect(
+      validateInput({ type: "object", properties: { q: { type: "string", pattern: "(" } } }, {
+        q: "x",
+      }),
+    ).toEqual([]);
+  });
+});
+
+describe("invalidInputResult", () => {
+  it("builds an isError result listing every issue", () => {
+    const result = invalidInputResult("search", [
+      { path: "a", message: "a: is required." },
+      { path: "b", message: "b: expected number, got string." },
+    ]);
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([
+      {
+        type: "text",
+        text: 'Invalid input for tool "search":\n- a: is required.\n- b: expected number, got string.',
+      },
+    ]);
+  });
+});
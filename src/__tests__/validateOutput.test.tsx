@@ -0,0 +1,125 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import React from "react";
+import { render, cleanup } from "@testing-library/react";
+import { validateOutput } from "../utils/validateOutput";
+import { jsonResult, textResult, errorResult } from "../utils/toolResult";
+import { useWebMCPTool } from "../hooks/useWebMCPTool";
+import { useWebMCPContext } from "../hooks/useWebMCPContext";
+import { WebMCPTool } from "../adapters/WebMCPTool";
+import type { JSONSchema } from "../types";
+import {
+  installMockModelContext,
+  removeMockModelContext,
+  createToolConfig,
+} from "./helpers";
+
+const outputSchema: JSONSchema = {
+  type: "object",
+  properties: { total: { type: "number" } },
+  required: ["total"],
+};
+
+describe("validateOutput", () => {
+  it("checks plain values", () => {
+    expect(validateOutput(outputSchema, { total: 3 })).toEqual([]);
+    expect(validateOutput(outputSchema, { total: "3" })).toEqual([
+      { path: "total", message: "total: expected number, got string." },
+    ]);
+    expect(validateOutput(outputSchema, undefined)).toEqual([
+      { path: "", message: "output: expected object, got undefined." },
+    ]);
+  });
+
+  it("checks the JSON block of a ToolResult and skips errors", () => {
+    expect(validateOutput(outputSchema, jsonResult({ total: 3 }))).toEqual([]);
+    expect(validateOutput(outputSchema, jsonResult({}))).toEqual([
+      { path: "total", message: "total: is required." },
+    ]);
+    expect(validateOutput(outputSchema, textResult("3"))).toHaveLength(1);
+    expect(validateOutput(outputSchema, errorResult("failed"))).toEqual([]);
+  });
+
+  it("accepts anything without a schema", () => {
+    expect(validateOutput(undefined, "anything")).toEqual([]);
+  });
+});
+
+describe("output validation in the registration paths", () => {
+  afterEach(() => {
+    cleanup();
+    removeMockModelContext();
+    vi.restoreAllMocks();
+  });
+
+  function Tool({ result, strict }: { result: unknown; strict?: boolean }) {
+    useWebMCPTool(createToolConfig({ outputSchema, strict, execute: () => result }));
+    return null;
+  }
+
+  it("warns when a useWebMCPTool result does not match", async () => {
+    const mc = installMockModelContext();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    render(<Tool result={Promise.resolve({ total: "12" })} />);
+
+    await expect(mc.registerTool.mock.calls[0][0].execute({})).resolves.toEqual({ total: "12" });
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Tool "test-tool" returned a result that does not match its outputSchema:\n- total: expected number',
+      ),
+    );
+  });
+
+  it("stays quiet when the result matches", () => {
+    const mc = installMockModelContext();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    render(<Tool result={{ total: 12 }} />);
+    mc.registerTool.mock.calls[0][0].execute({});
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("throws under strict", () => {
+    const mc = installMockModelContext();
+    render(<Tool result={{}} strict />);
+    expect(() => mc.registerTool.mock.calls[0][0].execute({})).toThrow(/total: is required/);
+  });
+
+  it("checks the raw result before normalizeResult wraps it", () => {
+    const mc = installMockModelContext();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    function Normalized() {
+      useWebMCPTool(
+        createToolConfig({ outputSchema, normalizeResult: true, execute: () => ({ total: false }) }),
+      );
+      return null;
+    }
+    render(<Normalized />);
+    expect(mc.registerTool.mock.calls[0][0].execute({})).toEqual(jsonResult({ total: false }));
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("total: expected number, got boolean."));
+  });
+
+  it("checks useWebMCPContext tools", () => {
+    const mc = installMockModelContext();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    function Tools() {
+      useWebMCPContext({
+        tools: [createToolConfig({ name: "sum", outputSchema, execute: () => textResult("12") })],
+      });
+      return null;
+    }
+    render(<Tools />);
+    mc.registerTool.mock.calls[0][0].execute({});
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Tool "sum" returned a result'));
+  });
+
+  it("registers and checks the outputSchema of WebMCP.Tool", () => {
+    const mc = installMockModelContext();
+    render(
+      <WebMCPTool name="sum" description="Sum" outputSchema={outputSchema} strict onExecute={() => ({})}>
+        <input name="a" type="number" />
+      </WebMCPTool>,
+    );
+    const registered = mc.registerTool.mock.calls[0][0];
+    expect(registered.outputSchema).toEqual(outputSchema);
+    expect(() => registered.execute({ a: 1 })).toThrow(/does not match its outputSchema/);
+  });
+});
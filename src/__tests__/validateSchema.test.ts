@@ -23,6 +23,16 @@ describe("validateSchema", () => {
     );
   });
 
+  it("checks the options of a checkbox group as strings", () => {
+    validateSchema([
+      { name: "toppings", type: "checkbox", multiple: true, enumValues: ["ham", "olives"] },
+    ]);
+    expect(warnSpy).not.toHaveBeenCalled();
+
+    validateSchema([{ name: "agree", type: "checkbox", enumValues: ["yes"] }]);
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('enum value "yes" is not a boolean'));
+  });
+
   it("warns on pattern used with non-string type", () => {
     validateSchema([{ name: "count", type: "number", pattern: "^\\d+$" }]);
 
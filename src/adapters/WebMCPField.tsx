@@ -9,6 +9,8 @@ import { useRegisterField } from "./useRegisterField";
 export interface WebMCPFieldProps extends Omit<FieldDefinition, "name"> {
   /** Field name — must be unique within the parent `WebMCP.Tool`. */
   name: string;
+  /** Called with each value an agent fills into the field (agent-fill mode). */
+  onAgentFill?: (value: unknown) => void;
   children: React.ReactNode;
 }
 
@@ -35,6 +37,7 @@ export interface WebMCPFieldProps extends Omit<FieldDefinition, "name"> {
 export function WebMCPField({
   children,
   name,
+  onAgentFill,
   ...rest
 }: WebMCPFieldProps) {
   const field: FieldDefinition = { name, ...rest };
@@ -48,7 +51,7 @@ export function WebMCPField({
     }
   }
 
-  useRegisterField(field);
+  useRegisterField(field, { onAgentFill });
 
   return <>{children}</>;
 }
@@ -1,27 +1,99 @@
-import React, { useEffect, useRef } from "react";
-import type { ToolAnnotations } from "../types";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type {
+  InferStandardOutput,
+  JSONSchema,
+  JSONSchemaProperty,
+  RateLimit,
+  StandardSchemaV1,
+  ToolAnnotations,
+  ToolExecuteContext,
+} from "../types";
 import type { FieldDefinition } from "./types";
 import { useSchemaCollector, ToolContext } from "./useSchemaCollector";
+import { createAgentFillChannel } from "./agentFill";
+import { useDomSchema } from "./useDomSchema";
 import { useWebMCPTool } from "../hooks/useWebMCPTool";
+import { errorResult } from "../utils/toolResult";
+import { pauseCallTimeout, withValidInput } from "../utils/createExecute";
 
 /**
  * Props for the `WebMCP.Tool` component.
  */
-export interface WebMCPToolProps {
+export interface WebMCPToolProps<
+  TSchema extends StandardSchemaV1 | undefined = undefined,
+> {
   /** Unique tool name exposed to AI agents. */
   name: string;
   /** Human-readable description of what this tool does. */
   description: string;
+  /**
+   * Optional Standard Schema validator (e.g. a Zod schema). When given, it
+   * replaces the schema collected from children for registration, validates
+   * agent input, and types `onExecute`.
+   */
+  inputSchema?: TSchema;
+  /**
+   * Read the schema from the form controls rendered inside this element
+   * (see `useDomSchema`) instead of from the React children. `fields`
+   * overrides still apply. Ignored when `inputSchema` is given.
+   */
+  schemaRef?: React.RefObject<HTMLElement | null>;
   /** Handler called when an AI agent invokes this tool. */
-  onExecute: (input: Record<string, unknown>) => unknown | Promise<unknown>;
+  onExecute: (
+    input: [TSchema] extends [StandardSchemaV1]
+      ? InferStandardOutput<TSchema>
+      : Record<string, unknown>,
+    context: ToolExecuteContext,
+  ) => unknown | Promise<unknown>;
+  /**
+   * Optional JSON Schema for the value `onExecute` returns. In development,
+   * results are checked against it.
+   */
+  outputSchema?: JSONSchema | JSONSchemaProperty;
   /** Optional field overrides / enrichment keyed by field name. */
   fields?: Record<string, Partial<FieldDefinition>>;
-  /** When true, schema validation issues throw instead of warn. */
+  /**
+   * When true, schema validation issues and results that do not match
+   * `outputSchema` throw instead of warn.
+   */
   strict?: boolean;
-  /** If true, the tool auto-submits when filled by an agent. */
+  /**
+   * Agent-fill mode: push the agent's input into the fields (see
+   * `useAgentFill` and `onAgentFill`) and wait for the user to submit it
+   * with `useAgentSubmit` before `onExecute` runs. Submitted values are
+   * validated against the schema again, and `timeoutMs` does not count
+   * the time spent waiting. Calls are refused at once when no
+   * `useAgentSubmit` is mounted inside the tool.
+   */
+  agentFill?: boolean;
+  /**
+   * If true, the tool fills the fields with the agent's input and runs
+   * `onExecute` without waiting for the user. Implies agent-fill mode.
+   */
   autoSubmit?: boolean;
   /** Optional metadata hints for agents. */
   annotations?: ToolAnnotations;
+  /** Wrap `onExecute` return values and errors in a `ToolResult` envelope. */
+  normalizeResult?: boolean;
+  /**
+   * Wait for user approval before `onExecute` runs. Defaults to
+   * `annotations.destructiveHint`.
+   */
+  requireConfirmation?: boolean;
+  /** Abort `onExecute` and answer the agent with a timeout after this many ms. */
+  timeoutMs?: number;
+  /** Maximum number of concurrent `onExecute` calls. */
+  maxConcurrent?: number;
+  /** Queue (default) or reject calls over `maxConcurrent`. */
+  concurrencyMode?: "queue" | "reject";
+  /** Token-bucket rate limit for agent calls. */
+  rateLimit?: RateLimit;
+  /** How long results are reused when `annotations.cache` is set, in ms. */
+  cacheTtlMs?: number;
+  /** Run calls in one leader tab (`"leader"`) or register per-tab names (`"scoped"`). */
+  tabMode?: "leader" | "scoped";
+  /** Tools sharing a `tabGroup` share a leader tab. Defaults to `name`. */
+  tabGroup?: string;
   /** Called when a `toolactivated` event fires for this tool. */
   onToolActivated?: (toolName: string) => void;
   /** Called when a `toolcancel` event fires for this tool. */
@@ -35,7 +107,14 @@ export interface WebMCPToolProps {
  *
  * Fields are auto-detected from child components (e.g. `<Input name="email" />`),
  * enriched via the `fields` prop, and can be overridden by descendant
- * components using `useRegisterField`.
+ * components using `useRegisterField`. Pass a Standard Schema validator as
+ * `inputSchema` to register and validate against it instead, or a
+ * `schemaRef` to derive the schema from the rendered DOM controls.
+ *
+ * With `agentFill`, an agent call first shows the agent's input in the
+ * fields (`useAgentFill`, `onAgentFill`) and then waits for the user to
+ * review and submit it (`useAgentSubmit`), validating what the user
+ * submits; with `autoSubmit`, `onExecute` runs right after the fill.
  *
  * @example
  * ```tsx
@@ -54,33 +133,99 @@ export interface WebMCPToolProps {
  * </WebMCPTool>
  * ```
  */
-export function WebMCPTool({
+export function WebMCPTool<
+  TSchema extends StandardSchemaV1 | undefined = undefined,
+>({
   name,
   description,
+  inputSchema,
+  schemaRef,
+  outputSchema,
   onExecute,
   fields: fieldsProp,
   strict,
+  agentFill,
   autoSubmit,
   annotations,
+  normalizeResult,
+  requireConfirmation,
+  timeoutMs,
+  maxConcurrent,
+  concurrencyMode,
+  rateLimit,
+  cacheTtlMs,
+  tabMode,
+  tabGroup,
   onToolActivated,
   onToolCancel,
   children,
-}: WebMCPToolProps) {
+}: WebMCPToolProps<TSchema>) {
   const { schema, registerField, unregisterField } = useSchemaCollector({
     children,
     fields: fieldsProp,
     strict,
   });
+  const unusedRef = useRef<HTMLElement>(null);
+  const domSchema = useDomSchema(schemaRef ?? unusedRef, {
+    fields: fieldsProp,
+    enabled: schemaRef !== undefined && inputSchema === undefined,
+  });
 
   const executeRef = useRef(onExecute);
   executeRef.current = onExecute;
+  const nameRef = useRef(name);
+  nameRef.current = name;
+  const fillModeRef = useRef({ agentFill, autoSubmit });
+  fillModeRef.current = { agentFill, autoSubmit };
+
+  const [channel] = useState(() => createAgentFillChannel(() => nameRef.current));
+  const toolContext = useMemo(
+    () => ({ registerField, unregisterField, agentFill: channel }),
+    [registerField, unregisterField, channel],
+  );
+
+  const toolSchema = inputSchema ?? (schemaRef ? domSchema : null) ?? schema;
 
   useWebMCPTool({
     name,
     description,
-    inputSchema: schema,
+    inputSchema: toolSchema,
+    outputSchema,
     annotations,
-    execute: (input) => executeRef.current(input),
+    normalizeResult,
+    strict,
+    requireConfirmation,
+    timeoutMs,
+    maxConcurrent,
+    concurrencyMode,
+    rateLimit,
+    cacheTtlMs,
+    tabMode,
+    tabGroup,
+    owner: "WebMCP.Tool",
+    execute: (input, context) => {
+      const mode = fillModeRef.current;
+      if (!mode.agentFill && !mode.autoSubmit) {
+        return executeRef.current(input as never, context);
+      }
+      const values = input as Record<string, unknown>;
+      channel.fill(values);
+      if (mode.autoSubmit) {
+        return executeRef.current(input as never, context);
+      }
+      // The user's review time does not count against `timeoutMs`.
+      const resumeTimeout = pauseCallTimeout(context.signal);
+      return channel.waitForSubmit(values, context.signal).then((outcome) => {
+        resumeTimeout();
+        if (!outcome.submitted) {
+          return errorResult(outcome.reason);
+        }
+        // The user may have edited the values, so validate them again.
+        return withValidInput({ name, inputSchema: toolSchema }, outcome.input, (valid) =>
+          executeRef.current(valid as never, context),
+        );
+      });
+    },
   });
 
   // Listen for toolactivated / toolcancel events (same pattern as WebMCPForm)
@@ -116,7 +261,7 @@ export function WebMCPTool({
   }, [name, onToolActivated, onToolCancel]);
 
   return (
-    <ToolContext.Provider value={{ registerField, unregisterField }}>
+    <ToolContext.Provider value={toolContext}>
       {children}
     </ToolContext.Provider>
   );
@@ -0,0 +1,114 @@
+import type { AgentFillChannel, AgentSubmitOutcome } from "./types";
+
+interface PendingCall {
+  input: Record<string, unknown>;
+  settle: (outcome: AgentSubmitOutcome) => void;
+}
+
+/**
+ * Create the agent fill channel of a `WebMCP.Tool`. `getToolName` is read
+ * when a call is declined, for the agent-facing reason.
+ */
+export function createAgentFillChannel(getToolName: () => string): AgentFillChannel {
+  const fieldListeners = new Map<string, Set<(value: unknown) => void>>();
+  const pendingListeners = new Set<() => void>();
+  let pending: PendingCall | null = null;
+
+  const setPending = (next: PendingCall | null) => {
+    pending = next;
+    for (const listener of pendingListeners) listener();
+  };
+
+  // Settle the waiting call, if any, and clear it.
+  const settle = (outcome: AgentSubmitOutcome): boolean => {
+    const call = pending;
+    if (!call) return false;
+    setPending(null);
+    call.settle(outcome);
+    return true;
+  };
+
+  return {
+    subscribeField(name, listener) {
+      let listeners = fieldListeners.get(name);
+      if (!listeners) {
+        listeners = new Set();
+        fieldListeners.set(name, listeners);
+      }
+      const current = listeners;
+      current.add(listener);
+      return () => {
+        current.delete(listener);
+        if (current.size === 0 && fieldListeners.get(name) === current) {
+          fieldListeners.delete(name);
+        }
+      };
+    },
+
+    fill(input) {
+      for (const [name, value] of Object.entries(input)) {
+        for (const listener of Array.from(fieldListeners.get(name) ?? [])) {
+          listener(value);
+        }
+      }
+    },
+
+    waitForSubmit(input, signal) {
+      settle({ submitted: false, reason: `Superseded by a newer call to "${getToolName()}".` });
+      // Nobody renders useAgentSubmit(), so the call would wait forever.
+      // Refuse it straight away instead.
+      if (pendingListeners.size === 0) {
+        if (process.env.NODE_ENV !== "production") {
+          console.warn(
+            `[react-webmcp] Tool "${getToolName()}" uses agentFill, but no ` +
+              `useAgentSubmit() is mounted inside it. The call was refused.`,
+          );
+        }
+        return Promise.resolve<AgentSubmitOutcome>({
+          submitted: false,
+          reason: `No submit prompt is available for "${getToolName()}".`,
+        });
+      }
+      return new Promise<AgentSubmitOutcome>((resolve) => {
+        if (signal.aborted) {
+          resolve({ submitted: false, reason: "Cancelled." });
+          return;
+        }
+        const onAbort = () => {
+          if (pending === call) settle({ submitted: false, reason: "Cancelled." });
+        };
+        const call: PendingCall = {
+          input,
+          settle: (outcome) => {
+            signal.removeEventListener("abort", onAbort);
+            resolve(outcome);
+          },
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+        setPending(call);
+      });
+    },
+
+    getPending: () => pending?.input ?? null,
+
+    subscribePending(listener) {
+      pendingListeners.add(listener);
+      return () => {
+        pendingListeners.delete(listener);
+      };
+    },
+
+    submit(values) {
+      const call = pending;
+      if (!call) return false;
+      return settle({ submitted: true, input: values ?? call.input });
+    },
+
+    decline(reason) {
+      return settle({
+        submitted: false,
+        reason: reason ?? `The user declined to submit "${getToolName()}".`,
+      });
+    },
+  };
+}
@@ -25,12 +25,28 @@ export function mapHtmlTypeToSchemaType(
   }
 }
 
+/**
+ * The JSON Schema type of a single value of `field`: the mapped HTML type,
+ * except that the options of a checkbox group are strings.
+ *
+ * @example
+ * ```ts
+ * fieldValueType({ name: "agree", type: "checkbox" }); // "boolean"
+ * fieldValueType({ name: "toppings", type: "checkbox", multiple: true }); // "string"
+ * ```
+ */
+export function fieldValueType(field: FieldDefinition): "string" | "number" | "boolean" {
+  if (field.multiple && field.type === "checkbox") return "string";
+  return mapHtmlTypeToSchemaType(field.type);
+}
+
 /**
  * Build a deterministic JSON Schema from an array of field definitions.
  *
  * Property names are sorted alphabetically and the `required` array is
  * also sorted, ensuring identical output regardless of field insertion
- * order.
+ * order. Fields with `multiple` become `type: "array"` properties whose
+ * `items` carry the value constraints and options.
  *
  * @example
  * ```ts
@@ -47,29 +63,31 @@ export function buildInputSchema(fields: FieldDefinition[]): JSONSchema {
   const sortedFields = [...fields].sort((a, b) => a.name.localeCompare(b.name));
 
   for (const field of sortedFields) {
-    const prop: JSONSchemaProperty = {
-      type: mapHtmlTypeToSchemaType(field.type),
+    const value: JSONSchemaProperty = {
+      type: fieldValueType(field),
     };
 
-    if (field.title) prop.title = field.title;
-    if (field.description) prop.description = field.description;
-    if (field.min !== undefined) prop.minimum = field.min;
-    if (field.max !== undefined) prop.maximum = field.max;
-    if (field.minLength !== undefined) prop.minLength = field.minLength;
-    if (field.maxLength !== undefined) prop.maxLength = field.maxLength;
-    if (field.pattern) prop.pattern = field.pattern;
+    if (field.min !== undefined) value.minimum = field.min;
+    if (field.max !== undefined) value.maximum = field.max;
+    if (field.minLength !== undefined) value.minLength = field.minLength;
+    if (field.maxLength !== undefined) value.maxLength = field.maxLength;
+    if (field.pattern) value.pattern = field.pattern;
 
     if (field.enumValues && field.enumValues.length > 0) {
-      prop.enum = field.enumValues;
+      value.enum = field.enumValues;
     }
 
     if (field.oneOf && field.oneOf.length > 0) {
-      prop.oneOf = field.oneOf.map((opt) => ({
+      value.oneOf = field.oneOf.map((opt) => ({
         const: opt.value,
         title: opt.label,
       }));
     }
 
+    const prop: JSONSchemaProperty = field.multiple ? { type: "array", items: value } : value;
+    if (field.title) prop.title = field.title;
+    if (field.description) prop.description = field.description;
+
     properties[field.name] = prop;
 
     if (field.required) {
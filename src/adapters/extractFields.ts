@@ -5,8 +5,9 @@ import type { FieldDefinition } from "./types";
  * Recursively extract option values from React children.
  *
  * Detects elements that have a `value` prop (e.g. `<MenuItem value="low">Low</MenuItem>`)
- * and collects `{ value, label }` pairs. The label is derived from string children
- * or falls back to `String(value)`.
+ * and collects `{ value, label }` pairs. The label is derived from a string `label`
+ * prop (e.g. MUI's `FormControlLabel`), then string children, and falls back to
+ * `String(value)`.
  *
  * @example
  * ```tsx
@@ -33,7 +34,9 @@ export function extractOptions(
       const value = props.value as string | number | boolean;
       let label: string;
 
-      if (typeof props.children === "string") {
+      if (typeof props.label === "string") {
+        label = props.label;
+      } else if (typeof props.children === "string") {
         label = props.children;
       } else {
         label = String(value);
@@ -50,31 +53,39 @@ export function extractOptions(
   return results;
 }
 
-/**
- * Recursively extract field definitions from a React children tree.
- *
- * Walks the tree using `React.Children.toArray` (safe, pure traversal).
- * Detects field names from `props.name`, `props.inputProps.name`, or
- * `props.slotProps.input.name`. When a named element is found, it builds
- * a `FieldDefinition` from its props and auto-detects enum values from
- * its children. Elements without a name are recursed into.
- *
- * @example
- * ```tsx
- * const fields = extractFields(
- *   <>
- *     <Input name="email" type="email" required />
- *     <Select name="priority">
- *       <MenuItem value="low">Low</MenuItem>
- *       <MenuItem value="high">High</MenuItem>
- *     </Select>
- *   </>
- * );
- * ```
- */
-export function extractFields(children: React.ReactNode): FieldDefinition[] {
-  const fields: FieldDefinition[] = [];
+// ---------------------------------------------------------------------------
+// Field extraction
+// ---------------------------------------------------------------------------
+
+/** A named element found in the tree, before grouping. */
+interface NamedElement {
+  field: FieldDefinition;
+  id?: string;
+  value?: string | number | boolean;
+  /** Text of the `<label>` (or `FormControlLabel`) wrapping the element. */
+  label?: string;
+}
 
+/** The string content of `children`, skipping named (field) elements. */
+function textOf(children: React.ReactNode): string {
+  let text = "";
+  React.Children.toArray(children).forEach((child) => {
+    if (typeof child === "string" || typeof child === "number") {
+      text += ` ${child}`;
+    } else if (React.isValidElement(child)) {
+      const props = child.props as Record<string, unknown>;
+      if (props.name === undefined) text += ` ${textOf(props.children as React.ReactNode)}`;
+    }
+  });
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function collect(
+  children: React.ReactNode,
+  label: string | undefined,
+  found: NamedElement[],
+  labelsFor: Map<string, string>,
+): void {
   React.Children.toArray(children).forEach((child) => {
     if (!React.isValidElement(child)) return;
 
@@ -99,6 +110,7 @@ export function extractFields(children: React.ReactNode): FieldDefinition[] {
       if (props.minLength !== undefined) field.minLength = Number(props.minLength);
       if (props.maxLength !== undefined) field.maxLength = Number(props.maxLength);
       if (props.pattern !== undefined) field.pattern = props.pattern as string;
+      if (props.multiple) field.multiple = true;
 
       if (props.children) {
         const options = extractOptions(props.children as React.ReactNode);
@@ -108,11 +120,111 @@ export function extractFields(children: React.ReactNode): FieldDefinition[] {
         }
       }
 
-      fields.push(field);
-    } else if (props.children) {
-      fields.push(...extractFields(props.children as React.ReactNode));
+      found.push({
+        field,
+        id: props.id as string | undefined,
+        value: props.value as string | number | boolean | undefined,
+        label,
+      });
+      return;
+    }
+
+    if (child.type === "label") {
+      const text = textOf(props.children as React.ReactNode);
+      if (typeof props.htmlFor === "string" && text) labelsFor.set(props.htmlFor, text);
+      collect(props.children as React.ReactNode, text || label, found, labelsFor);
+      return;
+    }
+
+    // e.g. MUI's <FormControlLabel control={<Checkbox name="x" />} label="X" />
+    if (React.isValidElement(props.control)) {
+      const text = typeof props.label === "string" ? props.label : label;
+      collect(props.control, text, found, labelsFor);
+    }
+
+    if (props.children) {
+      collect(props.children as React.ReactNode, label, found, labelsFor);
     }
   });
+}
+
+/**
+ * Merge same-name radios into one string field, and same-name checkboxes
+ * into one array field, with their values and labels as options.
+ */
+function groupChoices(found: NamedElement[], labelsFor: Map<string, string>): FieldDefinition[] {
+  const byName = new Map<string, NamedElement[]>();
+  for (const entry of found) {
+    const group = byName.get(entry.field.name);
+    if (group) group.push(entry);
+    else byName.set(entry.field.name, [entry]);
+  }
+
+  const fields: FieldDefinition[] = [];
+  for (const [name, group] of byName) {
+    const type = group[0].field.type;
+    const radios = type === "radio" && group.every((e) => e.field.type === "radio");
+    const checkboxes =
+      group.length > 1 && type === "checkbox" && group.every((e) => e.field.type === "checkbox");
+
+    if (!radios && !checkboxes) {
+      fields.push(...group.map((e) => e.field));
+      continue;
+    }
 
+    const options = group.map((e) => {
+      // Radios and checkboxes without a value submit "on".
+      const value = e.value ?? "on";
+      const label = e.label ?? (e.id ? labelsFor.get(e.id) : undefined) ?? String(value);
+      return { value, label };
+    });
+    const field: FieldDefinition = {
+      name,
+      type,
+      enumValues: options.map((o) => o.value),
+      oneOf: options,
+    };
+    if (checkboxes) field.multiple = true;
+    if (group.some((e) => e.field.required)) field.required = true;
+    fields.push(field);
+  }
   return fields;
 }
+
+/**
+ * Recursively extract field definitions from a React children tree.
+ *
+ * Walks the tree using `React.Children.toArray` (safe, pure traversal).
+ * Detects field names from `props.name`, `props.inputProps.name`, or
+ * `props.slotProps.input.name`. When a named element is found, it builds
+ * a `FieldDefinition` from its props and auto-detects enum values from
+ * its children. Elements without a name are recursed into, as is the
+ * `control` element of a `FormControlLabel`-like component.
+ *
+ * Radios sharing a name become one string field, and several checkboxes
+ * sharing a name one `multiple` field, with each element's `value` as an
+ * option labelled by its wrapping `<label>`, a `<label htmlFor>` pointing
+ * at its `id`, or its `FormControlLabel`'s `label`. `multiple` is also
+ * read from `<select multiple>`.
+ *
+ * @example
+ * ```tsx
+ * const fields = extractFields(
+ *   <>
+ *     <Input name="email" type="email" required />
+ *     <Select name="priority">
+ *       <MenuItem value="low">Low</MenuItem>
+ *       <MenuItem value="high">High</MenuItem>
+ *     </Select>
+ *     <label><input type="radio" name="size" value="s" /> Small</label>
+ *     <label><input type="radio" name="size" value="l" /> Large</label>
+ *   </>
+ * );
+ * ```
+ */
+export function extractFields(children: React.ReactNode): FieldDefinition[] {
+  const found: NamedElement[] = [];
+  const labelsFor = new Map<string, string>();
+  collect(children, undefined, found, labelsFor);
+  return groupChoices(found, labelsFor);
+}
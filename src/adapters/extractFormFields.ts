@@ -0,0 +1,175 @@
+import type { FieldDefinition } from "./types";
+
+/** A form control that can carry a tool parameter. */
+export type FormControl = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+// Input types that never carry a tool parameter.
+const SKIPPED_INPUT_TYPES = new Set(["button", "submit", "reset", "image", "file", "hidden"]);
+
+/**
+ * Returns the enabled, named controls inside `root` that can carry a tool
+ * parameter, in document order. For a `<form>`, this includes controls
+ * associated through their `form` attribute. Buttons, hidden and file
+ * inputs are skipped.
+ */
+export function getFormControls(root: HTMLElement): FormControl[] {
+  const elements =
+    root instanceof HTMLFormElement ? root.elements : root.querySelectorAll("input, select, textarea");
+  return Array.from(elements).filter((el): el is FormControl => {
+    if (
+      !(el instanceof HTMLInputElement) &&
+      !(el instanceof HTMLSelectElement) &&
+      !(el instanceof HTMLTextAreaElement)
+    ) {
+      return false;
+    }
+    if (!el.name || el.disabled) return false;
+    return !(el instanceof HTMLInputElement && SKIPPED_INPUT_TYPES.has(el.type));
+  });
+}
+
+/**
+ * Returns the tool parameter name of a form control: its `toolparamtitle`
+ * attribute, which overrides the property key as in the declarative API,
+ * or its `name`.
+ */
+export function getControlKey(control: FormControl): string {
+  return control.getAttribute("toolparamtitle") || control.name;
+}
+
+function numberAttribute(control: FormControl, attribute: string): number | undefined {
+  const raw = control.getAttribute(attribute);
+  if (raw === null || raw === "") return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+// The text of an element without the text of the controls inside it, so a
+// wrapping `<label>` does not pick up its `<select>`'s options.
+function ownText(element: Element): string {
+  const clone = element.cloneNode(true) as Element;
+  clone.querySelectorAll("input, select, textarea, button").forEach((node) => node.remove());
+  return (clone.textContent ?? "").replace(/\s+/g, " ").trim();
+}
+
+function labelText(control: FormControl): string {
+  return Array.from(control.labels ?? [])
+    .map(ownText)
+    .filter(Boolean)
+    .join(" ");
+}
+
+function describedByText(control: FormControl): string {
+  const ids = (control.getAttribute("aria-describedby") ?? "").split(/\s+/).filter(Boolean);
+  return ids
+    .map((id) => control.ownerDocument.getElementById(id))
+    .map((element) => (element ? ownText(element) : ""))
+    .filter(Boolean)
+    .join(" ");
+}
+
+function controlToField(control: FormControl): FieldDefinition {
+  const field: FieldDefinition = { name: getControlKey(control) };
+  const title = labelText(control);
+  if (title) field.title = title;
+  const description = control.getAttribute("toolparamdescription") || describedByText(control);
+  if (description) field.description = description;
+  if (control.required) field.required = true;
+
+  if (control instanceof HTMLSelectElement) {
+    if (control.multiple) field.multiple = true;
+    // Placeholder options (empty value) are not offered to the agent.
+    const options = Array.from(control.options).filter((o) => o.value !== "");
+    if (options.length > 0) {
+      field.oneOf = options.map((o) => ({ value: o.value, label: o.text.trim() || o.value }));
+    }
+    return field;
+  }
+
+  if (control instanceof HTMLInputElement) {
+    field.type = control.type;
+    if (control.type === "number" || control.type === "range") {
+      field.min = numberAttribute(control, "min");
+      field.max = numberAttribute(control, "max");
+      return field;
+    }
+    if (control.type === "checkbox" || control.type === "radio") return field;
+    if (control.pattern) field.pattern = control.pattern;
+  }
+
+  field.minLength = numberAttribute(control, "minlength");
+  field.maxLength = numberAttribute(control, "maxlength");
+  return field;
+}
+
+function isChoice(control: FormControl, type: "radio" | "checkbox"): control is HTMLInputElement {
+  return control instanceof HTMLInputElement && control.type === type;
+}
+
+// The legend of the fieldset around a radio or checkbox group.
+function legendText(control: FormControl): string {
+  const legend = control.closest("fieldset")?.querySelector("legend");
+  return legend ? ownText(legend) : "";
+}
+
+function choicesToField(key: string, controls: HTMLInputElement[], multiple: boolean): FieldDefinition {
+  const field: FieldDefinition = {
+    name: key,
+    type: controls[0].type,
+    // Each option is labelled by its own <label>.
+    oneOf: controls.map((c) => ({ value: c.value, label: labelText(c) || c.value })),
+  };
+  if (multiple) field.multiple = true;
+  const title = legendText(controls[0]);
+  if (title) field.title = title;
+  const description = controls
+    .map((c) => c.getAttribute("toolparamdescription") || describedByText(c))
+    .find(Boolean);
+  if (description) field.description = description;
+  if (controls.some((c) => c.required)) field.required = true;
+  return field;
+}
+
+/**
+ * Extract field definitions from the controls rendered inside `root`,
+ * usually a `<form>`.
+ *
+ * The DOM counterpart of `extractFields`: reads each named control's
+ * type, `required`, `min`/`max`, `minlength`/`maxlength`, `pattern` and
+ * `<select>` options, plus the `toolparamtitle` and `toolparamdescription`
+ * attributes rendered by `WebMCPInput`, `WebMCPSelect` and
+ * `WebMCPTextarea`. The text of the control's `<label>`s becomes the
+ * field's `title`, and the text of its `aria-describedby` elements its
+ * `description` unless `toolparamdescription` is set.
+ *
+ * Radios sharing a name become one string field, and several checkboxes
+ * sharing a name (or a `<select multiple>`) one `multiple` field, with
+ * each control's `value` as an option labelled by its `<label>` and the
+ * enclosing `<fieldset>`'s `<legend>` as the title. Otherwise, when
+ * several controls share a parameter name, the first one wins. Pass the
+ * result to `buildInputSchema`.
+ *
+ * @example
+ * ```ts
+ * const schema = buildInputSchema(extractFormFields(formRef.current!));
+ * ```
+ */
+export function extractFormFields(root: HTMLElement): FieldDefinition[] {
+  const groups = new Map<string, FormControl[]>();
+  for (const control of getFormControls(root)) {
+    const key = getControlKey(control);
+    const group = groups.get(key);
+    if (group) group.push(control);
+    else groups.set(key, [control]);
+  }
+
+  return Array.from(groups, ([key, controls]) => {
+    if (controls.every((c) => isChoice(c, "radio"))) {
+      return choicesToField(key, controls as HTMLInputElement[], false);
+    }
+    if (controls.length > 1 && controls.every((c) => isChoice(c, "checkbox"))) {
+      return choicesToField(key, controls as HTMLInputElement[], true);
+    }
+    return controlToField(controls[0]);
+  });
+}
@@ -7,8 +7,19 @@ export { WebMCPTool, WebMCPField };
 export type { WebMCPToolProps } from "./WebMCPTool";
 export type { WebMCPFieldProps } from "./WebMCPField";
 export { useRegisterField } from "./useRegisterField";
+export { useAgentFill } from "./useAgentFill";
+export { useAgentSubmit } from "./useAgentSubmit";
 export { useSchemaCollector } from "./useSchemaCollector";
+export { useDomSchema } from "./useDomSchema";
+export type { UseDomSchemaOptions } from "./useDomSchema";
 export { extractFields, extractOptions } from "./extractFields";
+export { extractFormFields } from "./extractFormFields";
 export { buildInputSchema } from "./buildSchema";
 export { validateSchema } from "./validateSchema";
-export type { FieldDefinition, ToolContextValue } from "./types";
+export type {
+  FieldDefinition,
+  ToolContextValue,
+  AgentFill,
+  AgentFillChannel,
+  AgentSubmitOutcome,
+} from "./types";
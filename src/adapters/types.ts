@@ -49,6 +49,12 @@ export interface FieldDefinition {
   enumValues?: (string | number | boolean)[];
   /** Labelled options — mapped to JSON Schema `oneOf`. */
   oneOf?: { value: string | number | boolean; label: string }[];
+  /**
+   * Whether the field takes several values (a checkbox group or
+   * `<select multiple>`). Mapped to `type: "array"` with the field's
+   * constraints and options as `items`.
+   */
+  multiple?: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -64,4 +70,54 @@ export interface ToolContextValue {
   registerField: (field: FieldDefinition) => void;
   /** Unregister a field by name (called on component unmount). */
   unregisterField: (name: string) => void;
+  /** Agent fill channel of the tool, used by `useAgentFill` and `useAgentSubmit`. */
+  agentFill?: AgentFillChannel;
 }
+
+// ---------------------------------------------------------------------------
+// Agent fill — agent input shown in the tool's fields
+// ---------------------------------------------------------------------------
+
+/**
+ * A value an agent filled into a field. Every fill is a new object, so
+ * effects keyed on it re-run even when the agent sends the same value again.
+ */
+export interface AgentFill {
+  value: unknown;
+}
+
+/**
+ * Pushes agent input into the fields of a `WebMCP.Tool` in agent-fill
+ * mode and holds the call until the user submits.
+ */
+export interface AgentFillChannel {
+  /** Call `listener` with each value an agent fills into field `name`. */
+  subscribeField: (name: string, listener: (value: unknown) => void) => () => void;
+  /** Push every value of `input` to the listeners of its field. */
+  fill: (input: Record<string, unknown>) => void;
+  /**
+   * Hold the call for `input` until the user submits or declines, or
+   * `signal` aborts. A newer call declines the one waiting before it, and
+   * the call is declined at once when no `useAgentSubmit()` is subscribed.
+   */
+  waitForSubmit: (
+    input: Record<string, unknown>,
+    signal: AbortSignal,
+  ) => Promise<AgentSubmitOutcome>;
+  /** The input of the call waiting for the user, or `null`. */
+  getPending: () => Record<string, unknown> | null;
+  /** Subscribe to changes of `getPending()`. */
+  subscribePending: (listener: () => void) => () => void;
+  /**
+   * Submit the waiting call with `values` (default: the agent's input).
+   * Returns `false` if no call is waiting.
+   */
+  submit: (values?: Record<string, unknown>) => boolean;
+  /** Answer the waiting call with an error. Returns `false` if none is waiting. */
+  decline: (reason?: string) => boolean;
+}
+
+/** How a call waiting for the user ended. */
+export type AgentSubmitOutcome =
+  | { submitted: true; input: Record<string, unknown> }
+  | { submitted: false; reason: string };
@@ -0,0 +1,37 @@
+import { useContext, useEffect, useState } from "react";
+import type { AgentFill } from "./types";
+import { ToolContext } from "./useSchemaCollector";
+
+/**
+ * The latest value an agent filled into field `name` of the nearest
+ * `WebMCP.Tool` in agent-fill mode, or `null` before the first fill.
+ *
+ * Each fill is a new object, so copy it into the component's own state in
+ * an effect keyed on it; the user can then review and edit the value
+ * before submitting with `useAgentSubmit`. Outside a `WebMCP.Tool` this
+ * always returns `null`.
+ *
+ * @example
+ * ```tsx
+ * function RatingField() {
+ *   const [rating, setRating] = useState(0);
+ *   const fill = useAgentFill("rating");
+ *   useEffect(() => {
+ *     if (fill) setRating(Number(fill.value));
+ *   }, [fill]);
+ *   useRegisterField({ name: "rating", type: "number", min: 1, max: 5 });
+ *   return <StarRating value={rating} onChange={setRating} />;
+ * }
+ * ```
+ */
+export function useAgentFill(name: string): AgentFill | null {
+  const channel = useContext(ToolContext)?.agentFill;
+  const [fill, setFill] = useState<AgentFill | null>(null);
+
+  useEffect(() => {
+    if (!channel) return;
+    return channel.subscribeField(name, (value) => setFill({ value }));
+  }, [channel, name]);
+
+  return fill;
+}
@@ -0,0 +1,51 @@
+import { useContext, useSyncExternalStore } from "react";
+import { ToolContext } from "./useSchemaCollector";
+
+const noopSubscribe = () => () => {};
+const getNone = () => null;
+
+/**
+ * Headless access to the agent call waiting for the user in the nearest
+ * `WebMCP.Tool` with `agentFill`.
+ *
+ * After the agent's input has been filled into the fields, the call waits
+ * until `submit()` runs `onExecute` — with the agent's input, or with the
+ * `values` the user reviewed and edited — or `decline()` answers the agent
+ * with an `isError` result. Outside a `WebMCP.Tool`, `pending` is always
+ * `null` and both functions return `false`.
+ *
+ * @example
+ * ```tsx
+ * function ReviewBar({ values }: { values: Record<string, unknown> }) {
+ *   const { pending, submit, decline } = useAgentSubmit();
+ *   if (!pending) return null;
+ *   return (
+ *     <div role="alert">
+ *       The assistant filled in this form.
+ *       <button onClick={() => submit(values)}>Send</button>
+ *       <button onClick={() => decline()}>Discard</button>
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useAgentSubmit(): {
+  /** The agent's input while a call waits for the user, otherwise `null`. */
+  pending: Record<string, unknown> | null;
+  /** Run `onExecute` for the waiting call. Returns `false` if none is waiting. */
+  submit: (values?: Record<string, unknown>) => boolean;
+  /** Refuse the waiting call. Returns `false` if none is waiting. */
+  decline: (reason?: string) => boolean;
+} {
+  const channel = useContext(ToolContext)?.agentFill;
+  const pending = useSyncExternalStore(
+    channel ? channel.subscribePending : noopSubscribe,
+    channel ? channel.getPending : getNone,
+    channel ? channel.getPending : getNone,
+  );
+  return {
+    pending,
+    submit: (values) => channel?.submit(values) ?? false,
+    decline: (reason) => channel?.decline(reason) ?? false,
+  };
+}
@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from "react";
+import type { RefObject } from "react";
+import type { JSONSchema } from "../types";
+import type { FieldDefinition } from "./types";
+import { extractFormFields } from "./extractFormFields";
+import { buildInputSchema } from "./buildSchema";
+import { mergeField } from "./useSchemaCollector";
+import { structuralKey } from "../utils/fingerprint";
+
+export interface UseDomSchemaOptions {
+  /** Optional field overrides keyed by field name, as on `WebMCP.Tool`. */
+  fields?: Record<string, Partial<FieldDefinition>>;
+  /** Set to false to stop observing and keep the last schema. Defaults to true. */
+  enabled?: boolean;
+}
+
+// Attributes extractFormFields reads. Everything else (e.g. `class`) is
+// not observed.
+const OBSERVED_ATTRIBUTES = [
+  "name",
+  "type",
+  "required",
+  "disabled",
+  "min",
+  "max",
+  "minlength",
+  "maxlength",
+  "pattern",
+  "multiple",
+  "value",
+  "id",
+  "for",
+  "form",
+  "aria-describedby",
+  "toolparamtitle",
+  "toolparamdescription",
+];
+
+/**
+ * Derive a JSON Schema from the live form controls inside `ref`.
+ *
+ * Unlike `extractFields`, which only sees the props of React children,
+ * this reads the rendered DOM with `extractFormFields`, so fields rendered
+ * by deeply nested components, portals into the form (or controls
+ * associated through their `form` attribute) and conditionally mounted
+ * sections are included. A `MutationObserver` rebuilds the schema through
+ * `buildInputSchema` whenever controls, their attributes or their label
+ * text change; the returned object only changes when the schema does.
+ *
+ * Returns `null` until the element has been read after mount. The element
+ * must be mounted together with the component calling the hook.
+ *
+ * @example
+ * ```tsx
+ * function Checkout() {
+ *   const formRef = useRef<HTMLFormElement>(null);
+ *   const schema = useDomSchema(formRef);
+ *   return (
+ *     <form ref={formRef}>
+ *       <label htmlFor="email">Email</label>
+ *       <input id="email" name="email" type="email" required />
+ *     </form>
+ *   );
+ * }
+ * ```
+ */
+export function useDomSchema(
+  ref: RefObject<HTMLElement | null>,
+  options: UseDomSchemaOptions = {},
+): JSONSchema | null {
+  const { fields, enabled = true } = options;
+  const [schema, setSchema] = useState<JSONSchema | null>(null);
+  const fieldsRef = useRef(fields);
+  fieldsRef.current = fields;
+  const fieldsKey = structuralKey(fields ?? {});
+  const schemaKeyRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const root = ref.current;
+    if (!enabled || !root) return;
+
+    const update = () => {
+      const overrides = fieldsRef.current ?? {};
+      const extracted = extractFormFields(root).map((field) =>
+        overrides[field.name] ? mergeField(field, overrides[field.name]) : field,
+      );
+      const next = buildInputSchema(extracted);
+      // React re-sets attributes like `name` on every input event, so most
+      // mutations leave the schema as it was.
+      const key = structuralKey(next);
+      if (key === schemaKeyRef.current) return;
+      schemaKeyRef.current = key;
+      setSchema(next);
+    };
+
+    update();
+    if (typeof MutationObserver === "undefined") return;
+    const observer = new MutationObserver(update);
+    observer.observe(root, {
+      subtree: true,
+      childList: true,
+      characterData: true,
+      attributes: true,
+      attributeFilter: OBSERVED_ATTRIBUTES,
+    });
+    return () => observer.disconnect();
+  }, [ref, enabled, fieldsKey]);
+
+  return schema;
+}
@@ -1,13 +1,14 @@
-import { useContext, useEffect } from "react";
+import { useContext, useEffect, useRef } from "react";
 import type { FieldDefinition } from "./types";
 import { ToolContext } from "./useSchemaCollector";
+import { structuralKey } from "../utils/fingerprint";
 
 /**
  * Produce a stable fingerprint for a field definition so dependency
  * arrays only trigger when meaningful values change.
  */
 function fieldFingerprint(field: FieldDefinition): string {
-  return `${field.name}::${field.type ?? ""}::${field.required ?? ""}::${field.title ?? ""}::${field.description ?? ""}::${JSON.stringify(field.enumValues ?? [])}::${JSON.stringify(field.oneOf ?? [])}::${field.min ?? ""}::${field.max ?? ""}::${field.minLength ?? ""}::${field.maxLength ?? ""}::${field.pattern ?? ""}`;
+  return `${field.name}::${field.type ?? ""}::${field.required ?? ""}::${field.title ?? ""}::${field.description ?? ""}::${structuralKey(field.enumValues ?? [])}::${structuralKey(field.oneOf ?? [])}::${field.min ?? ""}::${field.max ?? ""}::${field.minLength ?? ""}::${field.maxLength ?? ""}::${field.pattern ?? ""}::${field.multiple ?? ""}`;
 }
 
 /**
@@ -19,17 +20,32 @@ function fieldFingerprint(field: FieldDefinition): string {
  *
  * If no `WebMCP.Tool` ancestor exists, a dev-mode warning is logged.
  *
+ * Pass `onAgentFill` to receive the values an agent fills into the field
+ * when the tool is in agent-fill mode (`agentFill` or `autoSubmit`). It is
+ * called through a ref, so it does not need to be memoised.
+ *
  * @example
  * ```tsx
  * function MyField() {
- *   useRegisterField({ name: "email", type: "email", required: true });
- *   return <input name="email" type="email" required />;
+ *   const [email, setEmail] = useState("");
+ *   useRegisterField(
+ *     { name: "email", type: "email", required: true },
+ *     { onAgentFill: (value) => setEmail(String(value)) },
+ *   );
+ *   return <input name="email" value={email} onChange={(e) => setEmail(e.target.value)} />;
  * }
  * ```
  */
-export function useRegisterField(field: FieldDefinition): void {
+export function useRegisterField(
+  field: FieldDefinition,
+  options: { onAgentFill?: (value: unknown) => void } = {},
+): void {
   const ctx = useContext(ToolContext);
   const fp = fieldFingerprint(field);
+  const onAgentFillRef = useRef(options.onAgentFill);
+  onAgentFillRef.current = options.onAgentFill;
+  const fills = options.onAgentFill !== undefined;
+  const channel = ctx?.agentFill;
 
   useEffect(() => {
     if (!ctx) {
@@ -53,4 +69,9 @@ export function useRegisterField(field: FieldDefinition): void {
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [fp]);
+
+  useEffect(() => {
+    if (!channel || !fills) return;
+    return channel.subscribeField(field.name, (value) => onAgentFillRef.current?.(value));
+  }, [channel, fills, field.name]);
 }
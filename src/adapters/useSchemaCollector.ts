@@ -4,6 +4,7 @@ import type { FieldDefinition, ToolContextValue } from "./types";
 import { extractFields } from "./extractFields";
 import { buildInputSchema } from "./buildSchema";
 import { validateSchema } from "./validateSchema";
+import { structuralKey } from "../utils/fingerprint";
 
 // ---------------------------------------------------------------------------
 // Tool context — consumed by useRegisterField
@@ -17,7 +18,7 @@ import { validateSchema } from "./validateSchema";
 export const ToolContext = createContext<ToolContextValue | null>(null);
 
 // ---------------------------------------------------------------------------
-// Private helpers (not exported — same pattern as toolFingerprint)
+// Private helpers (not exported from the package — same pattern as toolFingerprint)
 // ---------------------------------------------------------------------------
 
 /**
@@ -28,7 +29,7 @@ function fieldsFingerprint(fields: FieldDefinition[]): string {
   return fields
     .map(
       (f) =>
-        `${f.name}::${f.type ?? ""}::${f.required ?? ""}::${f.title ?? ""}::${f.description ?? ""}::${JSON.stringify(f.enumValues ?? [])}::${JSON.stringify(f.oneOf ?? [])}::${f.min ?? ""}::${f.max ?? ""}::${f.minLength ?? ""}::${f.maxLength ?? ""}::${f.pattern ?? ""}`,
+        `${f.name}::${f.type ?? ""}::${f.required ?? ""}::${f.title ?? ""}::${f.description ?? ""}::${structuralKey(f.enumValues ?? [])}::${structuralKey(f.oneOf ?? [])}::${f.min ?? ""}::${f.max ?? ""}::${f.minLength ?? ""}::${f.maxLength ?? ""}::${f.pattern ?? ""}::${f.multiple ?? ""}`,
     )
     .join("|");
 }
@@ -37,8 +38,9 @@ function fieldsFingerprint(fields: FieldDefinition[]): string {
  * Merge a base field definition with an override. Skips `undefined`
  * values in the override so they don't clobber defined base values.
  * Arrays (`enumValues`, `oneOf`) are replaced wholesale, not concatenated.
+ * Also used by `useDomSchema`.
  */
-function mergeField(
+export function mergeField(
   base: FieldDefinition,
   override: Partial<FieldDefinition>,
 ): FieldDefinition {
@@ -104,7 +106,9 @@ export function useSchemaCollector({
     setVersion((v) => v + 1);
   }, []);
 
-  // Source 1: children traversal (cheap O(n), runs every render)
+  // Source 1: children traversal (cheap O(n), runs every render). The
+  // fields are new objects each time, so their fingerprint is recomputed
+  // on every render too.
   const childrenFields = extractFields(children);
   const childrenFP = fieldsFingerprint(childrenFields);
 
@@ -149,7 +153,7 @@ export function useSchemaCollector({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [childrenFP, fieldsProp, version, strict]);
 
-  const mergedFP = fieldsFingerprint(merged);
+  const mergedFP = useMemo(() => fieldsFingerprint(merged), [merged]);
 
   // Build deterministic JSON Schema
   const schema = useMemo(
@@ -1,5 +1,5 @@
 import type { FieldDefinition } from "./types";
-import { mapHtmlTypeToSchemaType } from "./buildSchema";
+import { fieldValueType } from "./buildSchema";
 
 /**
  * Validate an array of field definitions for common schema issues.
@@ -37,7 +37,9 @@ export function validateSchema(
     }
     seen.add(field.name);
 
-    const schemaType = mapHtmlTypeToSchemaType(field.type);
+    // Constraints and enums apply to each value, so a checkbox group is
+    // checked against its string options rather than as a boolean.
+    const schemaType = fieldValueType(field);
 
     if (field.pattern !== undefined && schemaType !== "string") {
       issues.push(
@@ -0,0 +1,244 @@
+import type { ToolAnnotations } from "../types";
+import { isToolResult } from "../utils/toolResult";
+
+/**
+ * How a call ended, as recorded in an `AuditEvent`.
+ *
+ * - `"success"` — the handler ran and did not report an error
+ * - `"error"` — the handler threw, rejected or returned an `isError` result,
+ *   or the input was invalid
+ * - `"denied"` — the provider's policy refused the call
+ * - `"rejected"` — the user declined to confirm the call
+ * - `"cancelled"` — the call was aborted or timed out
+ * - `"rate-limited"` — the call was over a rate, concurrency or budget limit
+ */
+export type AuditOutcome =
+  | "success"
+  | "error"
+  | "denied"
+  | "rejected"
+  | "cancelled"
+  | "rate-limited";
+
+/**
+ * A structured record of one agent tool call.
+ */
+export interface AuditEvent {
+  /** Unique id of this event. */
+  id: string;
+  /** ISO 8601 time the call started. */
+  timestamp: string;
+  /** Tool name. */
+  tool: string;
+  /** The registering API or `owner` label. */
+  owner: string;
+  /** The tool's annotations. */
+  annotations: ToolAnnotations | undefined;
+  /** Agent input after redaction. */
+  input: Record<string, unknown>;
+  outcome: AuditOutcome;
+  /** Short text summary of the result (truncated to `maxSummaryLength`). */
+  result?: string;
+  /** Error message for failed calls. */
+  error?: string;
+  /** Wall-clock duration of the call in milliseconds. */
+  durationMs: number;
+}
+
+/**
+ * Destination for audit events. `write` is called synchronously for every
+ * event and must not throw; sinks that buffer implement `flush`.
+ */
+export interface AuditSink {
+  write: (event: AuditEvent) => void;
+  flush?: () => void | Promise<void>;
+}
+
+/**
+ * What to do with a matching input field: `"mask"` replaces it with
+ * `"[REDACTED]"`, `"omit"` drops it, and a function returns the value to
+ * record instead.
+ */
+export type AuditRedaction = "mask" | "omit" | ((value: unknown, path: string) => unknown);
+
+/**
+ * Audit configuration passed to `<WebMCPProvider audit>`.
+ */
+export interface AuditConfig {
+  /** Where events go. */
+  sinks: AuditSink[];
+  /**
+   * Per-field redaction, keyed by field name (matched at any depth, e.g.
+   * `password`) or by dotted path (e.g. `card.number`; array items are
+   * `items[]`). Paths take precedence over names.
+   */
+  redact?: Record<string, AuditRedaction>;
+  /** Maximum length of `AuditEvent.result`. Defaults to 200. */
+  maxSummaryLength?: number;
+}
+
+export const REDACTED = "[REDACTED]";
+
+function redactValue(
+  value: unknown,
+  path: string,
+  rules: Record<string, AuditRedaction>,
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, `${path}[]`, rules));
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+
+  const out: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    const childPath = path ? `${path}.${key}` : key;
+    const rule = rules[childPath] ?? rules[key];
+    if (rule === "omit") continue;
+    if (rule === "mask") {
+      out[key] = REDACTED;
+    } else if (typeof rule === "function") {
+      out[key] = rule(child, childPath);
+    } else {
+      out[key] = redactValue(child, childPath, rules);
+    }
+  }
+  return out;
+}
+
+/**
+ * Apply `AuditConfig.redact` rules to an input object. The input itself is
+ * never modified.
+ *
+ * @example
+ * ```ts
+ * redactInput({ user: "ann", password: "hunter2" }, { password: "mask" });
+ * // { user: "ann", password: "[REDACTED]" }
+ * ```
+ */
+export function redactInput(
+  input: Record<string, unknown> | undefined,
+  rules: Record<string, AuditRedaction> | undefined,
+): Record<string, unknown> {
+  const value = input ?? {};
+  if (!rules || Object.keys(rules).length === 0) return { ...value };
+  return redactValue(value, "", rules) as Record<string, unknown>;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === "string") return value;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Classify a settled call and summarise its result. Refusals, denials,
+ * cancellations and rate limits are recognised by the JSON block the
+ * library adds to them.
+ */
+function describeOutcome(
+  outcome: { result: unknown } | { error: unknown },
+  max: number,
+): Pick<AuditEvent, "outcome" | "result" | "error"> {
+  if ("error" in outcome) {
+    const { error } = outcome;
+    const message = error instanceof Error ? error.message || error.name : stringify(error);
+    return { outcome: "error", error: truncate(message, max) };
+  }
+
+  const { result } = outcome;
+  if (!isToolResult(result)) {
+    return result === undefined
+      ? { outcome: "success" }
+      : { outcome: "success", result: truncate(stringify(result), max) };
+  }
+
+  const text = result.content
+    .filter((block) => block.type === "text")
+    .map((block) => (block as { text: string }).text)
+    .join("\n");
+  const summary = truncate(
+    text || stringify(result.content.map((block) => (block.type === "json" ? block.json : block))),
+    max,
+  );
+  if (!result.isError) {
+    return { outcome: "success", result: summary };
+  }
+
+  const marker = result.content.find((block) => block.type === "json")?.json as
+    | Record<string, unknown>
+    | undefined;
+  const kind: AuditOutcome =
+    marker?.cancelled === true
+      ? "cancelled"
+      : marker?.confirmed === false
+        ? "rejected"
+        : marker?.allowed === false
+          ? "denied"
+          : marker?.rateLimited === true
+            ? "rate-limited"
+            : "error";
+  return { outcome: kind, error: summary };
+}
+
+let nextEventId = 0;
+
+/**
+ * Build an audit event for a settled call and hand it to every sink. Sink
+ * errors are logged in development and otherwise ignored, so auditing
+ * never affects the call.
+ */
+export function recordAuditEvent(
+  config: AuditConfig,
+  call: {
+    tool: string;
+    owner: string;
+    annotations: ToolAnnotations | undefined;
+    input: Record<string, unknown>;
+    startedAt: number;
+    outcome: { result: unknown } | { error: unknown };
+  },
+): void {
+  const max = config.maxSummaryLength ?? 200;
+  const event: AuditEvent = {
+    id: `audit-${Date.now().toString(36)}-${++nextEventId}`,
+    timestamp: new Date(call.startedAt).toISOString(),
+    tool: call.tool,
+    owner: call.owner,
+    annotations: call.annotations,
+    input: redactInput(call.input, config.redact),
+    ...describeOutcome(call.outcome, max),
+    durationMs: Date.now() - call.startedAt,
+  };
+
+  for (const sink of config.sinks) {
+    try {
+      sink.write(event);
+    } catch (err) {
+      if (process.env.NODE_ENV !== "production") {
+        console.error("[react-webmcp] Audit sink threw:", err);
+      }
+    }
+  }
+}
+
+/**
+ * Serialise audit events as JSON Lines (one event per line), e.g. for
+ * download or upload.
+ *
+ * @example
+ * ```ts
+ * const blob = new Blob([toJSONL(memory.getEvents())], { type: "application/x-ndjson" });
+ * ```
+ */
+export function toJSONL(events: readonly AuditEvent[]): string {
+  return events.map((event) => JSON.stringify(event)).join("\n") + (events.length ? "\n" : "");
+}
@@ -0,0 +1,20 @@
+export { redactInput, toJSONL } from "./auditLog";
+export type {
+  AuditConfig,
+  AuditEvent,
+  AuditOutcome,
+  AuditRedaction,
+  AuditSink,
+} from "./auditLog";
+export {
+  createMemoryAuditSink,
+  createConsoleAuditSink,
+  createLocalStorageAuditSink,
+  createBeaconAuditSink,
+} from "./sinks";
+export type {
+  MemoryAuditSink,
+  LocalStorageAuditSink,
+  BeaconAuditSink,
+  BeaconAuditSinkOptions,
+} from "./sinks";
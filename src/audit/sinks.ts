@@ -0,0 +1,251 @@
+import type { AuditEvent, AuditSink } from "./auditLog";
+import { toJSONL } from "./auditLog";
+
+// ---------------------------------------------------------------------------
+// In-memory ring buffer
+// ---------------------------------------------------------------------------
+
+export interface MemoryAuditSink extends AuditSink {
+  /** Buffered events, oldest first. Identity changes on every write. */
+  getEvents: () => readonly AuditEvent[];
+  /** Drop all buffered events. */
+  clear: () => void;
+  /** Subscribe to new events. Returns an unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+  /** Buffered events as JSON Lines. */
+  toJSONL: () => string;
+}
+
+/**
+ * Keep the most recent `capacity` events (default 500) in memory, e.g.
+ * for an in-app "agent activity" panel. `getEvents` and `subscribe` fit
+ * `useSyncExternalStore`.
+ *
+ * @example
+ * ```tsx
+ * const memory = createMemoryAuditSink({ capacity: 100 });
+ * <WebMCPProvider audit={{ sinks: [memory] }}>...</WebMCPProvider>
+ *
+ * const events = useSyncExternalStore(memory.subscribe, memory.getEvents);
+ * ```
+ */
+export function createMemoryAuditSink(
+  options: { capacity?: number } = {},
+): MemoryAuditSink {
+  const capacity = Math.max(1, options.capacity ?? 500);
+  let events: readonly AuditEvent[] = [];
+  const listeners = new Set<() => void>();
+
+  const emit = () => {
+    for (const listener of Array.from(listeners)) {
+      listener();
+    }
+  };
+
+  return {
+    write(event) {
+      const next = [...events, event];
+      events = next.length > capacity ? next.slice(next.length - capacity) : next;
+      emit();
+    },
+    getEvents: () => events,
+    clear() {
+      events = [];
+      emit();
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    toJSONL: () => toJSONL(events),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Console
+// ---------------------------------------------------------------------------
+
+/**
+ * Log every event to the console (`console.info` by default).
+ */
+export function createConsoleAuditSink(
+  options: { level?: "debug" | "info" | "log" } = {},
+): AuditSink {
+  const level = options.level ?? "info";
+  return {
+    write(event) {
+      console[level](`[react-webmcp] audit: ${event.tool} ${event.outcome}`, event);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// localStorage
+// ---------------------------------------------------------------------------
+
+export interface LocalStorageAuditSink extends AuditSink {
+  /** Events currently persisted, oldest first. */
+  getEvents: () => AuditEvent[];
+  /** Remove the persisted events. */
+  clear: () => void;
+}
+
+/**
+ * Persist the most recent `capacity` events (default 200) to
+ * `localStorage` under `key` (default `"react-webmcp:audit"`), so they
+ * survive reloads. Storage errors (unavailable storage, quota) are
+ * ignored.
+ */
+export function createLocalStorageAuditSink(
+  options: { key?: string; capacity?: number; storage?: Storage } = {},
+): LocalStorageAuditSink {
+  const key = options.key ?? "react-webmcp:audit";
+  const capacity = Math.max(1, options.capacity ?? 200);
+  const getStorage = (): Storage | undefined => {
+    if (options.storage) return options.storage;
+    try {
+      return typeof localStorage === "undefined" ? undefined : localStorage;
+    } catch {
+      // Accessing localStorage throws when storage is disabled.
+      return undefined;
+    }
+  };
+
+  const read = (): AuditEvent[] => {
+    try {
+      const raw = getStorage()?.getItem(key);
+      const parsed: unknown = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? (parsed as AuditEvent[]) : [];
+    } catch {
+      return [];
+    }
+  };
+
+  return {
+    write(event) {
+      const events = [...read(), event].slice(-capacity);
+      try {
+        getStorage()?.setItem(key, JSON.stringify(events));
+      } catch {
+        // Quota exceeded or storage unavailable.
+      }
+    },
+    getEvents: read,
+    clear() {
+      try {
+        getStorage()?.removeItem(key);
+      } catch {
+        // Storage unavailable.
+      }
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Batched beacon / fetch
+// ---------------------------------------------------------------------------
+
+export interface BeaconAuditSinkOptions {
+  /** Endpoint that receives batches as JSON Lines (`application/x-ndjson`). */
+  url: string;
+  /** Send once this many events are buffered. Defaults to 20. */
+  batchSize?: number;
+  /** Send buffered events at least this often, in ms. Defaults to 5000. */
+  flushIntervalMs?: number;
+  /** Extra request headers. Forces `fetch` (beacons cannot set headers). */
+  headers?: Record<string, string>;
+}
+
+export interface BeaconAuditSink extends AuditSink {
+  /** Send buffered events now. */
+  flush: () => Promise<void>;
+  /** Send what is buffered and stop the timer and page listeners. */
+  dispose: () => void;
+}
+
+/**
+ * Batch events and POST them to `url` as JSON Lines. Batches go out when
+ * `batchSize` is reached, every `flushIntervalMs`, and when the page is
+ * hidden — using `navigator.sendBeacon` when possible so the last batch
+ * survives navigation, and `fetch` with `keepalive` otherwise. Failed
+ * sends are dropped.
+ *
+ * @example
+ * ```ts
+ * const beacon = createBeaconAuditSink({ url: "/api/agent-audit" });
+ * ```
+ */
+export function createBeaconAuditSink(options: BeaconAuditSinkOptions): BeaconAuditSink {
+  const batchSize = Math.max(1, options.batchSize ?? 20);
+  const flushIntervalMs = options.flushIntervalMs ?? 5000;
+  let buffer: AuditEvent[] = [];
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const send = async (events: AuditEvent[]): Promise<void> => {
+    const body = toJSONL(events);
+    const type = "application/x-ndjson";
+
+    if (
+      !options.headers &&
+      typeof navigator !== "undefined" &&
+      typeof navigator.sendBeacon === "function"
+    ) {
+      if (navigator.sendBeacon(options.url, new Blob([body], { type }))) return;
+    }
+    if (typeof fetch !== "function") return;
+    try {
+      await fetch(options.url, {
+        method: "POST",
+        body,
+        keepalive: true,
+        headers: { "Content-Type": type, ...options.headers },
+      });
+    } catch (err) {
+      if (process.env.NODE_ENV !== "production") {
+        console.warn("[react-webmcp] Failed to send audit events:", err);
+      }
+    }
+  };
+
+  const flush = () => {
+    if (buffer.length === 0) return Promise.resolve();
+    const events = buffer;
+    buffer = [];
+    return send(events);
+  };
+
+  const onPageHide = () => void flush();
+  const onVisibilityChange = () => {
+    if (document.visibilityState === "hidden") {
+      void flush();
+    }
+  };
+
+  if (flushIntervalMs > 0) {
+    timer = setInterval(() => void flush(), flushIntervalMs);
+  }
+  if (typeof window !== "undefined") {
+    window.addEventListener("pagehide", onPageHide);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+  }
+
+  return {
+    write(event) {
+      buffer.push(event);
+      if (buffer.length >= batchSize) {
+        void flush();
+      }
+    },
+    flush,
+    dispose() {
+      if (timer !== undefined) clearInterval(timer);
+      if (typeof window !== "undefined") {
+        window.removeEventListener("pagehide", onPageHide);
+        document.removeEventListener("visibilitychange", onVisibilityChange);
+      }
+      void flush();
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { startMCPRelay } from "./relay";
+
+const USAGE = `Usage: react-webmcp-relay [--port 8765] [--host 127.0.0.1] [--origin <origin>]...
+
+Relays an MCP client (over stdio) to a page that calls connectMCPBridge().
+Only pages served from localhost may connect unless --origin is given.
+Configure it in your MCP client as a stdio server, e.g.:
+
+  { "command": "npx", "args": ["react-webmcp-relay", "--port", "8765"] }
+`;
+
+function parseArgs(argv: string[]) {
+  const options: { port?: number; host?: string; origins?: string[] } = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+    if (arg === "--help" || arg === "-h") {
+      process.stderr.write(USAGE);
+      process.exit(0);
+    } else if (arg === "--port" && value !== undefined) {
+      options.port = Number(value);
+      i++;
+    } else if (arg === "--host" && value !== undefined) {
+      options.host = value;
+      i++;
+    } else if (arg === "--origin" && value !== undefined) {
+      options.origins = [...(options.origins ?? []), value];
+      i++;
+    } else {
+      process.stderr.write(`Unknown argument: ${arg}\n\n${USAGE}`);
+      process.exit(1);
+    }
+  }
+  return options;
+}
+
+startMCPRelay(parseArgs(process.argv.slice(2))).catch((err: unknown) => {
+  process.stderr.write(
+    `[react-webmcp] relay: ${err instanceof Error ? err.message : String(err)}\n`,
+  );
+  process.exit(1);
+});
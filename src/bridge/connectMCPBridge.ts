@@ -0,0 +1,285 @@
+import { isToolResult } from "../utils/toolResult";
+import { toolDirectory } from "../utils/toolDirectory";
+import type { DirectoryTool } from "../utils/toolDirectory";
+import { PACKAGE_VERSION } from "./version";
+
+/**
+ * Connection state reported by `MCPBridgeOptions.onStatusChange`.
+ */
+export type MCPBridgeStatus = "connecting" | "open" | "closed";
+
+export interface MCPBridgeOptions {
+  /** WebSocket URL of the relay, e.g. `"ws://localhost:8765"`. */
+  url: string;
+  /**
+   * Reconnect this many ms after the connection drops. Defaults to 2000;
+   * `0` disables reconnecting.
+   */
+  reconnectIntervalMs?: number;
+  /** Name and version reported to the MCP client in `initialize`. */
+  serverInfo?: { name: string; version: string };
+  /** Called whenever the connection state changes. */
+  onStatusChange?: (status: MCPBridgeStatus) => void;
+  /** Open the socket. Defaults to `new WebSocket(url)`. */
+  createSocket?: (url: string) => WebSocket;
+}
+
+export interface MCPBridge {
+  /** Close the connection and stop reconnecting. */
+  close: () => void;
+}
+
+type JSONRPCId = string | number;
+
+interface JSONRPCMessage {
+  jsonrpc?: string;
+  id?: JSONRPCId | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+interface MCPCallToolResult {
+  content: Array<{ type: "text"; text: string }>;
+  isError?: boolean;
+}
+
+const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+
+function textOf(value: unknown): string {
+  return typeof value === "string" ? value : (JSON.stringify(value) ?? String(value));
+}
+
+/**
+ * Convert whatever a tool returned into an MCP `CallToolResult`. JSON
+ * blocks become text, since MCP content has no JSON block type.
+ */
+function toCallToolResult(value: unknown): MCPCallToolResult {
+  if (isToolResult(value)) {
+    const result: MCPCallToolResult = {
+      content: value.content.map((block) => ({
+        type: "text",
+        text: block.type === "text" ? block.text : textOf(block.json),
+      })),
+    };
+    if (value.isError) result.isError = true;
+    return result;
+  }
+  return { content: value === undefined ? [] : [{ type: "text", text: textOf(value) }] };
+}
+
+function describeTools(tools: readonly DirectoryTool[]) {
+  const seen = new Set<string>();
+  const listed = [];
+  for (const tool of tools) {
+    // The browser refuses duplicate names, so the first registration wins.
+    if (seen.has(tool.name)) continue;
+    seen.add(tool.name);
+    const entry: Record<string, unknown> = {
+      name: tool.name,
+      description: tool.description,
+      // MCP requires an object schema; forms and schemaless tools have `{}`.
+      inputSchema: { type: "object", ...tool.inputSchema },
+    };
+    if (tool.outputSchema) entry.outputSchema = tool.outputSchema;
+    if (tool.annotations) entry.annotations = tool.annotations;
+    listed.push(entry);
+  }
+  return listed;
+}
+
+/**
+ * Answer MCP JSON-RPC messages from one connection using the page's tools.
+ */
+function createSession(
+  send: (message: object) => void,
+  serverInfo: { name: string; version: string },
+) {
+  let initialized = false;
+  let listedFingerprint = "";
+  // Calls in flight, by request id, so `notifications/cancelled` can reach them.
+  const inFlight = new Map<JSONRPCId, { controller: AbortController; cancelled: boolean }>();
+
+  const respond = (id: JSONRPCId, result: unknown) => send({ jsonrpc: "2.0", id, result });
+  const fail = (id: JSONRPCId | null, code: number, message: string) =>
+    send({ jsonrpc: "2.0", id, error: { code, message } });
+
+  const unsubscribe = toolDirectory.subscribe(() => {
+    if (!initialized) return;
+    const fingerprint = JSON.stringify(describeTools(toolDirectory.getSnapshot()));
+    if (fingerprint === listedFingerprint) return;
+    listedFingerprint = fingerprint;
+    send({ jsonrpc: "2.0", method: "notifications/tools/list_changed" });
+  });
+
+  const callTool = (id: JSONRPCId, params: Record<string, unknown>) => {
+    const name = params.name;
+    const tool = toolDirectory.getSnapshot().find((t) => t.name === name);
+    if (typeof name !== "string" || !tool) {
+      fail(id, INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+      return;
+    }
+
+    const call = { controller: new AbortController(), cancelled: false };
+    inFlight.set(id, call);
+    const args = (params.arguments ?? {}) as Record<string, unknown>;
+    Promise.resolve()
+      .then(() => tool.execute(args, { signal: call.controller.signal }))
+      .then(toCallToolResult, (err: unknown) => ({
+        content: [
+          {
+            type: "text" as const,
+            text: err instanceof Error ? err.message || err.name : textOf(err),
+          },
+        ],
+        isError: true,
+      }))
+      .then((result) => {
+        inFlight.delete(id);
+        // Cancelled requests get no response.
+        if (!call.cancelled) respond(id, result);
+      });
+  };
+
+  const handle = (message: JSONRPCMessage) => {
+    const { id, method } = message;
+    const params = message.params ?? {};
+
+    // Responses from the client (we never send requests) are ignored.
+    if (method === undefined) return;
+
+    if (id === undefined || id === null) {
+      if (method === "notifications/cancelled") {
+        const call = inFlight.get(params.requestId as JSONRPCId);
+        if (call) {
+          call.cancelled = true;
+          call.controller.abort();
+        }
+      }
+      return;
+    }
+
+    switch (method) {
+      case "initialize": {
+        const requested = params.protocolVersion;
+        initialized = true;
+        listedFingerprint = JSON.stringify(describeTools(toolDirectory.getSnapshot()));
+        respond(id, {
+          protocolVersion:
+            typeof requested === "string" && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+              ? requested
+              : SUPPORTED_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: true } },
+          serverInfo,
+        });
+        return;
+      }
+      case "ping":
+        respond(id, {});
+        return;
+      case "tools/list": {
+        const tools = describeTools(toolDirectory.getSnapshot());
+        listedFingerprint = JSON.stringify(tools);
+        respond(id, { tools });
+        return;
+      }
+      case "tools/call":
+        callTool(id, params);
+        return;
+      default:
+        fail(id, METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  };
+
+  return {
+    receive(data: string) {
+      let message: unknown;
+      try {
+        message = JSON.parse(data);
+      } catch {
+        fail(null, PARSE_ERROR, "Parse error");
+        return;
+      }
+      if (typeof message !== "object" || message === null || Array.isArray(message)) {
+        fail(null, INVALID_REQUEST, "Invalid request");
+        return;
+      }
+      handle(message as JSONRPCMessage);
+    },
+    dispose() {
+      unsubscribe();
+      for (const call of inFlight.values()) {
+        call.cancelled = true;
+      }
+    },
+  };
+}
+
+/**
+ * Expose the page's tools to a local MCP client over a WebSocket, for
+ * development. The page acts as an MCP server speaking JSON-RPC
+ * (`initialize`, `ping`, `tools/list`, `tools/call`, and
+ * `notifications/tools/list_changed` when tools come and go) to the relay
+ * at `url`; run `npx react-webmcp-relay` and point your MCP client at it
+ * as a stdio server.
+ *
+ * The tools are those registered through `useWebMCPTool`,
+ * `useWebMCPContext` and `WebMCP.Tool`, and calls go through the same
+ * validation, policy, confirmation and limits as agent calls. The
+ * connection is re-established after it drops.
+ *
+ * @example
+ * ```ts
+ * if (process.env.NODE_ENV === "development") {
+ *   connectMCPBridge({ url: "ws://localhost:8765" });
+ * }
+ * ```
+ */
+export function connectMCPBridge(options: MCPBridgeOptions): MCPBridge {
+  const reconnectIntervalMs = options.reconnectIntervalMs ?? 2000;
+  const serverInfo = options.serverInfo ?? { name: "react-webmcp", version: PACKAGE_VERSION };
+  const createSocket = options.createSocket ?? ((url: string) => new WebSocket(url));
+  let socket: WebSocket | null = null;
+  let session: ReturnType<typeof createSession> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const connect = () => {
+    options.onStatusChange?.("connecting");
+    const ws = createSocket(options.url);
+    socket = ws;
+
+    ws.addEventListener("open", () => {
+      session = createSession((message) => {
+        if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(message));
+      }, serverInfo);
+      options.onStatusChange?.("open");
+    });
+    ws.addEventListener("message", (event: MessageEvent) => {
+      if (typeof event.data === "string") session?.receive(event.data);
+    });
+    ws.addEventListener("close", () => {
+      session?.dispose();
+      session = null;
+      socket = null;
+      options.onStatusChange?.("closed");
+      if (!stopped && reconnectIntervalMs > 0) {
+        reconnectTimer = setTimeout(connect, reconnectIntervalMs);
+      }
+    });
+  };
+
+  connect();
+
+  return {
+    close() {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    },
+  };
+}
@@ -0,0 +1,425 @@
+import type {
+  JSONSchema,
+  JSONSchemaProperty,
+  ToolAnnotations,
+  WebMCPToolDefinition,
+} from "../types";
+import { getModelContext } from "../utils/modelContext";
+import { errorResult } from "../utils/toolResult";
+import { toolDirectory } from "../utils/toolDirectory";
+import { createExecute } from "../utils/createExecute";
+
+// ---------------------------------------------------------------------------
+// Protocol
+// ---------------------------------------------------------------------------
+
+/** Tag on every bridge message, so unrelated `postMessage` traffic is ignored. */
+const SOURCE = "react-webmcp";
+
+/** A tool as the frame describes it to the parent. Internal. */
+export interface FrameToolDescription {
+  name: string;
+  description: string;
+  inputSchema: JSONSchema | Record<string, never>;
+  outputSchema?: JSONSchema | JSONSchemaProperty;
+  annotations?: ToolAnnotations;
+}
+
+/** Child → parent. */
+type ChildMessage =
+  | { source: typeof SOURCE; type: "tools"; tools: FrameToolDescription[] }
+  | { source: typeof SOURCE; type: "result"; id: string; result?: unknown; error?: string }
+  | { source: typeof SOURCE; type: "unload" };
+
+/** Parent → child. */
+type ParentMessage =
+  | { source: typeof SOURCE; type: "hello" }
+  | {
+      source: typeof SOURCE;
+      type: "call";
+      id: string;
+      name: string;
+      input: Record<string, unknown>;
+    }
+  | { source: typeof SOURCE; type: "cancel"; id: string };
+
+function isBridgeMessage(data: unknown): data is { source: string; type: string } {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as { source?: unknown }).source === SOURCE
+  );
+}
+
+/**
+ * Post to `target` once per allowed origin; the browser only delivers the
+ * copy whose origin matches the target's.
+ */
+function postToOrigins(target: Window, message: object, origins: readonly string[]) {
+  for (const origin of origins) {
+    target.postMessage(message, origin);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Child frame
+// ---------------------------------------------------------------------------
+
+export interface ExposeFrameToolsOptions {
+  /**
+   * Origins of the parent document allowed to see and call the tools, e.g.
+   * `["https://host.example"]`. `"*"` allows any parent.
+   */
+  allowedOrigins: readonly string[];
+  /** Window to expose the tools to. Defaults to `window.parent`. */
+  target?: Window;
+}
+
+/**
+ * Expose the tools registered in this frame (through `useWebMCPTool`,
+ * `useWebMCPContext` and `WebMCP.Tool`) to the parent document over
+ * `postMessage`, and run the parent's calls. The parent re-registers them
+ * with `connectFrameTools()`. Messages from origins not in
+ * `allowedOrigins` are ignored. Returns a function that withdraws the
+ * tools; they are also withdrawn when the frame unloads.
+ *
+ * @example
+ * ```ts
+ * const stop = exposeFrameTools({ allowedOrigins: ["https://host.example"] });
+ * ```
+ */
+export function exposeFrameTools(options: ExposeFrameToolsOptions): () => void {
+  if (typeof window === "undefined") return () => {};
+  const target = options.target ?? window.parent;
+  const origins = options.allowedOrigins;
+  if (target === window) {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn(
+        "[react-webmcp] exposeFrameTools() was called outside a frame; pass `target` to " +
+          "expose the tools to another window.",
+      );
+    }
+    return () => {};
+  }
+
+  let stopped = false;
+  // Results of calls still running when the bridge stops are dropped.
+  const post = (message: ChildMessage) => {
+    if (!stopped) postToOrigins(target, message, origins);
+  };
+  const postTools = () =>
+    post({
+      source: SOURCE,
+      type: "tools",
+      tools: toolDirectory.getSnapshot().map((tool) => {
+        const description: FrameToolDescription = {
+          name: tool.name,
+          description: tool.description,
+          inputSchema: tool.inputSchema,
+        };
+        if (tool.outputSchema) description.outputSchema = tool.outputSchema;
+        if (tool.annotations) description.annotations = tool.annotations;
+        return description;
+      }),
+    });
+  // Calls in flight, by request id, so the parent can cancel them.
+  const inFlight = new Map<string, AbortController>();
+
+  const runCall = (id: string, name: string, input: Record<string, unknown>) => {
+    const tool = toolDirectory.getSnapshot().find((t) => t.name === name);
+    if (!tool) {
+      post({
+        source: SOURCE,
+        type: "result",
+        id,
+        error: `Tool "${name}" is not registered in the frame.`,
+      });
+      return;
+    }
+    const controller = new AbortController();
+    inFlight.set(id, controller);
+    Promise.resolve()
+      .then(() => tool.execute(input ?? {}, { signal: controller.signal }))
+      .then(
+        (result) => {
+          try {
+            post({ source: SOURCE, type: "result", id, result });
+          } catch {
+            // The result cannot be structured-cloned (functions, DOM nodes, ...).
+            post({
+              source: SOURCE,
+              type: "result",
+              id,
+              error: `Tool "${name}" returned a value that cannot be sent to the parent.`,
+            });
+          }
+        },
+        (err: unknown) =>
+          post({
+            source: SOURCE,
+            type: "result",
+            id,
+            error: err instanceof Error ? err.message || err.name : String(err),
+          }),
+      )
+      .finally(() => inFlight.delete(id));
+  };
+
+  const onMessage = (event: MessageEvent) => {
+    if (event.source !== target || !isBridgeMessage(event.data)) return;
+    if (!origins.includes("*") && !origins.includes(event.origin)) return;
+    const message = event.data as ParentMessage;
+    if (message.type === "hello") {
+      postTools();
+    } else if (message.type === "call") {
+      runCall(message.id, message.name, message.input);
+    } else if (message.type === "cancel") {
+      inFlight.get(message.id)?.abort();
+    }
+  };
+
+  const stop = () => {
+    if (stopped) return;
+    post({ source: SOURCE, type: "unload" });
+    stopped = true;
+    unsubscribe();
+    window.removeEventListener("message", onMessage);
+    window.removeEventListener("pagehide", stop);
+  };
+
+  const unsubscribe = toolDirectory.subscribe(postTools);
+  window.addEventListener("message", onMessage);
+  window.addEventListener("pagehide", stop);
+  postTools();
+  return stop;
+}
+
+// ---------------------------------------------------------------------------
+// Parent document
+// ---------------------------------------------------------------------------
+
+export interface ConnectFrameToolsOptions {
+  /** The frame (or other window) whose tools to register. */
+  frame: HTMLIFrameElement | Window;
+  /** Origins the frame's messages are accepted from, e.g. `["https://app.example"]`. */
+  allowedOrigins: readonly string[];
+  /** Prepended to every proxied tool name, e.g. `"checkout_"`. */
+  prefix?: string;
+  /**
+   * Answer a call with an `isError` result if the frame has not replied
+   * after this many ms. Defaults to 30 000.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * A connection to the tools a frame exposes, which proxies calls without
+ * registering anything. Internal; used by `connectFrameTools` and
+ * `useWebMCPFrameTools`.
+ */
+export interface FrameConnection {
+  /**
+   * Run the frame's tool `name`. Aborting `signal` cancels the call in the
+   * frame. Resolves with an `isError` result if the frame has not answered
+   * after `timeoutMs`.
+   */
+  call: (name: string, input: Record<string, unknown>, signal?: AbortSignal) => Promise<unknown>;
+  /** Stop listening; calls still waiting for the frame get an `isError` result. */
+  close: () => void;
+}
+
+/**
+ * Listen to the frame's tool list, calling `onTools` whenever it changes
+ * (with an empty list when the frame unloads). Internal.
+ */
+export function openFrameConnection(
+  options: ConnectFrameToolsOptions,
+  onTools: (tools: FrameToolDescription[]) => void,
+): FrameConnection {
+  const prefix = options.prefix ?? "";
+  const timeoutMs = options.timeoutMs ?? 30_000;
+  const origins = options.allowedOrigins;
+  const frameWindow = () =>
+    "contentWindow" in options.frame ? options.frame.contentWindow : options.frame;
+
+  // Calls waiting for the frame, by request id.
+  const pending = new Map<string, (result: unknown) => void>();
+  let nextId = 0;
+
+  const post = (message: ParentMessage) => {
+    const target = frameWindow();
+    if (target) postToOrigins(target, message, origins);
+  };
+
+  const settleAll = (message: string) => {
+    for (const settle of Array.from(pending.values())) {
+      settle(errorResult(message));
+    }
+  };
+
+  const onMessage = (event: MessageEvent) => {
+    if (event.source === null || event.source !== frameWindow()) return;
+    if (!isBridgeMessage(event.data)) return;
+    if (!origins.includes("*") && !origins.includes(event.origin)) return;
+    const message = event.data as ChildMessage;
+    if (message.type === "tools") {
+      onTools(message.tools);
+    } else if (message.type === "result") {
+      pending
+        .get(message.id)
+        ?.(message.error !== undefined ? errorResult(message.error) : message.result);
+    } else if (message.type === "unload") {
+      settleAll("The frame unloaded before answering.");
+      onTools([]);
+    }
+  };
+
+  window.addEventListener("message", onMessage);
+  // The frame may have exposed its tools before we started listening.
+  post({ source: SOURCE, type: "hello" });
+
+  return {
+    call: (name, input, signal) =>
+      new Promise<unknown>((resolve) => {
+        const id = `frame-call-${++nextId}`;
+        const settle = (result: unknown) => {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", onAbort);
+          pending.delete(id);
+          resolve(result);
+        };
+        const cancel = (message: string) => {
+          post({ source: SOURCE, type: "cancel", id });
+          settle(errorResult(message));
+        };
+        const onAbort = () => cancel(`Tool "${prefix + name}" was cancelled.`);
+        const timer = setTimeout(
+          () => cancel(`Tool "${prefix + name}" did not answer within ${timeoutMs} ms.`),
+          timeoutMs,
+        );
+        pending.set(id, settle);
+        if (signal?.aborted) {
+          settle(errorResult(`Tool "${prefix + name}" was cancelled.`));
+          return;
+        }
+        signal?.addEventListener("abort", onAbort);
+        post({ source: SOURCE, type: "call", id, name, input });
+      }),
+    close() {
+      window.removeEventListener("message", onMessage);
+      settleAll("The frame was disconnected before answering.");
+    },
+  };
+}
+
+/**
+ * The definition a frame tool is registered under in the parent: calls
+ * are proxied through the connection, forwarding `context.signal`. The
+ * frame asks for confirmation itself, so the proxy does not. Internal.
+ */
+export function toFrameToolDefinition(
+  tool: FrameToolDescription,
+  prefix: string,
+  getConnection: () => FrameConnection | null,
+): WebMCPToolDefinition {
+  const definition: WebMCPToolDefinition = {
+    name: prefix + tool.name,
+    description: tool.description,
+    inputSchema: tool.inputSchema,
+    requireConfirmation: false,
+    execute: (input, context) => {
+      const connection = getConnection();
+      if (!connection) {
+        return errorResult(`Tool "${prefix + tool.name}" is no longer connected.`);
+      }
+      return connection.call(tool.name, input, context.signal);
+    },
+  };
+  if (tool.outputSchema) definition.outputSchema = tool.outputSchema;
+  if (tool.annotations) definition.annotations = tool.annotations;
+  return definition;
+}
+
+/**
+ * Register the tools a child frame exposes with `exposeFrameTools()` (or
+ * `<WebMCPFrameBridge>`) in this document's `navigator.modelContext`,
+ * optionally under a name `prefix`, and proxy agent calls to the frame
+ * over `postMessage`. Input is validated in this document and aborted
+ * calls are cancelled in the frame, which asks for confirmation itself.
+ * Inside React, prefer `useWebMCPFrameTools`, which also applies the
+ * provider's policy, limits and audit log. The registrations follow the
+ * frame's tools and are removed when the frame unloads or the returned
+ * function is called; calls still waiting for the frame then get an
+ * `isError` result.
+ *
+ * @example
+ * ```ts
+ * const disconnect = connectFrameTools({
+ *   frame: document.querySelector("iframe")!,
+ *   allowedOrigins: ["https://app.example"],
+ *   prefix: "app_",
+ * });
+ * ```
+ */
+export function connectFrameTools(options: ConnectFrameToolsOptions): () => void {
+  if (typeof window === "undefined") return () => {};
+  const mc = getModelContext();
+  if (!mc) return () => {};
+  const prefix = options.prefix ?? "";
+
+  // Registered proxies by frame tool name, with a fingerprint to spot
+  // changes and the lifetime that aborts their calls in flight.
+  const registered = new Map<string, { fingerprint: string; lifetime: AbortController }>();
+
+  const unregister = (name: string) => {
+    registered.get(name)?.lifetime.abort();
+    registered.delete(name);
+    try {
+      mc.unregisterTool(prefix + name);
+    } catch {
+      // Already unregistered.
+    }
+  };
+
+  const syncTools = (tools: FrameToolDescription[]) => {
+    const next = new Map(tools.map((tool) => [tool.name, tool]));
+    for (const [name, entry] of Array.from(registered)) {
+      const tool = next.get(name);
+      if (!tool || JSON.stringify(tool) !== entry.fingerprint) unregister(name);
+    }
+    for (const tool of next.values()) {
+      if (registered.has(tool.name)) continue;
+      const proxy = toFrameToolDefinition(tool, prefix, () => connection);
+      const lifetime = new AbortController();
+      const definition: Record<string, unknown> = {
+        name: proxy.name,
+        description: proxy.description,
+        inputSchema: proxy.inputSchema,
+        execute: createExecute(() => proxy, {
+          lifetime: lifetime.signal,
+          owner: "connectFrameTools",
+        }),
+      };
+      if (proxy.outputSchema) definition.outputSchema = proxy.outputSchema;
+      if (proxy.annotations) definition.annotations = proxy.annotations;
+      try {
+        mc.registerTool(definition as unknown as Parameters<typeof mc.registerTool>[0]);
+        registered.set(tool.name, { fingerprint: JSON.stringify(tool), lifetime });
+      } catch (err) {
+        if (process.env.NODE_ENV !== "production") {
+          console.error(
+            `[react-webmcp] Failed to register frame tool "${prefix + tool.name}":`,
+            err,
+          );
+        }
+      }
+    }
+  };
+
+  const connection = openFrameConnection(options, syncTools);
+
+  return () => {
+    connection.close();
+    for (const name of Array.from(registered.keys())) unregister(name);
+  };
+}
@@ -0,0 +1,11 @@
+export { connectMCPBridge } from "./connectMCPBridge";
+export type { MCPBridge, MCPBridgeOptions, MCPBridgeStatus } from "./connectMCPBridge";
+export { exposeFrameTools, connectFrameTools } from "./frameBridge";
+export type { ExposeFrameToolsOptions, ConnectFrameToolsOptions } from "./frameBridge";
+export { createStreamableHTTPTransport, createWebSocketTransport } from "./transports";
+export type {
+  JSONRPCMessage,
+  MCPTransport,
+  StreamableHTTPTransportOptions,
+  WebSocketTransportOptions,
+} from "./transports";
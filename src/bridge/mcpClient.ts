@@ -0,0 +1,143 @@
+import type { JSONRPCMessage, MCPTransport } from "./transports";
+import { PACKAGE_VERSION } from "./version";
+
+const PROTOCOL_VERSION = "2025-06-18";
+
+type NotificationListener = (method: string, params: Record<string, unknown>) => void;
+
+export interface MCPClient {
+  /** Run the `initialize` handshake. */
+  connect: () => Promise<void>;
+  /**
+   * Send a request and resolve with its result. Aborting `signal` sends
+   * `notifications/cancelled` and rejects with the signal's reason.
+   */
+  request: (
+    method: string,
+    params?: Record<string, unknown>,
+    signal?: AbortSignal,
+  ) => Promise<unknown>;
+  /** Listen for server notifications. Returns an unsubscribe function. */
+  onNotification: (listener: NotificationListener) => () => void;
+  /** Close the transport and reject pending requests. */
+  close: () => void;
+}
+
+/**
+ * A minimal MCP client over `transport`: requests with ids, responses,
+ * notifications and cancellation. `onClose` is called if the transport
+ * drops.
+ */
+export function createMCPClient(
+  transport: MCPTransport,
+  onClose: (error?: Error) => void = () => {},
+): MCPClient {
+  const pending = new Map<
+    string | number,
+    { resolve: (value: unknown) => void; reject: (error: unknown) => void }
+  >();
+  const listeners = new Set<NotificationListener>();
+  let nextId = 0;
+  let closed = false;
+
+  const rejectAll = (error: Error) => {
+    for (const { reject } of pending.values()) reject(error);
+    pending.clear();
+  };
+
+  const onMessage = (message: JSONRPCMessage) => {
+    if (message.method !== undefined) {
+      // Notifications (and requests, which this client does not serve).
+      if (message.id === undefined || message.id === null) {
+        for (const listener of Array.from(listeners)) {
+          listener(message.method, message.params ?? {});
+        }
+      } else {
+        void transport
+          .send({
+            jsonrpc: "2.0",
+            id: message.id,
+            error: { code: -32601, message: `Method not found: ${message.method}` },
+          })
+          .catch(() => {});
+      }
+      return;
+    }
+    if (message.id === undefined || message.id === null) return;
+    const entry = pending.get(message.id);
+    if (!entry) return;
+    pending.delete(message.id);
+    if (message.error) {
+      entry.reject(
+        new Error(`[react-webmcp] MCP error ${message.error.code}: ${message.error.message}`),
+      );
+    } else {
+      entry.resolve(message.result);
+    }
+  };
+
+  const started = transport.start(onMessage, (error) => {
+    closed = true;
+    rejectAll(error ?? new Error("[react-webmcp] The MCP connection closed."));
+    onClose(error);
+  });
+
+  const request: MCPClient["request"] = async (method, params, signal) => {
+    await started;
+    if (closed) throw new Error("[react-webmcp] The MCP connection is closed.");
+    signal?.throwIfAborted();
+    const id = ++nextId;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        pending.delete(id);
+        void transport
+          .send({
+            jsonrpc: "2.0",
+            method: "notifications/cancelled",
+            params: { requestId: id, reason: String(signal?.reason ?? "aborted") },
+          })
+          .catch(() => {});
+        reject(signal?.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      pending.set(id, {
+        resolve: (value) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(value);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      });
+      transport.send({ jsonrpc: "2.0", id, method, params }).catch((error: unknown) => {
+        pending.get(id)?.reject(error);
+        pending.delete(id);
+      });
+    });
+  };
+
+  return {
+    async connect() {
+      await request("initialize", {
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: { name: "react-webmcp", version: PACKAGE_VERSION },
+      });
+      await transport.send({ jsonrpc: "2.0", method: "notifications/initialized" });
+    },
+    request,
+    onNotification(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      rejectAll(new Error("[react-webmcp] The MCP connection was closed."));
+      transport.close();
+    },
+  };
+}
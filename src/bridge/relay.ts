@@ -0,0 +1,324 @@
+import { createServer } from "node:http";
+import type { IncomingMessage } from "node:http";
+import { createHash } from "node:crypto";
+import { createInterface } from "node:readline";
+import type { Duplex, Readable, Writable } from "node:stream";
+
+// ---------------------------------------------------------------------------
+// Minimal WebSocket server (RFC 6455): text frames, ping/pong and close,
+// which is all the bridge uses. Keeps the relay free of dependencies.
+// ---------------------------------------------------------------------------
+
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_PAYLOAD = 16 * 1024 * 1024;
+
+interface PageSocket {
+  send: (text: string) => void;
+  close: (code?: number) => void;
+}
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length;
+  let header: Buffer;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+function acceptWebSocket(
+  socket: Duplex,
+  head: Buffer,
+  onText: (text: string) => void,
+  onClose: () => void,
+): PageSocket {
+  let buffer = Buffer.from(head);
+  let fragments: Buffer[] = [];
+  let closed = false;
+
+  const close = (code = 1000) => {
+    if (closed) return;
+    closed = true;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    socket.end(encodeFrame(0x8, payload));
+    onClose();
+  };
+
+  const parse = () => {
+    while (!closed && buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      // Clients must mask their frames.
+      if (!masked) return close(1002);
+      if (length > MAX_PAYLOAD) return close(1009);
+      if (buffer.length < offset + 4 + length) return;
+
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+      buffer = buffer.subarray(offset + 4 + length);
+
+      if (opcode === 0x0 || opcode === 0x1 || opcode === 0x2) {
+        fragments.push(payload);
+        if (fin) {
+          const text = Buffer.concat(fragments).toString("utf8");
+          fragments = [];
+          onText(text);
+        }
+      } else if (opcode === 0x8) {
+        return close();
+      } else if (opcode === 0x9) {
+        socket.write(encodeFrame(0xa, payload));
+      }
+    }
+  };
+
+  socket.on("data", (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    parse();
+  });
+  socket.on("end", () => close());
+  socket.on("close", () => {
+    if (closed) return;
+    closed = true;
+    onClose();
+  });
+  socket.on("error", () => socket.destroy());
+  parse();
+
+  return {
+    send(text) {
+      if (!closed) socket.write(encodeFrame(0x1, Buffer.from(text, "utf8")));
+    },
+    close,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Relay
+// ---------------------------------------------------------------------------
+
+export interface MCPRelayOptions {
+  /** Port to listen on. Defaults to 8765; `0` picks a free port. */
+  port?: number;
+  /** Interface to listen on. Defaults to `"127.0.0.1"`. */
+  host?: string;
+  /**
+   * Accept pages only from these origins (e.g. `"http://localhost:5173"`).
+   * Defaults to any `localhost`, `127.0.0.1` or `[::1]` origin.
+   */
+  origins?: string[];
+  /** Where MCP messages from the client arrive. Defaults to `process.stdin`. */
+  input?: Readable;
+  /** Where messages for the client go. Defaults to `process.stdout`. */
+  output?: Writable;
+  /** Diagnostic output. Defaults to `process.stderr`. */
+  log?: (message: string) => void;
+}
+
+export interface MCPRelay {
+  /** The port the relay listens on. */
+  port: number;
+  /** Disconnect the page and stop listening. */
+  close: () => Promise<void>;
+}
+
+/** Whether `origin` is a page served from this machine. */
+function isLocalOrigin(origin: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  return (
+    (url.protocol === "http:" || url.protocol === "https:") &&
+    (url.hostname === "localhost" || url.hostname === "127.0.0.1" || url.hostname === "[::1]")
+  );
+}
+
+/** Request id the relay uses when replaying `initialize` to a new page. */
+const REPLAY_ID = "react-webmcp-relay:initialize";
+
+/**
+ * Relay an MCP client speaking newline-delimited JSON-RPC over stdio to a
+ * page that called `connectMCPBridge()`. One page is served at a time; a
+ * new connection (e.g. after a reload) replaces the previous one, replays
+ * the client's `initialize` handshake and tells the client the tool list
+ * changed. Messages sent before any page has connected wait for one;
+ * requests pending when a page disconnects are answered with an error.
+ * Only pages from `options.origins`, or from this machine when it is not
+ * set, may connect; connections without an `Origin` header are refused.
+ * The relay closes when its input ends.
+ */
+export function startMCPRelay(options: MCPRelayOptions = {}): Promise<MCPRelay> {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+  const log =
+    options.log ?? ((message: string) => process.stderr.write(`[react-webmcp] ${message}\n`));
+
+  let page: PageSocket | null = null;
+  let initializeRequest: Record<string, unknown> | null = null;
+  let initializedNotification: string | null = null;
+  let handshakeSent = false;
+  const queue: string[] = [];
+  // Requests forwarded to the current page and not answered yet.
+  const pending = new Map<string, unknown>();
+
+  const toClient = (message: object) => output.write(`${JSON.stringify(message)}\n`);
+
+  const forward = (line: string, message: Record<string, unknown>) => {
+    if (!page) {
+      queue.push(line);
+      return;
+    }
+    if (message.method === "initialize") handshakeSent = true;
+    if (message.method !== undefined && message.id !== undefined && message.id !== null) {
+      pending.set(JSON.stringify(message.id), message.id);
+    }
+    page.send(line);
+  };
+
+  const onClientLine = (line: string) => {
+    if (!line.trim()) return;
+    let message: Record<string, unknown>;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      toClient({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+      return;
+    }
+    if (message.method === "initialize") initializeRequest = message;
+    if (message.method === "notifications/initialized") initializedNotification = line;
+    forward(line, message);
+  };
+
+  const onPageMessage = (text: string) => {
+    let message: Record<string, unknown>;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      log("relay: dropped a malformed message from the page");
+      return;
+    }
+    if (message.id === REPLAY_ID) return;
+    if (message.method === undefined && message.id !== undefined) {
+      pending.delete(JSON.stringify(message.id));
+    }
+    toClient(message);
+  };
+
+  const onPageClosed = (socket: PageSocket) => {
+    if (page !== socket) return;
+    page = null;
+    log("relay: page disconnected");
+    for (const id of pending.values()) {
+      toClient({
+        jsonrpc: "2.0",
+        id,
+        error: { code: -32000, message: "The page disconnected before answering." },
+      });
+    }
+    pending.clear();
+  };
+
+  const onPageConnected = (socket: PageSocket, origin: string) => {
+    if (page) {
+      const previous = page;
+      onPageClosed(previous);
+      previous.close(1001);
+    }
+    page = socket;
+    log(`relay: page connected${origin ? ` from ${origin}` : ""}`);
+
+    // A page that replaces another has not seen the client's handshake.
+    if (handshakeSent && initializeRequest) {
+      socket.send(JSON.stringify({ ...initializeRequest, id: REPLAY_ID }));
+      if (initializedNotification) socket.send(initializedNotification);
+      toClient({ jsonrpc: "2.0", method: "notifications/tools/list_changed" });
+    }
+    for (const line of queue.splice(0)) {
+      forward(line, JSON.parse(line));
+    }
+  };
+
+  const server = createServer((_req, res) => {
+    res.writeHead(426, { "Content-Type": "text/plain" });
+    res.end("react-webmcp relay: connect with connectMCPBridge().\n");
+  });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const key = req.headers["sec-websocket-key"];
+    const origin = req.headers.origin ?? "";
+    if (req.headers.upgrade?.toLowerCase() !== "websocket" || typeof key !== "string") {
+      socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+      return;
+    }
+    const allowed = options.origins
+      ? options.origins.includes(origin)
+      : isLocalOrigin(origin);
+    if (!origin || !allowed) {
+      log(`relay: refused a page from ${origin || "an unknown origin"}`);
+      socket.end("HTTP/1.1 403 Forbidden\r\n\r\n");
+      return;
+    }
+
+    const accept = createHash("sha1").update(key + WEBSOCKET_GUID).digest("base64");
+    socket.write(
+      "HTTP/1.1 101 Switching Protocols\r\n" +
+        "Upgrade: websocket\r\n" +
+        "Connection: Upgrade\r\n" +
+        `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+    );
+    const pageSocket: PageSocket = acceptWebSocket(socket, head, onPageMessage, () =>
+      onPageClosed(pageSocket),
+    );
+    onPageConnected(pageSocket, origin);
+  });
+
+  const lines = createInterface({ input });
+  lines.on("line", onClientLine);
+
+  const close = () =>
+    new Promise<void>((resolve) => {
+      lines.close();
+      page?.close(1001);
+      server.close(() => resolve());
+    });
+  input.on("end", () => void close());
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 8765, options.host ?? "127.0.0.1", () => {
+      const address = server.address();
+      const port = typeof address === "object" && address ? address.port : (options.port ?? 8765);
+      log(`relay: waiting for a page on ws://${options.host ?? "127.0.0.1"}:${port}`);
+      resolve({ port, close });
+    });
+  });
+}
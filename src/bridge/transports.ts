@@ -0,0 +1,238 @@
+/**
+ * A JSON-RPC 2.0 message as exchanged with an MCP server.
+ */
+export interface JSONRPCMessage {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * Carries JSON-RPC messages between `useRemoteMCPTools` and an MCP server.
+ * Implement it to reach servers over other channels.
+ */
+export interface MCPTransport {
+  /**
+   * Start receiving. Messages from the server go to `onMessage`; `onClose`
+   * is called once if the connection ends on its own.
+   */
+  start: (
+    onMessage: (message: JSONRPCMessage) => void,
+    onClose: (error?: Error) => void,
+  ) => Promise<void>;
+  /** Send a message. Rejects if it could not be delivered. */
+  send: (message: JSONRPCMessage) => Promise<void>;
+  /** End the connection. */
+  close: () => void;
+}
+
+// ---------------------------------------------------------------------------
+// Streamable HTTP
+// ---------------------------------------------------------------------------
+
+export interface StreamableHTTPTransportOptions {
+  /** The server's MCP endpoint. */
+  url: string;
+  /** Extra request headers, e.g. `Authorization`. */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Parse a `text/event-stream` body, passing the `data` of each event to
+ * `onData`.
+ */
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => void,
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let data: string[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r\n|\r|\n/);
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line === "") {
+        if (data.length) onData(data.join("\n"));
+        data = [];
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice(line.startsWith("data: ") ? 6 : 5));
+      }
+    }
+  }
+  if (data.length) onData(data.join("\n"));
+}
+
+/**
+ * Connect to an MCP server over Streamable HTTP: each message is POSTed to
+ * `url`, and responses arrive as JSON or as a server-sent event stream.
+ * The session id the server assigns is sent with every later request, and
+ * server notifications (such as `notifications/tools/list_changed`) are
+ * read from a GET event stream when the server offers one.
+ */
+export function createStreamableHTTPTransport(
+  options: StreamableHTTPTransportOptions,
+): MCPTransport {
+  const controller = new AbortController();
+  let sessionId: string | null = null;
+  let protocolVersion: string | null = null;
+  let onMessage: (message: JSONRPCMessage) => void = () => {};
+  let onClose: (error?: Error) => void = () => {};
+
+  const headers = (accept: string): Record<string, string> => {
+    const result: Record<string, string> = { Accept: accept, ...options.headers };
+    if (sessionId) result["Mcp-Session-Id"] = sessionId;
+    if (protocolVersion) result["MCP-Protocol-Version"] = protocolVersion;
+    return result;
+  };
+
+  const deliver = (data: string) => {
+    let message: JSONRPCMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+    const version = (message.result as { protocolVersion?: unknown } | undefined)?.protocolVersion;
+    if (typeof version === "string") protocolVersion = version;
+    onMessage(message);
+  };
+
+  // Server-initiated messages. Servers without a GET stream answer 405.
+  const listen = async () => {
+    try {
+      const response = await fetch(options.url, {
+        method: "GET",
+        headers: headers("text/event-stream"),
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) return;
+      await readEventStream(response.body, deliver);
+    } catch {
+      // Aborted on close, or the stream dropped; requests still work.
+    }
+  };
+
+  return {
+    async start(messageHandler, closeHandler) {
+      onMessage = messageHandler;
+      onClose = closeHandler;
+    },
+    async send(message) {
+      const response = await fetch(options.url, {
+        method: "POST",
+        headers: {
+          ...headers("application/json, text/event-stream"),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(message),
+        signal: controller.signal,
+      });
+      const session = response.headers.get("Mcp-Session-Id");
+      if (session) sessionId = session;
+      if (response.status === 404 && sessionId) {
+        const error = new Error("[react-webmcp] The MCP session expired.");
+        onClose(error);
+        throw error;
+      }
+      if (!response.ok) {
+        throw new Error(`[react-webmcp] MCP server answered HTTP ${response.status}.`);
+      }
+
+      if (message.method === "notifications/initialized") {
+        void listen();
+      }
+      const type = response.headers.get("Content-Type") ?? "";
+      if (type.includes("text/event-stream") && response.body) {
+        // Read in the background; the response arrives through onMessage.
+        readEventStream(response.body, deliver).catch(() => {});
+      } else if (type.includes("application/json")) {
+        const text = await response.text();
+        const parsed: unknown = JSON.parse(text);
+        for (const item of Array.isArray(parsed) ? parsed : [parsed]) {
+          deliver(JSON.stringify(item));
+        }
+      }
+    },
+    close() {
+      controller.abort();
+      if (sessionId) {
+        // Let the server drop the session; failures do not matter.
+        fetch(options.url, { method: "DELETE", headers: headers("application/json") }).catch(
+          () => {},
+        );
+      }
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// WebSocket
+// ---------------------------------------------------------------------------
+
+export interface WebSocketTransportOptions {
+  /** WebSocket URL of the server. */
+  url: string;
+  /** Subprotocols to request, e.g. `"mcp"`. */
+  protocols?: string | string[];
+  /** Open the socket. Defaults to `new WebSocket(url, protocols)`. */
+  createSocket?: (url: string, protocols?: string | string[]) => WebSocket;
+}
+
+/**
+ * Connect to an MCP server over a WebSocket, one JSON-RPC message per
+ * text frame.
+ */
+export function createWebSocketTransport(options: WebSocketTransportOptions): MCPTransport {
+  let socket: WebSocket | null = null;
+  let closing = false;
+
+  return {
+    start(onMessage, onClose) {
+      const createSocket =
+        options.createSocket ??
+        ((url: string, protocols?: string | string[]) => new WebSocket(url, protocols));
+      const ws = createSocket(options.url, options.protocols);
+      socket = ws;
+      return new Promise<void>((resolve, reject) => {
+        let opened = false;
+        ws.addEventListener("open", () => {
+          opened = true;
+          resolve();
+        });
+        ws.addEventListener("message", (event: MessageEvent) => {
+          if (typeof event.data !== "string") return;
+          try {
+            onMessage(JSON.parse(event.data));
+          } catch {
+            // Not JSON; ignore.
+          }
+        });
+        ws.addEventListener("close", () => {
+          if (!opened) {
+            reject(new Error(`[react-webmcp] Could not connect to ${options.url}.`));
+          } else if (!closing) {
+            onClose(new Error("[react-webmcp] The MCP server closed the connection."));
+          }
+        });
+      });
+    },
+    async send(message) {
+      if (!socket || socket.readyState !== socket.OPEN) {
+        throw new Error("[react-webmcp] The MCP connection is not open.");
+      }
+      socket.send(JSON.stringify(message));
+    },
+    close() {
+      closing = true;
+      socket?.close();
+    },
+  };
+}
@@ -0,0 +1,6 @@
+// Replaced with the package version by tsup's `define` at build time.
+declare const __REACT_WEBMCP_VERSION__: string | undefined;
+
+/** The version the bridges report in MCP `serverInfo` / `clientInfo`. */
+export const PACKAGE_VERSION =
+  typeof __REACT_WEBMCP_VERSION__ === "string" ? __REACT_WEBMCP_VERSION__ : "0.0.0-dev";
@@ -0,0 +1,86 @@
+import React, { useId, useSyncExternalStore } from "react";
+import type { ConfirmationQueue, PendingConfirmation } from "../utils/confirmationQueue";
+
+export interface WebMCPConfirmDialogProps {
+  /** Class name for the dialog element. */
+  className?: string;
+  /** Heading text. Defaults to `"Allow the agent to run this tool?"`. */
+  title?: React.ReactNode;
+  /** Approve button label. Defaults to `"Allow"`. */
+  approveLabel?: React.ReactNode;
+  /** Reject button label. Defaults to `"Deny"`. */
+  rejectLabel?: React.ReactNode;
+  /** Reason passed to the agent on rejection. */
+  rejectReason?: string;
+  /** Custom rendering of the call input. Defaults to formatted JSON. */
+  renderInput?: (input: Record<string, unknown>) => React.ReactNode;
+}
+
+/**
+ * The markup of `<WebMCPConfirmDialog>` for a list of pending calls.
+ * Internal; kept apart from the hooks so `WebMCPProvider` can mount it.
+ */
+export function ConfirmDialogView({
+  pending,
+  className,
+  title = "Allow the agent to run this tool?",
+  approveLabel = "Allow",
+  rejectLabel = "Deny",
+  rejectReason,
+  renderInput,
+}: WebMCPConfirmDialogProps & { pending: PendingConfirmation[] }) {
+  const titleId = useId();
+  const current = pending[0];
+
+  if (!current) return null;
+
+  return (
+    <div
+      role="alertdialog"
+      aria-modal="true"
+      aria-labelledby={titleId}
+      className={className}
+      data-webmcp-confirm=""
+      data-tool-name={current.toolName}
+    >
+      <h2 id={titleId} data-webmcp-confirm-title="">
+        {title}
+      </h2>
+      <p data-webmcp-confirm-tool="">
+        <strong>{current.toolName}</strong> — {current.description}
+      </p>
+      {renderInput ? (
+        renderInput(current.input)
+      ) : (
+        <pre data-webmcp-confirm-input="">{JSON.stringify(current.input, null, 2)}</pre>
+      )}
+      {pending.length > 1 && (
+        <p data-webmcp-confirm-queue="">{pending.length - 1} more waiting</p>
+      )}
+      <div data-webmcp-confirm-actions="">
+        <button type="button" onClick={() => current.reject(rejectReason)}>
+          {rejectLabel}
+        </button>
+        <button type="button" onClick={current.approve}>
+          {approveLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const EMPTY: PendingConfirmation[] = [];
+
+/**
+ * The dialog `WebMCPProvider` mounts by default. It shows pending calls
+ * only while no other confirmation UI (`useToolConfirmation` or an
+ * explicit `<WebMCPConfirmDialog>`) is mounted.
+ */
+export function DefaultConfirmDialog({
+  queue,
+  ...props
+}: WebMCPConfirmDialogProps & { queue: ConfirmationQueue }) {
+  const getSnapshot = () => (queue.hasCustomUI() ? EMPTY : queue.getSnapshot());
+  const pending = useSyncExternalStore(queue.subscribeDefault, getSnapshot, () => EMPTY);
+  return <ConfirmDialogView pending={pending} {...props} />;
+}
@@ -0,0 +1,32 @@
+import React from "react";
+import { useToolConfirmation } from "../hooks/useToolConfirmation";
+import { ConfirmDialogView } from "./ConfirmDialogView";
+import type { WebMCPConfirmDialogProps } from "./ConfirmDialogView";
+
+export type { WebMCPConfirmDialogProps } from "./ConfirmDialogView";
+
+/**
+ * Default confirmation prompt for agent calls to destructive tools.
+ *
+ * `<WebMCPProvider>` mounts one by default (see its `confirmDialog` prop).
+ * Mount it yourself to place or configure it, and the provider's default
+ * hides itself. It renders nothing until a call needs approval, then shows the
+ * oldest pending call — tool name, description and input — with approve
+ * and reject buttons. For a custom UI, use `useToolConfirmation()`
+ * directly.
+ *
+ * Renders unstyled markup with `data-webmcp-confirm` attributes to hook
+ * styles onto.
+ *
+ * @example
+ * ```tsx
+ * <WebMCPProvider>
+ *   <App />
+ *   <WebMCPConfirmDialog className="confirm" />
+ * </WebMCPProvider>
+ * ```
+ */
+export function WebMCPConfirmDialog(props: WebMCPConfirmDialogProps) {
+  const { pending } = useToolConfirmation();
+  return <ConfirmDialogView pending={pending} {...props} />;
+}
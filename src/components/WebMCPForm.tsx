@@ -1,5 +1,12 @@
-import React, { useCallback, useEffect, useRef } from "react";
-import type { WebMCPFormSubmitEvent } from "../types";
+import React, { useCallback, useContext, useEffect, useId, useRef } from "react";
+import type { JSONSchema, ToolExecuteContext, WebMCPFormSubmitEvent } from "../types";
+import { WebMCPPolicyContext, WebMCPRuntimeContext } from "../context";
+import { useWebMCPTool } from "../hooks/useWebMCPTool";
+import { useDomSchema } from "../adapters/useDomSchema";
+import { isWebMCPAvailable } from "../utils/modelContext";
+import { evaluatePolicy, policyDeniedResult } from "../utils/policy";
+import { fillFormControls, needsFormFallback } from "../utils/formFallback";
+import { errorResult, textResult } from "../utils/toolResult";
 
 export interface WebMCPFormProps
   extends Omit<React.FormHTMLAttributes<HTMLFormElement>, "onSubmit"> {
@@ -18,15 +25,60 @@ export interface WebMCPFormProps
   onToolActivated?: (toolName: string) => void;
   /** Called when a tool cancel event fires for this form's tool. */
   onToolCancel?: (toolName: string) => void;
+  /**
+   * Register the form through `registerTool()` when the browser lacks the
+   * declarative API or the polyfill is installed. Defaults to true.
+   */
+  imperativeFallback?: boolean;
   children: React.ReactNode;
 }
 
+// ---------------------------------------------------------------------------
+// Imperative fallback
+// ---------------------------------------------------------------------------
+
+/** An agent call waiting for the form to be submitted. */
+interface PendingAgentCall {
+  respondWith: (response: Promise<unknown> | unknown) => void;
+  /** Called after the submit handlers ran, to answer if nobody responded. */
+  submitted: () => void;
+}
+
+/**
+ * Registers a form through the imperative API. Rendered by `WebMCPForm`
+ * only in fallback mode, so the form's hooks stay unconditional.
+ */
+function FormFallbackTool({
+  name,
+  description,
+  inputSchema,
+  execute,
+}: {
+  name: string;
+  description: string;
+  inputSchema: JSONSchema;
+  execute: (input: Record<string, unknown>, context: ToolExecuteContext) => Promise<unknown>;
+}) {
+  useWebMCPTool({ name, description, inputSchema, owner: "WebMCPForm", execute });
+  return null;
+}
+
 /**
  * A React wrapper for the WebMCP declarative API.
  *
  * Renders a `<form>` element with the appropriate WebMCP HTML attributes
  * (`toolname`, `tooldescription`, `toolautosubmit`) so the browser
- * automatically registers it as a WebMCP tool.
+ * automatically registers it as a WebMCP tool. Under a
+ * `<WebMCPProvider policy>`, the attributes are only rendered while the
+ * policy allows the tool, and agent submissions the policy denies are
+ * answered with a refusal instead of reaching `onSubmit`.
+ *
+ * Where `registerTool()` exists but nothing reads the attributes (a
+ * browser without the declarative API, or the polyfill), the form
+ * registers itself imperatively instead: the input schema is derived from
+ * its controls, and an agent call fills them, submits the form (with
+ * `toolAutoSubmit`) or waits for the user to, and resolves with the value
+ * passed to `respondWith`. Disable with `imperativeFallback={false}`.
  *
  * @example
  * ```tsx
@@ -52,10 +104,86 @@ export function WebMCPForm({
   onSubmit,
   onToolActivated,
   onToolCancel,
+  imperativeFallback = true,
   children,
   ...rest
 }: WebMCPFormProps) {
   const formRef = useRef<HTMLFormElement>(null);
+  const runtime = useContext(WebMCPRuntimeContext);
+  const gate = useContext(WebMCPPolicyContext);
+  const ownerId = useId();
+  const fallback = imperativeFallback && needsFormFallback();
+  // In fallback mode, the input schema is derived from the rendered
+  // controls and follows them as they change.
+  const fallbackSchema = useDomSchema(formRef, { enabled: fallback });
+  const agentCallRef = useRef<PendingAgentCall | null>(null);
+  const autoSubmitRef = useRef(toolAutoSubmit);
+  autoSubmitRef.current = toolAutoSubmit;
+
+  // A form the provider's policy denies is rendered without its WebMCP
+  // attributes, so the browser never registers it.
+  const allowed = evaluatePolicy(gate, {
+    phase: "register",
+    name: toolName,
+    description: toolDescription,
+    annotations: undefined,
+    owner: "WebMCPForm",
+  }).allowed;
+
+  // Report the declarative tool to the provider's registry. The browser
+  // registers the form itself, so this only mirrors it for
+  // useRegisteredTools() when WebMCP is available. In fallback mode the
+  // imperative registration reports itself.
+  useEffect(() => {
+    if (!runtime || !allowed || fallback || !isWebMCPAvailable()) return;
+    return runtime.registry.add({
+      name: toolName,
+      description: toolDescription,
+      inputSchema: {},
+      kind: "declarative",
+      owner: "WebMCPForm",
+      ownerId,
+    });
+  }, [runtime, allowed, fallback, toolName, toolDescription, ownerId]);
+
+  const executeFallback = useCallback(
+    (input: Record<string, unknown>, { signal }: ToolExecuteContext): Promise<unknown> => {
+      const form = formRef.current;
+      if (!form) return Promise.resolve(errorResult(`The form "${toolName}" is not mounted.`));
+
+      return new Promise((resolve) => {
+        let responded = false;
+        const settle = (value: unknown) => {
+          if (agentCallRef.current === call) agentCallRef.current = null;
+          signal.removeEventListener("abort", onAbort);
+          resolve(value);
+        };
+        const call: PendingAgentCall = {
+          respondWith: (response) => {
+            responded = true;
+            settle(response);
+          },
+          submitted: () => {
+            if (!responded) settle(textResult(`The form "${toolName}" was submitted.`));
+          },
+        };
+        const onAbort = () => settle(errorResult("Cancelled."));
+
+        agentCallRef.current?.respondWith(
+          errorResult(`Superseded by a newer call to "${toolName}".`),
+        );
+        agentCallRef.current = call;
+        signal.addEventListener("abort", onAbort, { once: true });
+
+        fillFormControls(form, input);
+        window.dispatchEvent(new CustomEvent("toolactivated", { detail: { toolName } }));
+        if (autoSubmitRef.current) {
+          form.dispatchEvent(new Event("submit", { bubbles: true, cancelable: true }));
+        }
+      });
+    },
+    [toolName],
+  );
 
   // Listen for toolactivated and toolcancel events
   useEffect(() => {
@@ -88,21 +216,56 @@ export function WebMCPForm({
 
   const handleSubmit = useCallback(
     (e: React.FormEvent<HTMLFormElement>) => {
-      if (onSubmit) {
-        onSubmit(e.nativeEvent as unknown as WebMCPFormSubmitEvent);
+      const event = e.nativeEvent as unknown as WebMCPFormSubmitEvent;
+
+      // A submission while a fallback agent call waits answers that call,
+      // whether toolAutoSubmit dispatched it or the user submitted.
+      const agentCall = agentCallRef.current;
+      if (agentCall && !event.agentInvoked) {
+        Object.defineProperties(event, {
+          agentInvoked: { value: true, configurable: true },
+          respondWith: { value: agentCall.respondWith, configurable: true },
+        });
+      }
+
+      try {
+        // Agent submissions are checked against the policy again, with the
+        // submitted fields as input.
+        if (event.agentInvoked) {
+          const verdict = evaluatePolicy(gate, {
+            phase: "call",
+            name: toolName,
+            description: toolDescription,
+            annotations: undefined,
+            owner: "WebMCPForm",
+            input: Object.fromEntries(new FormData(e.currentTarget)),
+          });
+          if (!verdict.allowed) {
+            e.preventDefault();
+            event.respondWith(Promise.resolve(policyDeniedResult(toolName, verdict.reason)));
+            return;
+          }
+        }
+
+        if (onSubmit) {
+          onSubmit(event);
+        }
+      } finally {
+        agentCall?.submitted();
       }
     },
-    [onSubmit],
+    [onSubmit, gate, toolName, toolDescription],
   );
 
   // Build the HTML attributes. React doesn't recognize toolname etc.,
   // so we spread them via a plain object cast.
-  const webmcpAttrs: Record<string, string | boolean> = {
-    toolname: toolName,
-    tooldescription: toolDescription,
-  };
-  if (toolAutoSubmit) {
-    webmcpAttrs.toolautosubmit = "";
+  const webmcpAttrs: Record<string, string | boolean> = {};
+  if (allowed) {
+    webmcpAttrs.toolname = toolName;
+    webmcpAttrs.tooldescription = toolDescription;
+    if (toolAutoSubmit) {
+      webmcpAttrs.toolautosubmit = "";
+    }
   }
 
   return (
@@ -113,6 +276,14 @@ export function WebMCPForm({
       {...rest}
     >
       {children}
+      {fallback && allowed && fallbackSchema && (
+        <FormFallbackTool
+          name={toolName}
+          description={toolDescription}
+          inputSchema={fallbackSchema}
+          execute={executeFallback}
+        />
+      )}
     </form>
   );
 }
@@ -0,0 +1,34 @@
+import { useEffect } from "react";
+import { exposeFrameTools } from "../bridge/frameBridge";
+
+export interface WebMCPFrameBridgeProps {
+  /**
+   * Origins of the parent document allowed to see and call the tools, e.g.
+   * `["https://host.example"]`. `"*"` allows any parent.
+   */
+  allowedOrigins: readonly string[];
+  /** Window to expose the tools to. Defaults to `window.parent`. */
+  target?: Window;
+}
+
+/**
+ * Expose the tools registered inside this iframe to the parent document,
+ * which re-registers them with `useWebMCPFrameTools()` (or
+ * `connectFrameTools()`). Renders nothing; mount it once in the embedded
+ * app. The tools are withdrawn on unmount and when the frame unloads.
+ *
+ * @example
+ * ```tsx
+ * // Inside the iframe
+ * <WebMCPFrameBridge allowedOrigins={["https://host.example"]} />
+ * ```
+ */
+export function WebMCPFrameBridge({ allowedOrigins, target }: WebMCPFrameBridgeProps) {
+  const originsKey = allowedOrigins.join(" ");
+  useEffect(
+    () => exposeFrameTools({ allowedOrigins, target }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- origins compared by value
+    [originsKey, target],
+  );
+  return null;
+}
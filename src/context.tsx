@@ -1,5 +1,23 @@
-import React, { createContext, useContext, useMemo } from "react";
+import React, { createContext, useContext, useMemo, useState } from "react";
 import { isWebMCPAvailable, isWebMCPTestingAvailable } from "./utils/modelContext";
+import { createToolRegistry } from "./utils/toolRegistry";
+import type { ToolRegistry } from "./utils/toolRegistry";
+import { createInvocationStore } from "./utils/invocationStore";
+import type { InvocationStore } from "./utils/invocationStore";
+import { createConfirmationQueue } from "./utils/confirmationQueue";
+import { DefaultConfirmDialog } from "./components/ConfirmDialogView";
+import type { WebMCPConfirmDialogProps } from "./components/ConfirmDialogView";
+import type { ConfirmationQueue } from "./utils/confirmationQueue";
+import type { PolicyGate, ToolPolicy } from "./utils/policy";
+import type { AuditConfig } from "./audit/auditLog";
+import { createRateLimiter } from "./utils/rateLimiter";
+import type { RateLimiter } from "./utils/rateLimiter";
+import type { SessionBudget } from "./types";
+import { createRegistrationScheduler } from "./utils/registrationScheduler";
+import type {
+  RegistrationBatching,
+  RegistrationScheduler,
+} from "./utils/registrationScheduler";
 
 interface WebMCPContextValue {
   /** Whether navigator.modelContext is available in this browser. */
@@ -13,11 +31,96 @@ const WebMCPReactContext = createContext<WebMCPContextValue>({
   testingAvailable: false,
 });
 
+/**
+ * Per-provider state shared by the registration hooks and the execute
+ * wrapper.
+ */
+export interface WebMCPRuntime {
+  /** Tools registered beneath the provider (read by `useRegisteredTools`). */
+  registry: ToolRegistry;
+  /** Live execution state per tool (read by `useToolInvocation`). */
+  invocations: InvocationStore;
+  /** Calls awaiting user approval (read by `useToolConfirmation`). */
+  confirmations: ConfirmationQueue;
+  /** The provider's current policy, read by the execute wrapper at call time. */
+  policy: { current: PolicyGate | null };
+  /** The provider's current audit configuration, read when a call settles. */
+  audit: { current: AuditConfig | null };
+  /** Rate, concurrency and budget state for the provider's tools. */
+  limits: RateLimiter;
+  /** The provider's current session budget. */
+  budget: { current: SessionBudget | null };
+  /** Queued registrations, used while `batching` is set. */
+  registrations: RegistrationScheduler;
+  /** The provider's current `registrationBatching`, read at registration time. */
+  batching: { current: RegistrationBatching | null };
+}
+
+/**
+ * The provider's runtime; `null` outside a provider. Internal — not
+ * exported from the package entry point.
+ */
+export const WebMCPRuntimeContext = createContext<WebMCPRuntime | null>(null);
+
+/**
+ * The provider's policy, read by the registration paths at render time so
+ * a policy change re-evaluates which tools are registered. Internal.
+ */
+export const WebMCPPolicyContext = createContext<PolicyGate | null>(null);
+
+export interface WebMCPProviderProps<TContext = unknown> {
+  /**
+   * Decides which tools agents may see and call. Consulted by every
+   * registration path when a tool is registered (denied tools are not
+   * registered) and again before each call (denied calls are refused with
+   * the policy's reason).
+   */
+  policy?: ToolPolicy<TContext>;
+  /** App state passed to `policy` as `context` (e.g. route, user, environment). */
+  policyContext?: TContext;
+  /**
+   * Record every agent tool call (tool, redacted input, outcome, result
+   * summary, duration, annotations) to the given sinks.
+   */
+  audit?: AuditConfig;
+  /**
+   * Cap on agent calls across all tools beneath the provider, per session
+   * or per `windowMs`. Over-budget calls get a rate-limited result.
+   */
+  budget?: SessionBudget;
+  /**
+   * Queue the `registerTool()` / `unregisterTool()` calls of the tools
+   * beneath the provider and apply only the net change once per microtask
+   * or animation frame, so a render burst makes one call per tool that
+   * actually changed. The browser still fires tools-changed per call; the
+   * polyfill coalesces them. Off by default (tools register synchronously).
+   */
+  registrationBatching?: RegistrationBatching;
+  /**
+   * The default `<WebMCPConfirmDialog>` mounted for calls that need the
+   * user's approval, or its props. It hides itself while another
+   * confirmation UI is mounted. Pass `false` to leave confirmation to
+   * your own UI (without one, such calls are refused). Defaults to `true`.
+   */
+  confirmDialog?: boolean | WebMCPConfirmDialogProps;
+  children: React.ReactNode;
+}
+
 /**
  * Provides WebMCP availability information to the component tree.
  *
  * Wrap your application (or a subtree) with `<WebMCPProvider>` to let
- * child components check WebMCP availability via the `useWebMCPStatus` hook.
+ * child components check WebMCP availability via the `useWebMCPStatus` hook,
+ * list the tools registered beneath it via `useRegisteredTools`, follow
+ * agent calls via `useToolInvocation`, and approve calls to destructive
+ * tools in the default `<WebMCPConfirmDialog>` it mounts, or in your own
+ * UI built on `useToolConfirmation`.
+ *
+ * Pass a `policy` to control which tools agents may see and call, based
+ * on the tool's name, annotations and owner and on app state supplied as
+ * `policyContext`, and an `audit` configuration to record every agent call
+ * to pluggable sinks. Set `registrationBatching` on pages with many tools
+ * to coalesce their registrations.
  *
  * @example
  * ```tsx
@@ -28,9 +131,23 @@ const WebMCPReactContext = createContext<WebMCPContextValue>({
  *     </WebMCPProvider>
  *   );
  * }
+ *
+ * // Only read-only tools for signed-out users
+ * <WebMCPProvider
+ *   policy={({ annotations, context }) => context.signedIn || annotations?.readOnlyHint === true}
+ *   policyContext={{ signedIn: !!user }}
+ * >
  * ```
  */
-export function WebMCPProvider({ children }: { children: React.ReactNode }) {
+export function WebMCPProvider<TContext = unknown>({
+  policy,
+  policyContext,
+  audit,
+  budget,
+  registrationBatching,
+  confirmDialog = true,
+  children,
+}: WebMCPProviderProps<TContext>) {
   const value = useMemo<WebMCPContextValue>(
     () => ({
       available: isWebMCPAvailable(),
@@ -38,10 +155,44 @@ export function WebMCPProvider({ children }: { children: React.ReactNode }) {
     }),
     [],
   );
+  const [runtime] = useState<WebMCPRuntime>(() => {
+    const batching: WebMCPRuntime["batching"] = { current: null };
+    return {
+      registry: createToolRegistry(),
+      invocations: createInvocationStore(),
+      confirmations: createConfirmationQueue(),
+      policy: { current: null },
+      audit: { current: null },
+      limits: createRateLimiter(),
+      budget: { current: null },
+      registrations: createRegistrationScheduler(() => batching.current ?? "microtask"),
+      batching,
+    };
+  });
+  const gate = useMemo<PolicyGate | null>(
+    () => (policy ? { policy, context: policyContext } : null),
+    [policy, policyContext],
+  );
+  // Like the hooks' config refs: calls always see the latest policy,
+  // audit configuration, budget and batching mode.
+  runtime.policy.current = gate;
+  runtime.audit.current = audit ?? null;
+  runtime.budget.current = budget ?? null;
+  runtime.batching.current = registrationBatching ?? null;
 
   return (
     <WebMCPReactContext.Provider value={value}>
-      {children}
+      <WebMCPRuntimeContext.Provider value={runtime}>
+        <WebMCPPolicyContext.Provider value={gate}>
+          {children}
+          {confirmDialog !== false && (
+            <DefaultConfirmDialog
+              queue={runtime.confirmations}
+              {...(confirmDialog === true ? {} : confirmDialog)}
+            />
+          )}
+        </WebMCPPolicyContext.Provider>
+      </WebMCPRuntimeContext.Provider>
     </WebMCPReactContext.Provider>
   );
 }
@@ -0,0 +1,34 @@
+import { useContext, useSyncExternalStore } from "react";
+import { WebMCPRuntimeContext } from "../context";
+import type { RegisteredTool } from "../utils/toolRegistry";
+
+const EMPTY: readonly RegisteredTool[] = [];
+const noopSubscribe = () => () => {};
+const getEmpty = () => EMPTY;
+
+/**
+ * Returns every tool currently registered through this library beneath
+ * the nearest `<WebMCPProvider>` — by `useWebMCPTool`, `useWebMCPContext`,
+ * `WebMCP.Tool` and `WebMCPForm` — with its schema, annotations and
+ * owning component. Re-renders whenever a tool is added or removed.
+ *
+ * Only successful registrations are listed, so the result reflects what
+ * agents can currently see. Returns an empty array outside a provider.
+ *
+ * @example
+ * ```tsx
+ * function AgentStatusBar() {
+ *   const tools = useRegisteredTools();
+ *   return <span>{tools.length} tools: {tools.map((t) => t.name).join(", ")}</span>;
+ * }
+ * ```
+ */
+export function useRegisteredTools(): readonly RegisteredTool[] {
+  const runtime = useContext(WebMCPRuntimeContext);
+  const registry = runtime?.registry;
+  return useSyncExternalStore(
+    registry ? registry.subscribe : noopSubscribe,
+    registry ? registry.getSnapshot : getEmpty,
+    registry ? registry.getSnapshot : getEmpty,
+  );
+}
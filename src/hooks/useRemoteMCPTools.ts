@@ -0,0 +1,234 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type {
+  JSONSchema,
+  JSONSchemaProperty,
+  ToolAnnotations,
+  ToolContent,
+  ToolResult,
+  WebMCPToolDefinition,
+} from "../types";
+import { errorResult } from "../utils/toolResult";
+import { createMCPClient } from "../bridge/mcpClient";
+import type { MCPClient } from "../bridge/mcpClient";
+import {
+  createStreamableHTTPTransport,
+  createWebSocketTransport,
+} from "../bridge/transports";
+import type {
+  MCPTransport,
+  StreamableHTTPTransportOptions,
+  WebSocketTransportOptions,
+} from "../bridge/transports";
+import { useWebMCPContext } from "./useWebMCPContext";
+
+/**
+ * How `useRemoteMCPTools` reaches the server: Streamable HTTP, a
+ * WebSocket, or a function creating any other `MCPTransport` (keep its
+ * identity stable, e.g. by defining it outside the component).
+ */
+export type RemoteMCPTransport =
+  | ({ type: "http" } & StreamableHTTPTransportOptions)
+  | ({ type: "websocket" } & WebSocketTransportOptions)
+  | (() => MCPTransport);
+
+export interface UseRemoteMCPToolsConfig {
+  transport: RemoteMCPTransport;
+  /** Prepended to every remote tool name, e.g. `"crm_"`. */
+  prefix?: string;
+  /**
+   * Register only the remote tools this returns `true` for. Re-applied
+   * whenever it changes, so define it outside the component or memoise it
+   * to avoid re-filtering on every render.
+   */
+  filter?: (tool: RemoteMCPTool) => boolean;
+}
+
+/** A tool as listed by the remote server's `tools/list`. */
+export interface RemoteMCPTool {
+  name: string;
+  description?: string;
+  inputSchema: JSONSchema;
+  outputSchema?: JSONSchemaProperty;
+  annotations?: ToolAnnotations & { title?: string; openWorldHint?: boolean };
+}
+
+export interface RemoteMCPToolsState {
+  /** `"connecting"` until the first `tools/list`, then `"ready"`. */
+  status: "connecting" | "ready" | "error";
+  /** The server's tools (before `prefix` and `filter`). */
+  tools: readonly RemoteMCPTool[];
+  /** Why the connection failed, when `status` is `"error"`. */
+  error: Error | null;
+}
+
+interface MCPContentBlock {
+  type: string;
+  text?: string;
+}
+
+/**
+ * Convert an MCP `CallToolResult` into a `ToolResult`. Text blocks are
+ * kept; other blocks (images, resources) and `structuredContent` become
+ * JSON blocks.
+ */
+function fromCallToolResult(value: unknown): ToolResult {
+  const result = (value ?? {}) as {
+    content?: MCPContentBlock[];
+    structuredContent?: unknown;
+    isError?: boolean;
+  };
+  const content: ToolContent[] = (result.content ?? []).map((block) =>
+    block.type === "text"
+      ? { type: "text", text: block.text ?? "" }
+      : { type: "json", json: block },
+  );
+  if (result.structuredContent !== undefined) {
+    content.push({ type: "json", json: result.structuredContent });
+  }
+  return result.isError ? { content, isError: true } : { content };
+}
+
+/** Compare transport descriptors by value (functions by identity). */
+function transportKey(transport: RemoteMCPTransport): unknown {
+  return typeof transport === "function" ? transport : JSON.stringify(transport);
+}
+
+function openTransport(transport: RemoteMCPTransport): MCPTransport {
+  if (typeof transport === "function") return transport();
+  return transport.type === "http"
+    ? createStreamableHTTPTransport(transport)
+    : createWebSocketTransport(transport);
+}
+
+/**
+ * Make a remote MCP server's tools available to the browser agent.
+ *
+ * Connects to the server (Streamable HTTP or WebSocket), runs `tools/list`
+ * and registers every tool through `useWebMCPContext`, so calls get the
+ * same input validation, policy checks, confirmation and audit as local
+ * tools. Each call is forwarded as `tools/call` and its result converted
+ * to a `ToolResult`; cancelled calls send `notifications/cancelled`. The
+ * tools are re-listed when the server sends
+ * `notifications/tools/list_changed`, and unregistered on unmount or when
+ * the connection drops.
+ *
+ * Returns `{ status, tools, error }`.
+ *
+ * @example
+ * ```tsx
+ * function CRMTools() {
+ *   const { status } = useRemoteMCPTools({
+ *     transport: { type: "http", url: "/api/mcp" },
+ *     prefix: "crm_",
+ *   });
+ *   return status === "error" ? <p>CRM tools are unavailable.</p> : null;
+ * }
+ * ```
+ */
+export function useRemoteMCPTools(config: UseRemoteMCPToolsConfig): RemoteMCPToolsState {
+  const [state, setState] = useState<RemoteMCPToolsState>({
+    status: "connecting",
+    tools: [],
+    error: null,
+  });
+  const clientRef = useRef<MCPClient | null>(null);
+  const transportRef = useRef(config.transport);
+  transportRef.current = config.transport;
+  const key = transportKey(config.transport);
+
+  useEffect(() => {
+    let active = true;
+    const fail = (error: unknown) => {
+      if (!active) return;
+      setState({
+        status: "error",
+        tools: [],
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    };
+
+    setState((prev) =>
+      prev.status === "connecting" && prev.tools.length === 0
+        ? prev
+        : { status: "connecting", tools: [], error: null },
+    );
+    const client = createMCPClient(openTransport(transportRef.current), (error) =>
+      fail(error ?? new Error("[react-webmcp] The MCP connection closed.")),
+    );
+    clientRef.current = client;
+
+    const listTools = async () => {
+      const tools: RemoteMCPTool[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = (await client.request("tools/list", cursor ? { cursor } : {})) as {
+          tools?: RemoteMCPTool[];
+          nextCursor?: string;
+        };
+        tools.push(...(page.tools ?? []));
+        cursor = page.nextCursor;
+      } while (cursor);
+      if (active) setState({ status: "ready", tools, error: null });
+    };
+
+    const unsubscribe = client.onNotification((method) => {
+      if (method === "notifications/tools/list_changed") {
+        listTools().catch(fail);
+      }
+    });
+    client.connect().then(listTools).catch(fail);
+
+    return () => {
+      active = false;
+      unsubscribe();
+      clientRef.current = null;
+      client.close();
+    };
+  }, [key]);
+
+  const prefix = config.prefix ?? "";
+  const { tools: remoteTools } = state;
+  const filter = config.filter;
+  const tools = useMemo<WebMCPToolDefinition[]>(
+    () =>
+      remoteTools
+        .filter((tool) => !filter || filter(tool))
+        .map((tool) => {
+          const annotations: ToolAnnotations = {};
+          for (const hint of ["readOnlyHint", "destructiveHint", "idempotentHint"] as const) {
+            if (tool.annotations?.[hint] !== undefined) {
+              annotations[hint] = tool.annotations[hint];
+            }
+          }
+          const definition: WebMCPToolDefinition = {
+            name: prefix + tool.name,
+            description: tool.description || tool.annotations?.title || tool.name,
+            inputSchema: tool.inputSchema ?? { type: "object" },
+            execute: async (input, context) => {
+              const client = clientRef.current;
+              if (!client) {
+                return errorResult(`Tool "${prefix + tool.name}" is no longer connected.`);
+              }
+              try {
+                return fromCallToolResult(
+                  await client.request(
+                    "tools/call",
+                    { name: tool.name, arguments: input },
+                    context.signal,
+                  ),
+                );
+              } catch (err) {
+                return errorResult(err);
+              }
+            },
+          };
+          if (tool.outputSchema) definition.outputSchema = tool.outputSchema;
+          if (Object.keys(annotations).length > 0) definition.annotations = annotations;
+          return definition;
+        }),
+    [remoteTools, prefix, filter],
+  );
+
+  useWebMCPContext({ tools, owner: "useRemoteMCPTools" });
+  return state;
+}
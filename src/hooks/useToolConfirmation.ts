@@ -0,0 +1,52 @@
+import { useContext, useSyncExternalStore } from "react";
+import { WebMCPRuntimeContext } from "../context";
+import type { PendingConfirmation } from "../utils/confirmationQueue";
+
+const EMPTY: PendingConfirmation[] = [];
+const noopSubscribe = () => () => {};
+const getEmpty = () => EMPTY;
+
+/**
+ * Headless access to agent calls awaiting the user's approval.
+ *
+ * Calls to tools marked `annotations.destructiveHint` (or registered with
+ * `requireConfirmation: true`) pause until `approve()` or `reject()` is
+ * called on their entry. A rejected call is answered with an `isError`
+ * refusal and the handler never runs.
+ *
+ * `<WebMCPProvider>` mounts a default confirmation dialog; while a
+ * component uses this hook (or `<WebMCPConfirmDialog>`, which is built on
+ * it), that UI replaces the default dialog. Calls are refused immediately
+ * only with `confirmDialog={false}` and no such component mounted. Outside
+ * a provider `pending` is always empty.
+ *
+ * @example
+ * ```tsx
+ * function ConfirmBar() {
+ *   const { current } = useToolConfirmation();
+ *   if (!current) return null;
+ *   return (
+ *     <div role="alert">
+ *       Allow the agent to run {current.toolName}?
+ *       <button onClick={current.approve}>Allow</button>
+ *       <button onClick={() => current.reject("Not now")}>Deny</button>
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useToolConfirmation(): {
+  /** Every pending call, oldest first. */
+  pending: PendingConfirmation[];
+  /** The oldest pending call, or `null`. */
+  current: PendingConfirmation | null;
+} {
+  const runtime = useContext(WebMCPRuntimeContext);
+  const confirmations = runtime?.confirmations;
+  const pending = useSyncExternalStore(
+    confirmations ? confirmations.subscribe : noopSubscribe,
+    confirmations ? confirmations.getSnapshot : getEmpty,
+    confirmations ? confirmations.getSnapshot : getEmpty,
+  );
+  return { pending, current: pending[0] ?? null };
+}
@@ -0,0 +1,41 @@
+import { useCallback, useContext, useSyncExternalStore } from "react";
+import { WebMCPRuntimeContext } from "../context";
+import { IDLE_INVOCATION } from "../utils/invocationStore";
+import type { ToolInvocationState } from "../utils/invocationStore";
+
+const noopSubscribe = () => () => {};
+
+/**
+ * Follow agent calls to a tool registered beneath the nearest
+ * `<WebMCPProvider>` (by `useWebMCPTool`, `useWebMCPContext` or
+ * `WebMCP.Tool`).
+ *
+ * Returns `{ status, lastInput, lastResult, lastError, startedAt,
+ * durationMs, count }` and re-renders whenever the tool's wrapped
+ * `execute` starts or settles. A call counts as an error when the handler
+ * throws or rejects, or returns an `isError` result (including rejected
+ * input). Outside a provider the state stays `"idle"`.
+ *
+ * @example
+ * ```tsx
+ * function SearchStatus() {
+ *   const { status, durationMs } = useToolInvocation("searchFlights");
+ *   if (status === "running") return <Spinner label="Agent is searching…" />;
+ *   if (status === "error") return <p>The agent's search failed.</p>;
+ *   return durationMs !== null ? <p>Last search took {durationMs} ms</p> : null;
+ * }
+ * ```
+ */
+export function useToolInvocation(name: string): ToolInvocationState {
+  const runtime = useContext(WebMCPRuntimeContext);
+  const invocations = runtime?.invocations;
+  const getSnapshot = useCallback(
+    () => (invocations ? invocations.getSnapshot(name) : IDLE_INVOCATION),
+    [invocations, name],
+  );
+  return useSyncExternalStore(
+    invocations ? invocations.subscribe : noopSubscribe,
+    getSnapshot,
+    getSnapshot,
+  );
+}
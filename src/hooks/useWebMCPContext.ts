@@ -1,30 +1,154 @@
-import { useEffect, useRef } from "react";
-import type { WebMCPToolDefinition } from "../types";
-import { getModelContext, warnIfUnavailable } from "../utils/modelContext";
+import { useContext, useEffect, useId, useMemo, useRef } from "react";
+import type { ModelContext, WebMCPContextConfig } from "../types";
+import {
+  getModelContext,
+  reportRegistrationError,
+  warnIfUnavailable,
+} from "../utils/modelContext";
+import { createExecute } from "../utils/createExecute";
+import { resolveInputSchema } from "../utils/standardSchema";
+import { evaluatePolicy } from "../utils/policy";
+import { structuralKey } from "../utils/fingerprint";
+import { toolDirectory } from "../utils/toolDirectory";
+import type { ScheduledTool } from "../utils/registrationScheduler";
+import { WebMCPPolicyContext, WebMCPRuntimeContext } from "../context";
+import type { WebMCPRuntime } from "../context";
+
+type ContextTool = WebMCPContextConfig["tools"][number];
 
 /**
- * Produces a stable fingerprint string from a tools array so we can detect
- * meaningful changes without being tricked by new array references.
- * Compares tool names, descriptions, and serialised input schemas.
+ * Produces a stable fingerprint string for one tool so we can detect
+ * meaningful changes without being tricked by new object references.
+ * Compares the name, description and serialised schemas (Standard Schema
+ * validators by their converted JSON Schema) and annotations, each cached
+ * per object.
  */
-function toolsFingerprint(tools: WebMCPToolDefinition[]): string {
-  return tools
-    .map(
-      (t) =>
-        `${t.name}::${t.description}::${JSON.stringify(t.inputSchema)}::${JSON.stringify(t.outputSchema ?? {})}::${JSON.stringify(t.annotations ?? {})}`,
-    )
-    .join("|");
+function toolFingerprint(t: ContextTool): string {
+  return `${t.name}::${t.description}::${structuralKey(resolveInputSchema(t.inputSchema, t.name))}::${structuralKey(t.outputSchema ?? {})}::${structuralKey(t.annotations ?? {})}`;
+}
+
+/**
+ * Produces a stable fingerprint string from a tools array, so passing a new
+ * array reference does not look like a change.
+ */
+function toolsFingerprint(tools: WebMCPContextConfig["tools"]): string {
+  return tools.map(toolFingerprint).join("|");
+}
+
+/**
+ * Build the definition handed to `navigator.modelContext` for `tool`.
+ */
+function toToolDefinition(
+  tool: ContextTool,
+  execute: (input: Record<string, unknown>) => unknown,
+): Record<string, unknown> {
+  const def: Record<string, unknown> = {
+    name: tool.name,
+    description: tool.description,
+    inputSchema: resolveInputSchema(tool.inputSchema, tool.name),
+    execute,
+  };
+  if (tool.annotations) {
+    def.annotations = tool.annotations;
+  }
+  if (tool.outputSchema) {
+    def.outputSchema = tool.outputSchema;
+  }
+  return def;
+}
+
+/** A tool registered by the hook in cooperative mode. */
+interface OwnedTool {
+  fingerprint: string;
+  runtime: WebMCPRuntime | null;
+  owner: string;
+  /** Unregister the tool and abort its calls in flight. */
+  remove: () => void;
+}
+
+/**
+ * Register `tool` on its own with `registerTool()`, or through the
+ * provider's scheduler when registrations are batched. Returns a function
+ * that unregisters it again, or `null` if registration failed.
+ */
+function registerOwnTool(
+  mc: ModelContext,
+  tool: ContextTool,
+  getTool: () => ContextTool,
+  options: { runtime: WebMCPRuntime | null; owner: string; ownerId: string },
+): (() => void) | null {
+  const { runtime, owner, ownerId } = options;
+  const lifetime = new AbortController();
+  const def = toToolDefinition(
+    tool,
+    createExecute(getTool, { runtime, lifetime: lifetime.signal, owner }),
+  );
+  let unregister = () => {
+    try {
+      mc.unregisterTool(tool.name);
+    } catch {
+      // Tool may have already been unregistered externally
+    }
+  };
+  if (runtime?.batching.current) {
+    unregister = runtime.registrations.register(def as ScheduledTool, (err) => {
+      removeFromDirectory();
+      removeFromRegistry?.();
+      reportRegistrationError(tool.name, err);
+    });
+  } else {
+    try {
+      mc.registerTool(def as unknown as Parameters<typeof mc.registerTool>[0]);
+    } catch (err) {
+      reportRegistrationError(tool.name, err);
+      lifetime.abort();
+      return null;
+    }
+  }
+
+  const removeFromDirectory = toolDirectory.add(
+    def as unknown as Parameters<typeof toolDirectory.add>[0],
+  );
+  const removeFromRegistry = runtime?.registry.add({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: resolveInputSchema(tool.inputSchema, tool.name),
+    outputSchema: tool.outputSchema,
+    annotations: tool.annotations,
+    kind: "imperative",
+    owner,
+    ownerId,
+  });
+  return () => {
+    unregister();
+    removeFromDirectory();
+    removeFromRegistry?.();
+    lifetime.abort();
+  };
 }
 
 /**
- * Register multiple WebMCP tools at once using `provideContext()`.
+ * Register a set of WebMCP tools from one component.
+ *
+ * By default the hook manages only its own tools: it diffs the `tools`
+ * array against what it registered before and calls `registerTool()` /
+ * `unregisterTool()` for the tools that were added, removed or changed,
+ * leaving tools registered elsewhere (by `useWebMCPTool`, `WebMCP.Tool` or
+ * other `useWebMCPContext` calls) alone. On unmount, its tools are
+ * unregistered.
  *
- * Unlike `useWebMCPTool` which manages a single tool, `useWebMCPContext`
- * replaces the entire set of registered tools. This is useful when the
- * application state changes significantly and you want to expose a
- * completely different set of tools.
+ * With `mode: "exclusive"`, the hook instead replaces the entire set of
+ * registered tools with `provideContext()` and clears it with
+ * `clearContext()` on unmount, removing every other registration too. This
+ * is useful when the application state changes significantly and you want
+ * to expose a completely different set of tools.
  *
- * On unmount, all tools are cleared via `clearContext()`.
+ * As with `useWebMCPTool`, agent input is validated against each tool's
+ * `inputSchema` before its `execute` handler runs, and `normalizeResult`
+ * can be set per tool. Each handler receives a context `signal` that aborts
+ * when the tool is unregistered or replaced, on `toolcancel`, or after the
+ * tool's `timeoutMs`. Under a `<WebMCPProvider policy>`, only the tools
+ * the policy allows are registered, and each call is checked again.
  *
  * The hook performs a deep comparison of tool definitions (name, description,
  * inputSchema, annotations) so that passing a new array reference on every
@@ -50,19 +174,50 @@ function toolsFingerprint(tools: WebMCPToolDefinition[]): string {
  * });
  * ```
  */
-export function useWebMCPContext(config: {
-  tools: WebMCPToolDefinition[];
-}): void {
+export function useWebMCPContext(config: WebMCPContextConfig): void {
   // Keep a ref to the latest tools so the execute callbacks always close
   // over current handlers without triggering the effect.
   const toolsRef = useRef(config.tools);
   toolsRef.current = config.tools;
+  const ownedRef = useRef(new Map<string, OwnedTool>());
+  const runtime = useContext(WebMCPRuntimeContext);
+  const gate = useContext(WebMCPPolicyContext);
+  const ownerId = useId();
+  const owner = config.owner ?? "useWebMCPContext";
+  const mode = config.mode ?? "cooperative";
+
+  // Recomputed only when a new tools array is passed.
+  const fingerprint = useMemo(() => toolsFingerprint(config.tools), [config.tools]);
 
-  const fingerprint = toolsFingerprint(config.tools);
+  // One flag per tool; tools the provider's policy denies are not
+  // registered.
+  const allowedFlags = config.tools
+    .map((tool) =>
+      evaluatePolicy(gate, {
+        phase: "register",
+        name: tool.name,
+        description: tool.description,
+        annotations: tool.annotations,
+        owner,
+      }).allowed
+        ? "1"
+        : "0",
+    )
+    .join("");
 
   useEffect(() => {
+    const owned = ownedRef.current;
+    const releaseOwned = (keep: (name: string, entry: OwnedTool) => boolean = () => false) => {
+      for (const [name, entry] of Array.from(owned)) {
+        if (keep(name, entry)) continue;
+        owned.delete(name);
+        entry.remove();
+      }
+    };
+
     const mc = getModelContext();
     if (!mc) {
+      releaseOwned();
       warnIfUnavailable("useWebMCPContext");
       return;
     }
@@ -80,43 +235,126 @@ export function useWebMCPContext(config: {
       }
     }
 
-    // Wrap execute functions so they always call through the latest ref,
-    // allowing callers to pass inline arrow functions without triggering
-    // the effect.
-    const stableTools = toolsRef.current.map((tool, idx) => {
-      const def: Record<string, unknown> = {
-        name: tool.name,
-        description: tool.description,
-        inputSchema: tool.inputSchema,
-        execute: (input: Record<string, unknown>) => {
-          return toolsRef.current[idx].execute(input);
-        },
-      };
-      if (tool.annotations) {
-        def.annotations = tool.annotations;
+    if (mode === "exclusive") {
+      releaseOwned();
+      // Wrap execute functions so they always call through the latest ref,
+      // allowing callers to pass inline arrow functions without triggering
+      // the effect.
+      const lifetime = new AbortController();
+      const allowedTools = toolsRef.current
+        .map((tool, idx) => ({ tool, idx }))
+        .filter(({ idx }) => allowedFlags[idx] === "1");
+      const stableTools = allowedTools.map(({ tool, idx }) =>
+        toToolDefinition(
+          tool,
+          createExecute(() => toolsRef.current[idx], {
+            runtime,
+            lifetime: lifetime.signal,
+            owner,
+          }),
+        ),
+      );
+
+      const registryRemovers: Array<() => void> = [];
+      // provideContext() replaces everything, including batched
+      // registrations; apply the queued ones first so none land on top.
+      runtime?.registrations.flush();
+      try {
+        mc.provideContext({
+          tools: stableTools as unknown as Parameters<typeof mc.provideContext>[0]["tools"],
+        });
+        runtime?.registrations.reset();
+        for (const def of stableTools) {
+          registryRemovers.push(
+            toolDirectory.add(def as unknown as Parameters<typeof toolDirectory.add>[0]),
+          );
+        }
+        if (runtime) {
+          for (const { tool } of allowedTools) {
+            registryRemovers.push(
+              runtime.registry.add({
+                name: tool.name,
+                description: tool.description,
+                inputSchema: resolveInputSchema(tool.inputSchema, tool.name),
+                outputSchema: tool.outputSchema,
+                annotations: tool.annotations,
+                kind: "imperative",
+                owner,
+                ownerId,
+              }),
+            );
+          }
+        }
+      } catch (err) {
+        if (process.env.NODE_ENV !== "production") {
+          console.error("[react-webmcp] Failed to provide context:", err);
+        }
       }
-      if (tool.outputSchema) {
-        def.outputSchema = tool.outputSchema;
+
+      return () => {
+        runtime?.registrations.flush();
+        try {
+          mc.clearContext();
+        } catch {
+          // Context may have already been cleared
+        }
+        runtime?.registrations.reset();
+        for (const remove of registryRemovers) {
+          remove();
+        }
+        lifetime.abort();
+      };
+    }
+
+    // Cooperative: register and unregister only what changed.
+    const wanted = new Map<string, { tool: ContextTool; fingerprint: string }>();
+    toolsRef.current.forEach((tool, idx) => {
+      if (allowedFlags[idx] !== "1") return;
+      if (wanted.has(tool.name)) {
+        if (process.env.NODE_ENV !== "production") {
+          console.warn(
+            `[react-webmcp] useWebMCPContext: tool "${tool.name}" appears more than once; ` +
+              `only the first is registered.`,
+          );
+        }
+        return;
       }
-      return def;
+      wanted.set(tool.name, { tool, fingerprint: toolFingerprint(tool) });
     });
 
-    try {
-      mc.provideContext({
-        tools: stableTools as unknown as Parameters<typeof mc.provideContext>[0]["tools"],
-      });
-    } catch (err) {
-      if (process.env.NODE_ENV !== "production") {
-        console.error("[react-webmcp] Failed to provide context:", err);
+    releaseOwned(
+      (name, entry) =>
+        entry.fingerprint === wanted.get(name)?.fingerprint &&
+        entry.runtime === runtime &&
+        entry.owner === owner,
+    );
+    for (const [name, { tool, fingerprint: toolPrint }] of wanted) {
+      if (owned.has(name)) continue;
+      const remove = registerOwnTool(
+        mc,
+        tool,
+        () => toolsRef.current.find((t) => t.name === name) ?? tool,
+        { runtime, owner, ownerId },
+      );
+      if (remove) {
+        owned.set(name, { fingerprint: toolPrint, runtime, owner, remove });
       }
     }
+    // Cooperative tools stay registered across re-runs; the unmount effect
+    // below removes them.
+    return undefined;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fingerprint, runtime, owner, allowedFlags, mode]);
 
-    return () => {
-      try {
-        mc.clearContext();
-      } catch {
-        // Context may have already been cleared
+  // Unregister the cooperative tools on unmount.
+  useEffect(
+    () => () => {
+      const owned = ownedRef.current;
+      for (const entry of owned.values()) {
+        entry.remove();
       }
-    };
-  }, [fingerprint]);
+      owned.clear();
+    },
+    [],
+  );
 }
@@ -0,0 +1,73 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { RefObject } from "react";
+import type { WebMCPToolDefinition } from "../types";
+import { openFrameConnection, toFrameToolDefinition } from "../bridge/frameBridge";
+import type {
+  ConnectFrameToolsOptions,
+  FrameConnection,
+  FrameToolDescription,
+} from "../bridge/frameBridge";
+import { useWebMCPContext } from "./useWebMCPContext";
+
+/**
+ * Register the tools an embedded iframe exposes with `<WebMCPFrameBridge>`
+ * in this document's `navigator.modelContext`, so the top-level agent can
+ * call them. The tools are registered through `useWebMCPContext`, so calls
+ * get the same input validation, policy checks and audit as local tools
+ * before they are proxied to the frame over `postMessage`; the frame asks
+ * for confirmation itself, and cancelled calls are cancelled in the frame.
+ * Messages are only accepted from `allowedOrigins`; `prefix` is prepended
+ * to the tool names, and calls the frame has not answered after
+ * `timeoutMs` (default 30 000) get an `isError` result. The tools are
+ * unregistered on unmount and when the frame unloads.
+ *
+ * @example
+ * ```tsx
+ * function Checkout() {
+ *   const frameRef = useRef<HTMLIFrameElement>(null);
+ *   useWebMCPFrameTools(frameRef, {
+ *     allowedOrigins: ["https://checkout.example"],
+ *     prefix: "checkout_",
+ *   });
+ *   return <iframe ref={frameRef} src="https://checkout.example/embed" />;
+ * }
+ * ```
+ */
+export function useWebMCPFrameTools(
+  frameRef: RefObject<HTMLIFrameElement | null>,
+  options: Omit<ConnectFrameToolsOptions, "frame">,
+): void {
+  const { prefix = "", timeoutMs } = options;
+  // Reconnect when the origins change by value; the array itself is passed
+  // through, so an empty list allows no origin.
+  const originsRef = useRef(options.allowedOrigins);
+  originsRef.current = options.allowedOrigins;
+  const originsKey = options.allowedOrigins.join(" ");
+  const [frameTools, setFrameTools] = useState<FrameToolDescription[]>([]);
+  const connectionRef = useRef<FrameConnection | null>(null);
+
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame || typeof window === "undefined") return;
+    const connection = openFrameConnection(
+      { frame, allowedOrigins: originsRef.current, prefix, timeoutMs },
+      setFrameTools,
+    );
+    connectionRef.current = connection;
+    return () => {
+      connectionRef.current = null;
+      connection.close();
+      setFrameTools([]);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- originsKey
+    // captures allowedOrigins by value.
+  }, [frameRef, originsKey, prefix, timeoutMs]);
+
+  const tools = useMemo<WebMCPToolDefinition[]>(
+    () =>
+      frameTools.map((tool) => toFrameToolDefinition(tool, prefix, () => connectionRef.current)),
+    [frameTools, prefix],
+  );
+
+  useWebMCPContext({ tools, owner: "useWebMCPFrameTools" });
+}
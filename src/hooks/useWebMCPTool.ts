@@ -1,14 +1,42 @@
-import { useEffect, useRef } from "react";
-import type { UseWebMCPToolConfig } from "../types";
-import { getModelContext, warnIfUnavailable } from "../utils/modelContext";
+import { useContext, useEffect, useId, useMemo, useRef } from "react";
+import type {
+  JSONSchema,
+  ReadonlyJSONSchema,
+  ReadonlyJSONSchemaProperty,
+  StandardSchemaV1,
+  TypedToolConfig,
+  UseWebMCPToolConfig,
+} from "../types";
+import {
+  getModelContext,
+  reportRegistrationError,
+  warnIfUnavailable,
+} from "../utils/modelContext";
+import { createExecute } from "../utils/createExecute";
+import { resolveInputSchema } from "../utils/standardSchema";
+import { evaluatePolicy } from "../utils/policy";
+import { structuralKey } from "../utils/fingerprint";
+import { toolDirectory } from "../utils/toolDirectory";
+import type { ScheduledTool } from "../utils/registrationScheduler";
+import { getTabCoordinator, tabId } from "../utils/tabCoordinator";
+import { WebMCPPolicyContext, WebMCPRuntimeContext } from "../context";
 
 /**
  * Produces a stable fingerprint for a single tool definition so we can
  * detect meaningful changes without being tricked by new object references
- * created on every render (e.g. inline schema literals).
+ * created on every render (e.g. inline schema literals). Takes the
+ * resolved JSON `inputSchema` so Standard Schema validators are compared
+ * by their converted schema. Schema keys are cached per object, so
+ * hoisted or memoised schemas are not re-serialised.
  */
-function toolFingerprint(config: UseWebMCPToolConfig): string {
-  return `${config.name}::${config.description}::${JSON.stringify(config.inputSchema)}::${JSON.stringify(config.outputSchema ?? {})}::${JSON.stringify(config.annotations ?? {})}`;
+function toolFingerprint(
+  name: string,
+  description: string,
+  inputSchema: JSONSchema | Record<string, never>,
+  outputSchema: UseWebMCPToolConfig["outputSchema"],
+  annotations: UseWebMCPToolConfig["annotations"],
+): string {
+  return `${name}::${description}::${structuralKey(inputSchema)}::${structuralKey(outputSchema ?? {})}::${structuralKey(annotations ?? {})}`;
 }
 
 /**
@@ -22,10 +50,27 @@ function toolFingerprint(config: UseWebMCPToolConfig): string {
  *
  * Object/array props like `inputSchema` and `annotations` are compared by
  * value (serialised fingerprint), so passing inline literals on every render
- * will **not** cause unnecessary re-registration.
+ * will **not** cause unnecessary re-registration. Schemas are treated as
+ * immutable: pass a new object rather than mutating one in place.
  *
  * The `execute` callback is always called through a ref, so it does not
- * need to be memoised by the consumer.
+ * need to be memoised by the consumer. Agent input is validated against
+ * `inputSchema` first; invalid input is answered with an `isError` result
+ * listing the problems and the handler is not called (opt out with
+ * `validateInput: false`). Set `normalizeResult: true` to have any return
+ * value — or thrown error — wrapped in a `ToolResult` envelope.
+ *
+ * `execute` also receives a context whose `signal` aborts when the
+ * component unmounts or re-registers the tool, when the agent fires
+ * `toolcancel`, or after `timeoutMs`; the agent then gets an `isError`
+ * cancellation result without waiting for the handler.
+ *
+ * Under a `<WebMCPProvider policy>`, the tool is only registered while the
+ * policy allows it, and each call is checked against the policy again.
+ *
+ * When the app is open in several tabs, `tabMode: "leader"` runs every call
+ * in one elected tab per `tabGroup` (other tabs proxy to it), and
+ * `tabMode: "scoped"` registers the tool under a per-tab name instead.
  *
  * @example
  * ```tsx
@@ -46,14 +91,55 @@ function toolFingerprint(config: UseWebMCPToolConfig): string {
  *   },
  * });
  * ```
+ *
+ * When `inputSchema` is an object literal (or declared `as const`), the
+ * `execute` input is typed from it: required properties are non-optional
+ * and enums become literal unions, so `origin` above is a `string`.
+ *
+ * `inputSchema` may also be a Standard Schema validator such as a Zod
+ * schema. It is converted to JSON Schema for registration, validates agent
+ * input, and `execute` receives (and is typed by) its parsed output.
  */
+export function useWebMCPTool<
+  const TSchema extends ReadonlyJSONSchema | StandardSchemaV1,
+  const TOutput extends ReadonlyJSONSchema | ReadonlyJSONSchemaProperty | undefined = undefined,
+>(config: TypedToolConfig<TSchema, TOutput>): void;
+export function useWebMCPTool(config: UseWebMCPToolConfig): void;
 export function useWebMCPTool(config: UseWebMCPToolConfig): void {
   const registeredNameRef = useRef<string | null>(null);
   const configRef = useRef(config);
   configRef.current = config;
+  const runtime = useContext(WebMCPRuntimeContext);
+  const gate = useContext(WebMCPPolicyContext);
+  const ownerId = useId();
+  const owner = config.owner ?? "useWebMCPTool";
+
+  // Standard Schema validators are converted to JSON Schema (cached per
+  // validator); plain JSON schemas pass through unchanged.
+  const inputSchema = resolveInputSchema(config.inputSchema, config.name);
+
+  // Derive a stable fingerprint from the definition values, skipped
+  // entirely while every part keeps its reference.
+  const fingerprint = useMemo(
+    () =>
+      toolFingerprint(
+        config.name,
+        config.description,
+        inputSchema,
+        config.outputSchema,
+        config.annotations,
+      ),
+    [config.name, config.description, inputSchema, config.outputSchema, config.annotations],
+  );
 
-  // Derive a stable fingerprint from the definition values.
-  const fingerprint = toolFingerprint(config);
+  // Tools the provider's policy denies are not registered at all.
+  const allowed = evaluatePolicy(gate, {
+    phase: "register",
+    name: config.name,
+    description: config.description,
+    annotations: config.annotations,
+    owner,
+  }).allowed;
 
   useEffect(() => {
     const mc = getModelContext();
@@ -73,11 +159,13 @@ export function useWebMCPTool(config: UseWebMCPToolConfig): void {
       );
     }
 
+    if (!allowed) return;
+
     // Pre-check inputSchema serialization (spec stringifies it internally;
     // circular refs or non-serializable values will throw TypeError).
-    if (process.env.NODE_ENV !== "production" && config.inputSchema) {
+    if (process.env.NODE_ENV !== "production" && inputSchema) {
       try {
-        JSON.stringify(config.inputSchema);
+        structuralKey(inputSchema);
       } catch (e) {
         throw new Error(
           `[react-webmcp] Tool "${config.name}" inputSchema is not JSON-serializable: ${e instanceof Error ? e.message : String(e)}`,
@@ -85,8 +173,15 @@ export function useWebMCPTool(config: UseWebMCPToolConfig): void {
       }
     }
 
+    // Tab-scoped tools carry this tab's id in their name.
+    const name = config.tabMode === "scoped" ? `${config.name}_${tabId}` : config.name;
+
+    // Under `<WebMCPProvider registrationBatching>`, registrations are
+    // queued and applied as net changes.
+    const registrations = runtime?.batching.current ? runtime.registrations : null;
+
     // Unregister the previous tool if the name changed
-    if (registeredNameRef.current && registeredNameRef.current !== config.name) {
+    if (!registrations && registeredNameRef.current && registeredNameRef.current !== name) {
       try {
         mc.unregisterTool(registeredNameRef.current);
       } catch {
@@ -96,14 +191,41 @@ export function useWebMCPTool(config: UseWebMCPToolConfig): void {
 
     // Build the tool definition matching the navigator.modelContext shape.
     // The execute function is always routed through configRef so callers
-    // never need to memoise their handler.
+    // never need to memoise their handler. Calls still in flight when this
+    // registration is torn down are aborted via `lifetime`.
+    const lifetime = new AbortController();
+    const execute = createExecute(() => configRef.current, {
+      runtime,
+      lifetime: lifetime.signal,
+      owner,
+    });
+
+    // In "leader" mode, calls run in the tab leading the group; the other
+    // tabs forward them there.
+    let registeredExecute = execute;
+    let leaveGroup: (() => void) | undefined;
+    if (config.tabMode === "leader") {
+      const coordinator = getTabCoordinator();
+      if (coordinator) {
+        const group = config.tabGroup ?? config.name;
+        leaveGroup = coordinator.join(group, name, execute);
+        registeredExecute = (input, call) =>
+          coordinator.isLeader(group)
+            ? execute(input, call)
+            : coordinator.call(group, name, input, configRef.current.timeoutMs, call?.signal);
+      } else if (process.env.NODE_ENV !== "production") {
+        console.warn(
+          `[react-webmcp] Tool "${config.name}" uses tabMode "leader", which needs ` +
+            `BroadcastChannel and Web Locks; it runs in every tab independently.`,
+        );
+      }
+    }
+
     const toolDef: Record<string, unknown> = {
-      name: config.name,
+      name,
       description: config.description,
-      inputSchema: config.inputSchema,
-      execute: (input: Record<string, unknown>) => {
-        return configRef.current.execute(input);
-      },
+      inputSchema,
+      execute: registeredExecute,
     };
     if (config.outputSchema) {
       toolDef.outputSchema = config.outputSchema;
@@ -112,37 +234,59 @@ export function useWebMCPTool(config: UseWebMCPToolConfig): void {
       toolDef.annotations = config.annotations;
     }
 
+    let removeFromRegistry: (() => void) | undefined;
+    let removeFromDirectory: (() => void) | undefined;
+    let unregister = () => {
+      try {
+        mc.unregisterTool(name);
+      } catch {
+        // Tool may have already been unregistered externally
+      }
+    };
     try {
-      mc.registerTool(toolDef as unknown as Parameters<typeof mc.registerTool>[0]);
-      registeredNameRef.current = config.name;
-    } catch (err) {
-      if (process.env.NODE_ENV !== "production") {
-        const isDuplicate =
-          err instanceof DOMException && err.name === "InvalidStateError";
-        if (isDuplicate) {
-          console.warn(
-            `[react-webmcp] Tool "${config.name}" is already registered (InvalidStateError). ` +
-              `This may indicate a duplicate registration or a missed unregisterTool().`,
-          );
-        } else {
-          console.error(
-            `[react-webmcp] Failed to register tool "${config.name}":`,
-            err,
-          );
-        }
+      if (registrations) {
+        unregister = registrations.register(toolDef as ScheduledTool, (err) => {
+          registeredNameRef.current = null;
+          removeFromRegistry?.();
+          removeFromDirectory?.();
+          reportRegistrationError(name, err);
+        });
+      } else {
+        mc.registerTool(toolDef as unknown as Parameters<typeof mc.registerTool>[0]);
       }
+      registeredNameRef.current = name;
+      removeFromDirectory = toolDirectory.add({
+        name,
+        description: config.description,
+        inputSchema,
+        outputSchema: config.outputSchema,
+        annotations: config.annotations,
+        execute: registeredExecute,
+      });
+      removeFromRegistry = runtime?.registry.add({
+        name,
+        description: config.description,
+        inputSchema,
+        outputSchema: config.outputSchema,
+        annotations: config.annotations,
+        kind: "imperative",
+        owner,
+        ownerId,
+      });
+    } catch (err) {
+      reportRegistrationError(name, err);
     }
 
     return () => {
-      try {
-        mc.unregisterTool(config.name);
-      } catch {
-        // Tool may have already been unregistered externally
-      }
+      unregister();
       registeredNameRef.current = null;
+      removeFromRegistry?.();
+      removeFromDirectory?.();
+      leaveGroup?.();
+      lifetime.abort();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps -- fingerprint
     // captures the serialised value of all definition fields; config.name
     // is included so the cleanup closure captures the correct name.
-  }, [fingerprint, config.name]);
+  }, [fingerprint, config.name, runtime, allowed, owner, config.tabMode, config.tabGroup]);
 }
@@ -6,8 +6,21 @@ export type {
   ToolContent,
   ToolContentText,
   ToolContentJSON,
+  ToolResult,
+  ToolExecuteContext,
+  RateLimit,
+  SessionBudget,
   WebMCPToolDefinition,
   UseWebMCPToolConfig,
+  ReadonlyJSONSchema,
+  ReadonlyJSONSchemaProperty,
+  InferSchemaType,
+  InferToolInput,
+  TypedToolConfig,
+  StandardSchemaV1,
+  StandardSchemaIssue,
+  StandardSchemaResult,
+  InferStandardOutput,
   WebMCPContextConfig,
   WebMCPFormSubmitEvent,
   ToolActivatedEvent,
@@ -20,6 +33,20 @@ export type {
 export { useWebMCPTool } from "./hooks/useWebMCPTool";
 export { useWebMCPContext } from "./hooks/useWebMCPContext";
 export { useToolEvent } from "./hooks/useToolEvent";
+export { useRegisteredTools } from "./hooks/useRegisteredTools";
+export type { RegisteredTool } from "./utils/toolRegistry";
+export { useToolInvocation } from "./hooks/useToolInvocation";
+export type { ToolInvocationState } from "./utils/invocationStore";
+export { useToolConfirmation } from "./hooks/useToolConfirmation";
+export type { PendingConfirmation } from "./utils/confirmationQueue";
+export { useWebMCPFrameTools } from "./hooks/useWebMCPFrameTools";
+export { useRemoteMCPTools } from "./hooks/useRemoteMCPTools";
+export type {
+  RemoteMCPTool,
+  RemoteMCPToolsState,
+  RemoteMCPTransport,
+  UseRemoteMCPToolsConfig,
+} from "./hooks/useRemoteMCPTools";
 
 // Components
 export { WebMCPForm } from "./components/WebMCPForm";
@@ -30,9 +57,20 @@ export { WebMCPSelect } from "./components/WebMCPSelect";
 export type { WebMCPSelectProps } from "./components/WebMCPSelect";
 export { WebMCPTextarea } from "./components/WebMCPTextarea";
 export type { WebMCPTextareaProps } from "./components/WebMCPTextarea";
+export { WebMCPConfirmDialog } from "./components/WebMCPConfirmDialog";
+export type { WebMCPConfirmDialogProps } from "./components/WebMCPConfirmDialog";
+export { WebMCPFrameBridge } from "./components/WebMCPFrameBridge";
+export type { WebMCPFrameBridgeProps } from "./components/WebMCPFrameBridge";
 
 // Provider & context
 export { WebMCPProvider, useWebMCPStatus } from "./context";
+export type { WebMCPProviderProps } from "./context";
+export type {
+  ToolPolicy,
+  ToolPolicyRequest,
+  ToolPolicyDecision,
+} from "./utils/policy";
+export type { RegistrationBatching } from "./utils/registrationScheduler";
 
 // Utilities
 export {
@@ -40,11 +78,78 @@ export {
   isWebMCPAvailable,
   isWebMCPTestingAvailable,
 } from "./utils/modelContext";
+export { defineTool } from "./utils/defineTool";
+export { validateInput } from "./utils/validateInput";
+export { validateOutput } from "./utils/validateOutput";
+export { invalidateToolCache } from "./utils/resultCache";
+export {
+  isStandardSchema,
+  standardSchemaToJSONSchema,
+} from "./utils/standardSchema";
+export {
+  textResult,
+  jsonResult,
+  errorResult,
+  normalizeToolResult,
+} from "./utils/toolResult";
+export type { InputValidationIssue } from "./utils/validateInput";
+
+// Polyfill (browsers without WebMCP, jsdom, Node)
+export { createModelContextPolyfill, installWebMCPPolyfill } from "./polyfill";
+export type {
+  ModelContextPolyfill,
+  InstallWebMCPPolyfillOptions,
+  WebMCPPolyfillHandle,
+} from "./polyfill";
+
+// Audit log
+export {
+  createMemoryAuditSink,
+  createConsoleAuditSink,
+  createLocalStorageAuditSink,
+  createBeaconAuditSink,
+  redactInput,
+  toJSONL,
+} from "./audit";
+export type {
+  AuditConfig,
+  AuditEvent,
+  AuditOutcome,
+  AuditRedaction,
+  AuditSink,
+  MemoryAuditSink,
+  LocalStorageAuditSink,
+  BeaconAuditSink,
+  BeaconAuditSinkOptions,
+} from "./audit";
+
+// Bridges: desktop MCP clients (WebSocket), parent frames (postMessage)
+// and remote MCP servers (useRemoteMCPTools transports)
+export {
+  connectMCPBridge,
+  exposeFrameTools,
+  connectFrameTools,
+  createStreamableHTTPTransport,
+  createWebSocketTransport,
+} from "./bridge";
+export type {
+  MCPBridge,
+  MCPBridgeOptions,
+  MCPBridgeStatus,
+  ExposeFrameToolsOptions,
+  ConnectFrameToolsOptions,
+  JSONRPCMessage,
+  MCPTransport,
+  StreamableHTTPTransportOptions,
+  WebSocketTransportOptions,
+} from "./bridge";
 
 // Adapter API (third-party component library support)
 export {
   WebMCP, WebMCPTool, WebMCPField,
-  useRegisterField, useSchemaCollector,
-  extractFields, extractOptions, buildInputSchema, validateSchema,
+  useRegisterField, useSchemaCollector, useDomSchema, useAgentFill, useAgentSubmit,
+  extractFields, extractOptions, extractFormFields, buildInputSchema, validateSchema,
+} from "./adapters";
+export type {
+  WebMCPToolProps, WebMCPFieldProps, FieldDefinition, AgentFill, UseDomSchemaOptions,
 } from "./adapters";
-export type { WebMCPToolProps, WebMCPFieldProps, FieldDefinition } from "./adapters";
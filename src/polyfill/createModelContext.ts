@@ -0,0 +1,169 @@
+import type {
+  ModelContext,
+  ModelContextTesting,
+  WebMCPToolDefinition,
+} from "../types";
+
+/**
+ * A tool as stored by the polyfill: the definition plus the serialised
+ * schema reported by `listTools()`.
+ */
+interface PolyfillTool {
+  definition: WebMCPToolDefinition;
+  inputSchema: string;
+  readOnlyHint: boolean;
+}
+
+/**
+ * The pair of objects produced by `createModelContextPolyfill()`.
+ */
+export interface ModelContextPolyfill {
+  modelContext: ModelContext;
+  modelContextTesting: ModelContextTesting;
+}
+
+// Every `modelContext` created here, so the library can tell it apart from
+// a native implementation.
+const polyfills = new WeakSet<object>();
+
+/**
+ * Returns true if `modelContext` was created by
+ * `createModelContextPolyfill()`. Internal.
+ */
+export function isModelContextPolyfill(modelContext: object): boolean {
+  return polyfills.has(modelContext);
+}
+
+function invalidState(message: string): DOMException {
+  return new DOMException(message, "InvalidStateError");
+}
+
+/**
+ * Create an in-memory implementation of `navigator.modelContext` and
+ * `navigator.modelContextTesting`.
+ *
+ * Follows the semantics of the WebMCP spec's `registerTool()` algorithm:
+ * empty names or descriptions and duplicate names throw an
+ * `InvalidStateError`, the `inputSchema` is stored JSON-stringified (so
+ * non-serialisable schemas throw a `TypeError`), and `readOnlyHint` is
+ * lifted out of the annotations. Tools-changed callbacks fire once per
+ * microtask, however many registrations happened in between.
+ *
+ * Works anywhere — browsers without WebMCP, jsdom and plain Node — and
+ * does not touch `navigator`; use `installWebMCPPolyfill()` for that.
+ *
+ * @example
+ * ```ts
+ * const { modelContext, modelContextTesting } = createModelContextPolyfill();
+ * modelContext.registerTool({
+ *   name: "greet",
+ *   description: "Say hello",
+ *   inputSchema: {},
+ *   execute: () => "hello",
+ * });
+ * await modelContextTesting.executeTool("greet", "{}"); // '"hello"'
+ * ```
+ */
+export function createModelContextPolyfill(): ModelContextPolyfill {
+  const tools = new Map<string, PolyfillTool>();
+  const callbacks = new Set<() => void>();
+  let notifyScheduled = false;
+
+  const notify = () => {
+    if (notifyScheduled) return;
+    notifyScheduled = true;
+    queueMicrotask(() => {
+      notifyScheduled = false;
+      for (const callback of Array.from(callbacks)) {
+        try {
+          callback();
+        } catch (err) {
+          if (process.env.NODE_ENV !== "production") {
+            console.error("[react-webmcp] Tools-changed callback threw:", err);
+          }
+        }
+      }
+    });
+  };
+
+  const register = (tool: WebMCPToolDefinition) => {
+    if (!tool.name) {
+      throw invalidState("Tool name must be a non-empty string.");
+    }
+    if (!tool.description) {
+      throw invalidState(`Tool "${tool.name}" description must be a non-empty string.`);
+    }
+    if (tools.has(tool.name)) {
+      throw invalidState(`A tool named "${tool.name}" is already registered.`);
+    }
+    tools.set(tool.name, {
+      definition: tool,
+      inputSchema: JSON.stringify(tool.inputSchema ?? {}),
+      readOnlyHint: tool.annotations?.readOnlyHint === true,
+    });
+  };
+
+  const modelContext: ModelContext = {
+    registerTool(tool) {
+      register(tool);
+      notify();
+    },
+    unregisterTool(name) {
+      if (!tools.delete(name)) {
+        throw invalidState(`No tool named "${name}" is registered.`);
+      }
+      notify();
+    },
+    provideContext({ tools: nextTools }) {
+      tools.clear();
+      try {
+        for (const tool of nextTools) {
+          register(tool);
+        }
+      } finally {
+        notify();
+      }
+    },
+    clearContext() {
+      if (tools.size === 0) return;
+      tools.clear();
+      notify();
+    },
+  };
+
+  polyfills.add(modelContext);
+
+  const modelContextTesting: ModelContextTesting = {
+    listTools() {
+      return Array.from(tools.values(), (tool) => ({
+        name: tool.definition.name,
+        description: tool.definition.description,
+        inputSchema: tool.inputSchema,
+        readOnlyHint: tool.readOnlyHint,
+      }));
+    },
+    async executeTool(toolName, inputArguments) {
+      const tool = tools.get(toolName);
+      if (!tool) {
+        throw new DOMException(`No tool named "${toolName}" is registered.`, "NotFoundError");
+      }
+      const input = inputArguments ? JSON.parse(inputArguments) : {};
+      // Tools registered through the hooks wrap their handler and supply
+      // their own signal; a bare definition gets one that never aborts.
+      const result = await tool.definition.execute(input, {
+        signal: new AbortController().signal,
+      });
+      return JSON.stringify(result ?? null);
+    },
+    registerToolsChangedCallback(callback) {
+      callbacks.add(callback);
+    },
+    async getCrossDocumentScriptToolResult() {
+      // The polyfill never navigates during executeTool(), so there is
+      // never a pending cross-document result.
+      throw invalidState("No cross-document tool result is available.");
+    },
+  };
+
+  return { modelContext, modelContextTesting };
+}
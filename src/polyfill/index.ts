@@ -0,0 +1,7 @@
+export { createModelContextPolyfill } from "./createModelContext";
+export type { ModelContextPolyfill } from "./createModelContext";
+export { installWebMCPPolyfill } from "./installPolyfill";
+export type {
+  InstallWebMCPPolyfillOptions,
+  WebMCPPolyfillHandle,
+} from "./installPolyfill";
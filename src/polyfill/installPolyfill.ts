@@ -0,0 +1,102 @@
+import type { ModelContext, ModelContextTesting } from "../types";
+import { createModelContextPolyfill } from "./createModelContext";
+
+export interface InstallWebMCPPolyfillOptions {
+  /**
+   * Replace an existing `navigator.modelContext` (e.g. the browser's
+   * native implementation). Defaults to `false`.
+   */
+  force?: boolean;
+  /** The object to install onto. Defaults to the global `navigator`. */
+  target?: object;
+}
+
+/**
+ * Handle returned by `installWebMCPPolyfill()`.
+ */
+export interface WebMCPPolyfillHandle {
+  /** True when the polyfill was installed; false when a native API was kept. */
+  installed: boolean;
+  /** The active `navigator.modelContext` (polyfilled or native). */
+  modelContext: ModelContext;
+  /** The active `navigator.modelContextTesting` (polyfilled or native, if any). */
+  modelContextTesting: ModelContextTesting | undefined;
+  /** Remove the polyfill again. A no-op when nothing was installed. */
+  uninstall: () => void;
+}
+
+/**
+ * Install an in-page `navigator.modelContext` / `navigator.modelContextTesting`
+ * implementation when the browser has none, so tools registered by this
+ * library work in every browser, in jsdom and under test — and can be
+ * driven through `modelContextTesting` by bridges or extensions.
+ *
+ * Call it before rendering so `<WebMCPProvider>` reports the API as
+ * available. An existing native API is left untouched unless `force` is
+ * set.
+ *
+ * @example
+ * ```ts
+ * import { installWebMCPPolyfill } from "react-webmcp";
+ *
+ * installWebMCPPolyfill();
+ * createRoot(document.getElementById("root")!).render(<App />);
+ * ```
+ */
+export function installWebMCPPolyfill(
+  options: InstallWebMCPPolyfillOptions = {},
+): WebMCPPolyfillHandle {
+  const target = (options.target ??
+    (typeof navigator !== "undefined" ? navigator : undefined)) as
+    | { modelContext?: ModelContext; modelContextTesting?: ModelContextTesting }
+    | undefined;
+
+  if (!target) {
+    throw new Error(
+      "[react-webmcp] installWebMCPPolyfill: no navigator found. " +
+        "Pass a `target`, or use createModelContextPolyfill() directly.",
+    );
+  }
+
+  if (target.modelContext && !options.force) {
+    return {
+      installed: false,
+      modelContext: target.modelContext,
+      modelContextTesting: target.modelContextTesting,
+      uninstall: () => {},
+    };
+  }
+
+  const previous = {
+    modelContext: Object.getOwnPropertyDescriptor(target, "modelContext"),
+    modelContextTesting: Object.getOwnPropertyDescriptor(target, "modelContextTesting"),
+  };
+  const polyfill = createModelContextPolyfill();
+
+  for (const key of ["modelContext", "modelContextTesting"] as const) {
+    Object.defineProperty(target, key, {
+      value: polyfill[key],
+      configurable: true,
+      writable: true,
+    });
+  }
+
+  let uninstalled = false;
+  return {
+    installed: true,
+    modelContext: polyfill.modelContext,
+    modelContextTesting: polyfill.modelContextTesting,
+    uninstall: () => {
+      if (uninstalled) return;
+      uninstalled = true;
+      for (const key of ["modelContext", "modelContextTesting"] as const) {
+        const desc = previous[key];
+        if (desc) {
+          Object.defineProperty(target, key, desc);
+        } else {
+          delete target[key];
+        }
+      }
+    },
+  };
+}
@@ -36,6 +36,48 @@ export interface JSONSchema {
   items?: JSONSchemaProperty;
 }
 
+// ---------------------------------------------------------------------------
+// Standard Schema — runtime validators (Zod, Valibot, ArkType, ...)
+//
+// Minimal copies of the Standard Schema (https://standardschema.dev) and
+// Standard JSON Schema interfaces, vendored as the spec recommends so the
+// library takes no dependency on any validator.
+// ---------------------------------------------------------------------------
+
+export interface StandardSchemaIssue {
+  /** The error message of the issue. */
+  readonly message: string;
+  /** The path of the issue, if any. */
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+    /**
+     * Standard JSON Schema converter. Required for the library to derive
+     * the `inputSchema` registered with `navigator.modelContext`.
+     */
+    readonly jsonSchema?: {
+      readonly input: (options: { readonly target: string }) => Record<string, unknown>;
+    };
+  };
+}
+
+/** The parsed output type of a Standard Schema validator. */
+export type InferStandardOutput<S extends StandardSchemaV1> = NonNullable<
+  S["~standard"]["types"]
+>["output"];
+
 // ---------------------------------------------------------------------------
 // Tool annotations — metadata hints for agents
 //
@@ -57,17 +99,22 @@ export interface ToolAnnotations {
   readOnlyHint?: boolean;
   /**
    * Indicates the tool performs a destructive/irreversible operation.
-   * **Library extension** — not yet implemented in the browser.
+   * **Library extension** — not yet implemented in the browser. Calls to
+   * destructive tools wait for user confirmation (see `requireConfirmation`).
    */
   destructiveHint?: boolean;
   /**
    * Indicates the tool is idempotent (safe to retry).
-   * **Library extension** — not yet implemented in the browser.
+   * **Library extension** — not yet implemented in the browser. Identical
+   * calls made while one is in flight share its result, unless the tool
+   * requires confirmation.
    */
   idempotentHint?: boolean;
   /**
    * Indicates results can be cached.
-   * **Library extension** — not yet implemented in the browser.
+   * **Library extension** — not yet implemented in the browser. Results
+   * are reused for identical input for `cacheTtlMs` (see
+   * `invalidateToolCache`). Ignored for tools that require confirmation.
    */
   cache?: boolean;
 }
@@ -88,6 +135,54 @@ export interface ToolContentJSON {
 
 export type ToolContent = ToolContentText | ToolContentJSON;
 
+/**
+ * The envelope returned to agents: a list of content blocks plus an
+ * optional error flag (mirrors MCP's `CallToolResult`).
+ */
+export interface ToolResult {
+  content: ToolContent[];
+  /** True when the tool call failed. */
+  isError?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Execution context — the second argument passed to execute()
+// ---------------------------------------------------------------------------
+
+export interface ToolExecuteContext {
+  /**
+   * Aborts when the call is cancelled: the registering component unmounts
+   * or re-registers the tool, the agent fires `toolcancel` for it, or
+   * `timeoutMs` elapses. `signal.reason` is a `DOMException` named
+   * `"TimeoutError"` for timeouts and `"AbortError"` otherwise.
+   */
+  signal: AbortSignal;
+}
+
+// ---------------------------------------------------------------------------
+// Limits — rate limiting and concurrency control for agent calls
+// ---------------------------------------------------------------------------
+
+/**
+ * Token-bucket rate limit: `limit` calls per `intervalMs`, refilled
+ * continuously, with bursts of up to `burst` calls (defaults to `limit`).
+ */
+export interface RateLimit {
+  limit: number;
+  intervalMs: number;
+  burst?: number;
+}
+
+/**
+ * Provider-wide cap on agent calls across all tools: at most `maxCalls`
+ * per `windowMs`, or per session (the provider's lifetime) when
+ * `windowMs` is omitted.
+ */
+export interface SessionBudget {
+  maxCalls: number;
+  windowMs?: number;
+}
+
 // ---------------------------------------------------------------------------
 // Tool definition — the shape passed to registerTool()
 // ---------------------------------------------------------------------------
@@ -110,8 +205,66 @@ export interface WebMCPToolDefinition {
   outputSchema?: JSONSchema | JSONSchemaProperty;
   /** Optional metadata hints for agents. */
   annotations?: ToolAnnotations;
+  /**
+   * Validate agent input against `inputSchema` before `execute` runs.
+   * Invalid input is answered with an `isError` result and the handler is
+   * not called. Defaults to `true`.
+   *
+   * **Library extension** — not part of the browser's native WebIDL.
+   */
+  validateInput?: boolean;
+  /**
+   * Normalize whatever `execute` returns (strings, plain objects, arrays,
+   * `undefined`, `Error`s, thrown errors and rejected promises) into a
+   * `ToolResult` envelope. Defaults to `false`.
+   */
+  normalizeResult?: boolean;
+  /**
+   * In development, results that do not match `outputSchema` are
+   * reported with `console.warn`; set `strict` to throw instead.
+   * Defaults to `false`.
+   */
+  strict?: boolean;
+  /**
+   * Pause each call until the user approves it through
+   * `useToolConfirmation()` or `<WebMCPConfirmDialog>`. A rejected call is
+   * answered with an `isError` refusal and the handler is not called.
+   * Defaults to `annotations.destructiveHint`; pass `false` to opt a
+   * destructive tool out.
+   *
+   * **Library extension** — requires a `<WebMCPProvider>`.
+   */
+  requireConfirmation?: boolean;
+  /**
+   * Abort the call after this many milliseconds. The agent receives an
+   * `isError` timeout result and `context.signal` aborts with a
+   * `"TimeoutError"`. For tools that need confirmation, the timeout
+   * counts from approval, not from the start of the call.
+   */
+  timeoutMs?: number;
+  /**
+   * Maximum number of calls to this tool running at once. Further calls
+   * wait for a free slot (`concurrencyMode: "queue"`, the default) or are
+   * answered with a rate-limited result (`"reject"`).
+   */
+  maxConcurrent?: number;
+  /** What to do with calls over `maxConcurrent`. Defaults to `"queue"`. */
+  concurrencyMode?: "queue" | "reject";
+  /**
+   * Token-bucket rate limit. Calls over the limit are answered with a
+   * rate-limited result telling the agent when to retry.
+   */
+  rateLimit?: RateLimit;
+  /**
+   * How long results of a tool annotated `cache: true` are reused for
+   * identical input, in milliseconds. Defaults to 60 000.
+   */
+  cacheTtlMs?: number;
   /** The function called when an agent invokes this tool. */
-  execute: (input: Record<string, unknown>) => unknown | Promise<unknown>;
+  execute: (
+    input: Record<string, unknown>,
+    context: ToolExecuteContext,
+  ) => unknown | Promise<unknown>;
 }
 
 // ---------------------------------------------------------------------------
@@ -123,8 +276,12 @@ export interface UseWebMCPToolConfig {
   name: string;
   /** Human-readable description for agents. */
   description: string;
-  /** JSON Schema for the tool's input parameters. */
-  inputSchema: JSONSchema | Record<string, never>;
+  /**
+   * JSON Schema for the tool's input parameters, or a Standard Schema
+   * validator (e.g. a Zod schema). Validators are converted to JSON Schema
+   * for registration and used to validate and parse agent input.
+   */
+  inputSchema: JSONSchema | Record<string, never> | StandardSchemaV1;
   /**
    * Optional JSON Schema for the tool's output.
    *
@@ -133,8 +290,187 @@ export interface UseWebMCPToolConfig {
   outputSchema?: JSONSchema | JSONSchemaProperty;
   /** Optional metadata hints for agents. */
   annotations?: ToolAnnotations;
+  /**
+   * Validate agent input against `inputSchema` before `execute` runs.
+   * Invalid input is answered with an `isError` result and the handler is
+   * not called. Defaults to `true`.
+   */
+  validateInput?: boolean;
+  /**
+   * Normalize whatever `execute` returns (strings, plain objects, arrays,
+   * `undefined`, `Error`s, thrown errors and rejected promises) into a
+   * `ToolResult` envelope. Defaults to `false`.
+   */
+  normalizeResult?: boolean;
+  /**
+   * In development, results that do not match `outputSchema` are
+   * reported with `console.warn`; set `strict` to throw instead.
+   * Defaults to `false`.
+   */
+  strict?: boolean;
+  /**
+   * Pause each call until the user approves it through
+   * `useToolConfirmation()` or `<WebMCPConfirmDialog>`. A rejected call is
+   * answered with an `isError` refusal and the handler is not called.
+   * Defaults to `annotations.destructiveHint`; pass `false` to opt a
+   * destructive tool out.
+   *
+   * **Library extension** — requires a `<WebMCPProvider>`.
+   */
+  requireConfirmation?: boolean;
+  /**
+   * Abort the call after this many milliseconds. The agent receives an
+   * `isError` timeout result and `context.signal` aborts with a
+   * `"TimeoutError"`. For tools that need confirmation, the timeout
+   * counts from approval, not from the start of the call.
+   */
+  timeoutMs?: number;
+  /**
+   * Maximum number of calls to this tool running at once. Further calls
+   * wait for a free slot (`concurrencyMode: "queue"`, the default) or are
+   * answered with a rate-limited result (`"reject"`).
+   */
+  maxConcurrent?: number;
+  /** What to do with calls over `maxConcurrent`. Defaults to `"queue"`. */
+  concurrencyMode?: "queue" | "reject";
+  /**
+   * Token-bucket rate limit. Calls over the limit are answered with a
+   * rate-limited result telling the agent when to retry.
+   */
+  rateLimit?: RateLimit;
+  /**
+   * How long results of a tool annotated `cache: true` are reused for
+   * identical input, in milliseconds. Defaults to 60 000.
+   */
+  cacheTtlMs?: number;
+  /**
+   * How the tool behaves when the app is open in several tabs:
+   *
+   * - `"leader"`: one tab per `tabGroup` is elected with Web Locks; calls
+   *   landing in the other tabs are proxied to it over `BroadcastChannel`.
+   * - `"scoped"`: the tool is registered as `name_<tabId>`, so each tab's
+   *   copy has its own name.
+   *
+   * By default every tab registers and runs the tool independently.
+   */
+  tabMode?: "leader" | "scoped";
+  /**
+   * Tools sharing a `tabGroup` share a leader tab, so a toolset always
+   * runs in one tab. Defaults to the tool name.
+   */
+  tabGroup?: string;
+  /**
+   * Label for the owning component, reported by `useRegisteredTools()`.
+   * Defaults to the registering API (e.g. `"useWebMCPTool"`).
+   */
+  owner?: string;
   /** The handler function called when the tool is invoked. */
-  execute: (input: Record<string, unknown>) => unknown | Promise<unknown>;
+  execute: (
+    input: Record<string, unknown>,
+    context: ToolExecuteContext,
+  ) => unknown | Promise<unknown>;
+}
+
+// ---------------------------------------------------------------------------
+// Schema inference — typed handlers derived from `as const` schemas
+// ---------------------------------------------------------------------------
+
+type DeepReadonly<T> = T extends (infer U)[]
+  ? ReadonlyArray<DeepReadonly<U>>
+  : T extends object
+    ? { readonly [K in keyof T]: DeepReadonly<T[K]> }
+    : T;
+
+/** A `JSONSchema` that may be declared `as const` (readonly arrays and fields). */
+export type ReadonlyJSONSchema = DeepReadonly<JSONSchema>;
+
+/** A `JSONSchemaProperty` that may be declared `as const`. */
+export type ReadonlyJSONSchemaProperty = DeepReadonly<JSONSchemaProperty>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type RequiredKeys<S> = S extends { readonly required: ReadonlyArray<infer R> }
+  ? R
+  : never;
+
+type InferObject<S> = S extends { readonly properties: infer Props }
+  ? Simplify<
+      {
+        -readonly [K in keyof Props as K extends RequiredKeys<S> ? K : never]: InferSchemaType<Props[K]>;
+      } & {
+        -readonly [K in keyof Props as K extends RequiredKeys<S> ? never : K]?: InferSchemaType<Props[K]>;
+      }
+    >
+  : Record<string, unknown>;
+
+/**
+ * The TypeScript type described by a (literal) JSON Schema property.
+ *
+ * `const`, `enum` and `oneOf` become literal unions; `string`, `number`,
+ * `integer` and `boolean` map to their primitives; `array` maps to an
+ * array of its `items`; `object` (or any schema with `properties`) maps to
+ * an object whose `required` keys are non-optional. Anything the schema
+ * does not pin down is `unknown`.
+ */
+export type InferSchemaType<P> = P extends { readonly const: infer C }
+  ? C
+  : P extends { readonly enum: ReadonlyArray<infer E> }
+    ? E
+    : P extends { readonly oneOf: ReadonlyArray<{ readonly const: infer C }> }
+      ? C
+      : P extends { readonly type: "string" }
+        ? string
+        : P extends { readonly type: "number" | "integer" }
+          ? number
+          : P extends { readonly type: "boolean" }
+            ? boolean
+            : P extends { readonly type: "array" }
+              ? P extends { readonly items: infer I }
+                ? InferSchemaType<I>[]
+                : unknown[]
+              : P extends { readonly type: "object" } | { readonly properties: unknown }
+                ? InferObject<P>
+                : unknown;
+
+/**
+ * The `execute` input type for a tool with the given `inputSchema`.
+ * Standard Schema validators yield their parsed output type; non-literal
+ * JSON schemas fall back to `Record<string, unknown>`.
+ *
+ * @example
+ * ```ts
+ * const schema = {
+ *   type: "object",
+ *   properties: { q: { type: "string" }, limit: { type: "integer" } },
+ *   required: ["q"],
+ * } as const;
+ * type Input = InferToolInput<typeof schema>; // { q: string; limit?: number }
+ * ```
+ */
+export type InferToolInput<S> = S extends StandardSchemaV1
+  ? InferStandardOutput<S>
+  : InferObject<S>;
+
+/**
+ * A tool definition whose `execute` input (and, when `outputSchema` is
+ * given, return value) is inferred from its schemas. Accepted by
+ * `defineTool()` and the generic overload of `useWebMCPTool`.
+ */
+export interface TypedToolConfig<
+  TSchema extends ReadonlyJSONSchema | StandardSchemaV1,
+  TOutput extends ReadonlyJSONSchema | ReadonlyJSONSchemaProperty | undefined = undefined,
+> extends Omit<UseWebMCPToolConfig, "inputSchema" | "outputSchema" | "execute"> {
+  /** JSON Schema (declared `as const`) or Standard Schema validator for the input. */
+  inputSchema: TSchema;
+  /** Optional JSON Schema for the tool's output; types `execute`'s return value. */
+  outputSchema?: TOutput;
+  /** The handler function called when the tool is invoked. */
+  execute: (
+    input: InferToolInput<TSchema>,
+    context: ToolExecuteContext,
+  ) => [TOutput] extends [undefined]
+    ? unknown
+    : InferSchemaType<TOutput> | Promise<InferSchemaType<TOutput>>;
 }
 
 // ---------------------------------------------------------------------------
@@ -142,7 +478,19 @@ export interface UseWebMCPToolConfig {
 // ---------------------------------------------------------------------------
 
 export interface WebMCPContextConfig {
-  tools: WebMCPToolDefinition[];
+  tools: Array<WebMCPToolDefinition | UseWebMCPToolConfig>;
+  /**
+   * `"cooperative"` (the default) registers and unregisters the hook's own
+   * tools one by one and leaves other registrations alone. `"exclusive"`
+   * replaces every registered tool with `provideContext()` and clears them
+   * all with `clearContext()` on unmount.
+   */
+  mode?: "cooperative" | "exclusive";
+  /**
+   * Label for the owning component, reported by `useRegisteredTools()`.
+   * Defaults to `"useWebMCPContext"`.
+   */
+  owner?: string;
 }
 
 // ---------------------------------------------------------------------------
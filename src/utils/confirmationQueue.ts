@@ -0,0 +1,155 @@
+import type { ToolAnnotations, ToolResult } from "../types";
+
+/**
+ * A tool call waiting for the user's decision, as returned by
+ * `useToolConfirmation()`.
+ */
+export interface PendingConfirmation {
+  /** Unique id of this request. */
+  id: string;
+  /** Name of the tool the agent is calling. */
+  toolName: string;
+  /** The tool's description. */
+  description: string;
+  /** Validated input the handler will receive if approved. */
+  input: Record<string, unknown>;
+  /** The tool's annotations. */
+  annotations: ToolAnnotations | undefined;
+  /** Let the call run. */
+  approve: () => void;
+  /** Refuse the call; `reason` is passed on to the agent. */
+  reject: (reason?: string) => void;
+}
+
+/**
+ * Queue of tool calls awaiting confirmation, created by `WebMCPProvider`.
+ */
+export interface ConfirmationQueue {
+  /**
+   * Queue a call. Resolves to `null` when approved, or to the refusal
+   * result to return to the agent.
+   */
+  request: (call: {
+    toolName: string;
+    description: string;
+    input: Record<string, unknown>;
+    annotations?: ToolAnnotations;
+    /** Withdraws the request when the call is cancelled. */
+    signal?: AbortSignal;
+  }) => Promise<ToolResult | null>;
+  /** Pending calls, oldest first. Identity only changes when the queue does. */
+  getSnapshot: () => PendingConfirmation[];
+  /**
+   * Subscribe to changes as a confirmation UI (`useToolConfirmation`).
+   * Returns an unsubscribe function.
+   */
+  subscribe: (listener: () => void) => () => void;
+  /**
+   * Subscribe the provider's default dialog. It counts as a confirmation
+   * UI, but is notified when other UIs come and go so it can step aside.
+   */
+  subscribeDefault: (listener: () => void) => () => void;
+  /** True while a confirmation UI other than the default dialog is mounted. */
+  hasCustomUI: () => boolean;
+}
+
+/**
+ * Build the refusal returned to the agent when a call is not confirmed.
+ */
+export function refusalResult(toolName: string, reason: string): ToolResult {
+  return {
+    content: [
+      { type: "text", text: `The user did not confirm the call to tool "${toolName}": ${reason}` },
+      { type: "json", json: { confirmed: false, tool: toolName, reason } },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Create an empty confirmation queue.
+ */
+export function createConfirmationQueue(): ConfirmationQueue {
+  let pending: PendingConfirmation[] = [];
+  const listeners = new Set<() => void>();
+  const defaultListeners = new Set<() => void>();
+  let nextId = 0;
+
+  const emit = () => {
+    for (const listener of [...Array.from(listeners), ...Array.from(defaultListeners)]) {
+      listener();
+    }
+  };
+  const emitDefault = () => {
+    for (const listener of Array.from(defaultListeners)) {
+      listener();
+    }
+  };
+
+  return {
+    request(call) {
+      // Nobody is rendering a confirmation UI, so the call would wait
+      // forever. Refuse it straight away instead.
+      if (listeners.size === 0 && defaultListeners.size === 0) {
+        if (process.env.NODE_ENV !== "production") {
+          console.warn(
+            `[react-webmcp] Tool "${call.toolName}" requires confirmation, but no ` +
+              `useToolConfirmation() or <WebMCPConfirmDialog> is mounted. The call was refused.`,
+          );
+        }
+        return Promise.resolve(
+          refusalResult(call.toolName, "no confirmation prompt is available."),
+        );
+      }
+
+      return new Promise((resolve) => {
+        const id = `confirm-${++nextId}`;
+        const { signal } = call;
+        const onAbort = () => settle(refusalResult(call.toolName, "the call was cancelled."));
+        const settle = (result: ToolResult | null) => {
+          if (!pending.some((p) => p.id === id)) return;
+          pending = pending.filter((p) => p.id !== id);
+          signal?.removeEventListener("abort", onAbort);
+          emit();
+          resolve(result);
+        };
+        pending = [
+          ...pending,
+          {
+            id,
+            toolName: call.toolName,
+            description: call.description,
+            input: call.input,
+            annotations: call.annotations,
+            approve: () => settle(null),
+            reject: (reason) =>
+              settle(refusalResult(call.toolName, reason || "the call was rejected.")),
+          },
+        ];
+        emit();
+
+        if (signal?.aborted) {
+          onAbort();
+        } else {
+          signal?.addEventListener("abort", onAbort);
+        }
+      });
+    },
+    getSnapshot: () => pending,
+    subscribe(listener) {
+      listeners.add(listener);
+      if (listeners.size === 1) emitDefault();
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) emitDefault();
+      };
+    },
+    subscribeDefault(listener) {
+      defaultListeners.add(listener);
+      return () => {
+        defaultListeners.delete(listener);
+      };
+    },
+    hasCustomUI: () => listeners.size > 0,
+  };
+}
@@ -0,0 +1,605 @@
+import type {
+  StandardSchemaResult,
+  ToolExecuteContext,
+  ToolResult,
+  UseWebMCPToolConfig,
+} from "../types";
+import { validateInput, invalidInputResult } from "./validateInput";
+import { validateOutput } from "./validateOutput";
+import { errorResult, normalizeToolResult } from "./toolResult";
+import { fromStandardIssues, isStandardSchema } from "./standardSchema";
+import { refusalResult } from "./confirmationQueue";
+import { evaluatePolicy, policyDeniedResult } from "./policy";
+import { createRateLimiter } from "./rateLimiter";
+import { createResultCache, DEFAULT_CACHE_TTL_MS } from "./resultCache";
+import type { RateLimiter } from "./rateLimiter";
+import type { ResultCache } from "./resultCache";
+import { recordAuditEvent } from "../audit/auditLog";
+import type { WebMCPRuntime } from "../context";
+
+/**
+ * The subset of a tool definition the execute wrapper reads on every call.
+ * Both `UseWebMCPToolConfig` and `WebMCPToolDefinition` satisfy it.
+ */
+export type ExecutableTool = Pick<
+  UseWebMCPToolConfig,
+  | "name"
+  | "description"
+  | "inputSchema"
+  | "outputSchema"
+  | "annotations"
+  | "validateInput"
+  | "strict"
+  | "normalizeResult"
+  | "requireConfirmation"
+  | "timeoutMs"
+  | "maxConcurrent"
+  | "concurrencyMode"
+  | "rateLimit"
+  | "cacheTtlMs"
+  | "execute"
+>;
+
+/**
+ * How `createExecute` is wired into the registering hook.
+ */
+export interface ExecuteOptions {
+  /** The provider's runtime; `null` or omitted outside a provider. */
+  runtime?: WebMCPRuntime | null;
+  /** Aborts in-flight calls; the hooks abort it when they unregister the tool. */
+  lifetime?: AbortSignal;
+  /** The registering component's owner label, as reported to the policy. */
+  owner?: string;
+}
+
+/**
+ * Per-call options the library's bridges pass as the wrapper's second
+ * argument.
+ */
+export interface ExecuteCallOptions {
+  /** Cancels this call only, unlike a `toolcancel` for the tool. */
+  signal?: AbortSignal;
+}
+
+/** The wrapper `createExecute` returns. */
+export type WrappedExecute = (
+  input: Record<string, unknown>,
+  options?: ExecuteCallOptions,
+) => unknown;
+
+/**
+ * Everything the pipeline stages need to know about one call.
+ */
+interface Call {
+  tool: ExecutableTool;
+  runtime: WebMCPRuntime | null;
+  owner: string;
+  context: ToolExecuteContext;
+  limiter: RateLimiter;
+  /** The registration's result cache. */
+  cache: ResultCache;
+  /** Starts the `timeoutMs` timer; a no-op once it runs. */
+  startTimeout: () => void;
+}
+
+/**
+ * In development, check the handler's result against `outputSchema`: warn
+ * about a mismatch, or throw under `strict`. Returns `result` unchanged.
+ */
+function checkOutput(tool: ExecutableTool, result: unknown): unknown {
+  if (process.env.NODE_ENV === "production" || !tool.outputSchema) {
+    return result;
+  }
+  if (result instanceof Promise) {
+    return result.then((value) => checkOutput(tool, value));
+  }
+
+  const issues = validateOutput(tool.outputSchema, result);
+  if (issues.length > 0) {
+    const message =
+      `[react-webmcp] Tool "${tool.name}" returned a result that does not match its outputSchema:\n` +
+      issues.map((issue) => `- ${issue.message}`).join("\n");
+    if (tool.strict) {
+      throw new Error(message);
+    }
+    console.warn(message);
+  }
+  return result;
+}
+
+/**
+ * Call the handler, normalising its result when `normalizeResult` is set.
+ * The raw result is checked against `outputSchema` first.
+ */
+function run(call: Call, input: Record<string, unknown>): unknown {
+  const { tool, context } = call;
+  if (!tool.normalizeResult) {
+    return checkOutput(tool, tool.execute(input, context));
+  }
+
+  let result: unknown;
+  try {
+    result = tool.execute(input, context);
+  } catch (err) {
+    return errorResult(err);
+  }
+  if (result instanceof Promise) {
+    return result.then((value) => normalizeToolResult(checkOutput(tool, value)), errorResult);
+  }
+  return normalizeToolResult(checkOutput(tool, result));
+}
+
+/**
+ * Run the handler while holding one of the tool's `maxConcurrent` slots,
+ * queueing or rejecting the call when none is free.
+ */
+function runWithSlot(call: Call, input: Record<string, unknown>): unknown {
+  const { tool, context } = call;
+  if (tool.maxConcurrent === undefined || tool.maxConcurrent < 1) {
+    return run(call, input);
+  }
+
+  const holdSlot = (slot: (() => void) | ToolResult): unknown => {
+    if (typeof slot !== "function") return slot;
+    // A cancelled call gives up its slot even if the handler keeps running.
+    const release = () => {
+      context.signal.removeEventListener("abort", release);
+      slot();
+    };
+    context.signal.addEventListener("abort", release);
+
+    let result: unknown;
+    try {
+      result = run(call, input);
+    } catch (err) {
+      release();
+      throw err;
+    }
+    if (result instanceof Promise) {
+      return result.finally(release);
+    }
+    release();
+    return result;
+  };
+
+  const slot = call.limiter.acquire(
+    tool.name,
+    tool.maxConcurrent,
+    tool.concurrencyMode ?? "queue",
+    context.signal,
+  );
+  return slot instanceof Promise ? slot.then(holdSlot) : holdSlot(slot);
+}
+
+function needsConfirmation(tool: ExecutableTool): boolean {
+  return tool.requireConfirmation ?? tool.annotations?.destructiveHint ?? false;
+}
+
+/**
+ * Wait for the user to approve calls to tools that require confirmation
+ * (`requireConfirmation`, defaulting to `annotations.destructiveHint`),
+ * then run the handler. Refused calls never reach the handler, and
+ * `timeoutMs` only starts counting once the call is approved.
+ */
+function confirmThenRun(call: Call, input: Record<string, unknown>): unknown {
+  const { tool, runtime } = call;
+  if (!needsConfirmation(tool)) {
+    return runWithSlot(call, input);
+  }
+
+  if (!runtime) {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn(
+        `[react-webmcp] Tool "${tool.name}" requires confirmation, which needs a ` +
+          `<WebMCPProvider>. The call was refused.`,
+      );
+    }
+    return refusalResult(tool.name, "no confirmation prompt is available.");
+  }
+
+  return runtime.confirmations
+    .request({
+      toolName: tool.name,
+      description: tool.description,
+      input,
+      annotations: tool.annotations,
+      signal: call.context.signal,
+    })
+    .then((refusal) => {
+      if (refusal) return refusal;
+      call.startTimeout();
+      return runWithSlot(call, input);
+    });
+}
+
+// Result caches already warned about a `cache` tool that needs confirmation.
+const uncachedWarned = new WeakSet<ResultCache>();
+
+/**
+ * Answer from the registration's result cache for `cache` and
+ * `idempotentHint` tools. Callers sharing a run each keep their own
+ * cancellation; the handler's signal aborts once all of them are cancelled.
+ * Tools that require confirmation are never cached or shared, so every
+ * call is approved on its own.
+ */
+function cacheThenRun(call: Call, input: Record<string, unknown>): unknown {
+  const { tool } = call;
+  // `cache` tools reuse results for `cacheTtlMs`; idempotent tools only
+  // share calls that are still in flight.
+  const cache = tool.annotations?.cache === true;
+  if (!cache && tool.annotations?.idempotentHint !== true) {
+    return confirmThenRun(call, input);
+  }
+  if (needsConfirmation(tool)) {
+    if (cache && process.env.NODE_ENV !== "production" && !uncachedWarned.has(call.cache)) {
+      uncachedWarned.add(call.cache);
+      console.warn(
+        `[react-webmcp] Tool "${tool.name}" is annotated cache: true but requires ` +
+          `confirmation, so its results are not cached.`,
+      );
+    }
+    return confirmThenRun(call, input);
+  }
+  const ttlMs = cache ? (tool.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS) : 0;
+  const caller = { signal: call.context.signal, startTimeout: call.startTimeout };
+  return call.cache.call(tool.name, input, ttlMs, caller, (shared) =>
+    confirmThenRun(
+      { ...call, context: { signal: shared.signal }, startTimeout: shared.startTimeout },
+      input,
+    ),
+  );
+}
+
+/**
+ * Count the call against the session budget and the tool's rate limit.
+ */
+function limitThenRun(call: Call, input: Record<string, unknown>): unknown {
+  const { tool, runtime } = call;
+  const limited = call.limiter.take(tool.name, tool.rateLimit, runtime?.budget.current);
+  if (limited) {
+    return limited;
+  }
+  return cacheThenRun(call, input);
+}
+
+/**
+ * Ask the provider's policy whether this call may run.
+ */
+function authorizeThenRun(call: Call, input: Record<string, unknown>): unknown {
+  const { tool, runtime } = call;
+  const verdict = evaluatePolicy(runtime?.policy.current, {
+    phase: "call",
+    name: tool.name,
+    description: tool.description,
+    annotations: tool.annotations,
+    owner: call.owner,
+    input,
+  });
+  if (!verdict.allowed) {
+    return policyDeniedResult(tool.name, verdict.reason);
+  }
+  return limitThenRun(call, input);
+}
+
+/**
+ * Validate `input` against `tool.inputSchema` and continue with `next`,
+ * passing a Standard Schema validator's parsed output instead of the raw
+ * input. Invalid input is answered with an error result and `next` is not
+ * called. Internal; `WebMCP.Tool` re-validates values the user submits.
+ */
+export function withValidInput(
+  tool: Pick<ExecutableTool, "name" | "inputSchema">,
+  input: Record<string, unknown>,
+  next: (input: Record<string, unknown>) => unknown,
+): unknown {
+  if (isStandardSchema(tool.inputSchema)) {
+    const continueValidated = (result: StandardSchemaResult<unknown>) =>
+      result.issues
+        ? invalidInputResult(tool.name, fromStandardIssues(result.issues))
+        : next(result.value as Record<string, unknown>);
+    const result = tool.inputSchema["~standard"].validate(input ?? {});
+    return result instanceof Promise
+      ? result.then(continueValidated)
+      : continueValidated(result);
+  }
+
+  const issues = validateInput(tool.inputSchema, input);
+  if (issues.length > 0) {
+    return invalidInputResult(tool.name, issues);
+  }
+  return next(input);
+}
+
+/**
+ * Validate the input, check the policy, ask for confirmation if needed,
+ * then run the handler.
+ */
+function invoke(call: Call, input: Record<string, unknown>): unknown {
+  if (call.tool.validateInput === false) {
+    return authorizeThenRun(call, input);
+  }
+  return withValidInput(call.tool, input, (valid) => authorizeThenRun(call, valid));
+}
+
+// ---------------------------------------------------------------------------
+// Cancellation
+// ---------------------------------------------------------------------------
+
+type CancelReason = "timeout" | "toolcancel" | "unregistered";
+
+function cancelledResult(toolName: string, reason: CancelReason, message: string): ToolResult {
+  return {
+    content: [
+      { type: "text", text: message },
+      { type: "json", json: { cancelled: true, tool: toolName, reason } },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Per-call cancellation state: the signal handed to the handler and the
+ * result the agent receives if the call is aborted first.
+ */
+interface CallScope {
+  context: ToolExecuteContext;
+  /** Start the `timeoutMs` timer, if the tool has one. */
+  startTimeout: () => void;
+  /** Set once the call has been aborted. */
+  cancelledWith: ToolResult | null;
+  /** Resolves with `cancelledWith` when the call is aborted. */
+  cancelled: Promise<ToolResult>;
+  /** Remove listeners and timers once the call settles. */
+  dispose: () => void;
+}
+
+// Pause the `timeoutMs` timer of the call a handler's signal belongs to.
+const timeoutPausers = new WeakMap<AbortSignal, () => () => void>();
+
+/**
+ * Stop counting `timeoutMs` for the call `signal` was handed to, e.g. while
+ * it waits for the user. Returns a function that resumes the count with
+ * the time that was left. A no-op for signals of calls without a timeout.
+ * Internal.
+ */
+export function pauseCallTimeout(signal: AbortSignal): () => void {
+  return timeoutPausers.get(signal)?.() ?? (() => {});
+}
+
+function openCallScope(
+  tool: ExecutableTool,
+  lifetime: AbortSignal | undefined,
+  callSignal: AbortSignal | undefined,
+): CallScope {
+  const controller = new AbortController();
+  const cleanups: Array<() => void> = [];
+  let resolveCancelled!: (result: ToolResult) => void;
+
+  const scope: CallScope = {
+    context: { signal: controller.signal },
+    startTimeout: () => {},
+    cancelledWith: null,
+    cancelled: new Promise((resolve) => {
+      resolveCancelled = resolve;
+    }),
+    dispose: () => {
+      for (const cleanup of cleanups.splice(0)) {
+        cleanup();
+      }
+    },
+  };
+
+  const abort = (name: "AbortError" | "TimeoutError", reason: CancelReason, message: string) => {
+    if (controller.signal.aborted) return;
+    scope.cancelledWith = cancelledResult(tool.name, reason, message);
+    controller.abort(new DOMException(message, name));
+    resolveCancelled(scope.cancelledWith);
+    scope.dispose();
+  };
+
+  // The registering component unmounted or re-registered the tool.
+  if (lifetime) {
+    const onUnregister = () =>
+      abort("AbortError", "unregistered", `Tool "${tool.name}" was unregistered before it finished.`);
+    if (lifetime.aborted) {
+      onUnregister();
+      return scope;
+    }
+    lifetime.addEventListener("abort", onUnregister);
+    cleanups.push(() => lifetime.removeEventListener("abort", onUnregister));
+  }
+
+  // The caller cancelled this call alone.
+  if (callSignal) {
+    const onCallCancel = () =>
+      abort("AbortError", "toolcancel", `Tool "${tool.name}" was cancelled by the agent.`);
+    if (callSignal.aborted) {
+      onCallCancel();
+      return scope;
+    }
+    callSignal.addEventListener("abort", onCallCancel);
+    cleanups.push(() => callSignal.removeEventListener("abort", onCallCancel));
+  }
+
+  // The agent cancelled this tool (same event shape as useToolEvent).
+  if (typeof window !== "undefined") {
+    const onToolCancel = (e: Event) => {
+      const toolName =
+        (e as CustomEvent & { toolName?: string }).toolName ??
+        (e as CustomEvent).detail?.toolName;
+      if (toolName === tool.name) {
+        abort("AbortError", "toolcancel", `Tool "${tool.name}" was cancelled by the agent.`);
+      }
+    };
+    window.addEventListener("toolcancel", onToolCancel);
+    cleanups.push(() => window.removeEventListener("toolcancel", onToolCancel));
+  }
+
+  if (tool.timeoutMs !== undefined && tool.timeoutMs > 0) {
+    const timeoutMs = tool.timeoutMs;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let started = false;
+    let remaining = timeoutMs;
+    let armedAt = 0;
+    let pauses = 0;
+    const arm = () => {
+      armedAt = Date.now();
+      timer = setTimeout(
+        () => abort("TimeoutError", "timeout", `Tool "${tool.name}" timed out after ${timeoutMs} ms.`),
+        remaining,
+      );
+    };
+    scope.startTimeout = () => {
+      if (started || controller.signal.aborted) return;
+      started = true;
+      if (pauses === 0) arm();
+    };
+    timeoutPausers.set(controller.signal, () => {
+      if (++pauses === 1 && timer !== undefined) {
+        clearTimeout(timer);
+        timer = undefined;
+        remaining -= Date.now() - armedAt;
+      }
+      let resumed = false;
+      return () => {
+        if (resumed) return;
+        resumed = true;
+        if (--pauses === 0 && started && !controller.signal.aborted) arm();
+      };
+    });
+    cleanups.push(() => clearTimeout(timer));
+  }
+
+  return scope;
+}
+
+/**
+ * Run the pipeline under a call scope. An asynchronous call settles with
+ * the cancellation result as soon as the scope aborts, even if the handler
+ * ignores its signal.
+ */
+function invokeCancellable(
+  tool: ExecutableTool,
+  input: Record<string, unknown>,
+  options: ExecuteOptions,
+  limiter: RateLimiter,
+  cache: ResultCache,
+  callSignal: AbortSignal | undefined,
+): unknown {
+  const scope = openCallScope(tool, options.lifetime, callSignal);
+  if (scope.cancelledWith) {
+    return scope.cancelledWith;
+  }
+
+  const call: Call = {
+    tool,
+    runtime: options.runtime ?? null,
+    owner: options.owner ?? "unknown",
+    context: scope.context,
+    limiter,
+    cache,
+    startTimeout: scope.startTimeout,
+  };
+  // Time the user spends deciding on a confirmation does not count.
+  if (!needsConfirmation(tool)) {
+    scope.startTimeout();
+  }
+  let result: unknown;
+  try {
+    result = invoke(call, input);
+  } catch (error) {
+    scope.dispose();
+    throw error;
+  }
+  if (result instanceof Promise) {
+    return Promise.race([result, scope.cancelled]).finally(scope.dispose);
+  }
+  scope.dispose();
+  return result;
+}
+
+/**
+ * Build the `execute` function handed to `navigator.modelContext`.
+ *
+ * `getTool` is called on every invocation so the wrapper always sees the
+ * latest definition (the hooks pass a ref reader), meaning consumers never
+ * need to memoise their handlers.
+ *
+ * The wrapper validates input against `inputSchema` (unless
+ * `validateInput: false`) and, when `normalizeResult` is set, converts
+ * the handler's return value — including thrown errors and rejected
+ * promises — into a `ToolResult`. When `inputSchema` is a Standard Schema
+ * validator, the handler receives the validator's parsed output. In
+ * development, results are checked against `outputSchema`.
+ *
+ * Inside a `WebMCPProvider`, every call is reported to the provider's
+ * `runtime` so `useToolInvocation` can follow it (and to the provider's
+ * audit sinks, if configured), calls the provider's policy denies are
+ * refused, and calls to tools that require confirmation wait in its
+ * confirmation queue. `rateLimit`, `maxConcurrent` and the provider's
+ * session budget answer over-limit calls with a rate-limited result.
+ * Tools annotated `cache` or `idempotentHint` share identical in-flight
+ * calls, and `cache` tools reuse results for `cacheTtlMs`, unless they
+ * require confirmation. The cache belongs to this wrapper and is dropped
+ * when `options.lifetime` aborts.
+ *
+ * The handler receives a `ToolExecuteContext` whose `signal` aborts when
+ * `options.lifetime` aborts, when the agent fires `toolcancel` for the
+ * tool, when the `signal` passed with this call aborts, or after
+ * `timeoutMs` (counted from approval for tools that require confirmation).
+ * The agent then receives an `isError` cancellation result.
+ */
+export function createExecute(
+  getTool: () => ExecutableTool,
+  options: ExecuteOptions = {},
+): WrappedExecute {
+  const { runtime } = options;
+  // Limits are tracked per provider; outside one, per registration.
+  const limiter = runtime ? runtime.limits : createRateLimiter();
+  const cache = createResultCache();
+  options.lifetime?.addEventListener("abort", cache.dispose, { once: true });
+  return (input, call) => {
+    const tool = getTool();
+    if (!runtime) {
+      return invokeCancellable(tool, input, options, limiter, cache, call?.signal);
+    }
+
+    const finishInvocation = runtime.invocations.start(tool.name, input);
+    const startedAt = Date.now();
+    const finish = (outcome: { result: unknown } | { error: unknown }) => {
+      finishInvocation(outcome);
+      const audit = runtime.audit.current;
+      if (audit) {
+        recordAuditEvent(audit, {
+          tool: tool.name,
+          owner: options.owner ?? "unknown",
+          annotations: tool.annotations,
+          input,
+          startedAt,
+          outcome,
+        });
+      }
+    };
+    let result: unknown;
+    try {
+      result = invokeCancellable(tool, input, options, limiter, cache, call?.signal);
+    } catch (error) {
+      finish({ error });
+      throw error;
+    }
+    if (result instanceof Promise) {
+      return result.then(
+        (value) => {
+          finish({ result: value });
+          return value;
+        },
+        (error) => {
+          finish({ error });
+          throw error;
+        },
+      );
+    }
+    finish({ result });
+    return result;
+  };
+}
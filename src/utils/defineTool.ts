@@ -0,0 +1,47 @@
+import type {
+  ReadonlyJSONSchema,
+  ReadonlyJSONSchemaProperty,
+  StandardSchemaV1,
+  TypedToolConfig,
+  UseWebMCPToolConfig,
+} from "../types";
+
+/**
+ * Define a tool whose `execute` input type is inferred from its
+ * `inputSchema` (and return type from `outputSchema`, if given).
+ *
+ * The schema is captured as a literal type, so required properties become
+ * non-optional, enums become literal unions, and a handler that drifts
+ * from its schema fails to compile. `inputSchema` may also be a Standard
+ * Schema validator (e.g. Zod), in which case `execute` is typed by its
+ * parsed output. The returned value is a plain `UseWebMCPToolConfig`,
+ * ready for `useWebMCPTool` or `useWebMCPContext`.
+ *
+ * @example
+ * ```ts
+ * const addTodo = defineTool({
+ *   name: "addTodo",
+ *   description: "Add a new item to the todo list",
+ *   inputSchema: {
+ *     type: "object",
+ *     properties: {
+ *       text: { type: "string" },
+ *       priority: { type: "string", enum: ["low", "high"] },
+ *     },
+ *     required: ["text"],
+ *   },
+ *   execute: ({ text, priority }) => {
+ *     // text: string, priority: "low" | "high" | undefined
+ *     return `Added: ${text}`;
+ *   },
+ * });
+ *
+ * useWebMCPContext({ tools: [addTodo] });
+ * ```
+ */
+export function defineTool<
+  const TSchema extends ReadonlyJSONSchema | StandardSchemaV1,
+  const TOutput extends ReadonlyJSONSchema | ReadonlyJSONSchemaProperty | undefined = undefined,
+>(definition: TypedToolConfig<TSchema, TOutput>): UseWebMCPToolConfig {
+  return definition as unknown as UseWebMCPToolConfig;
+}
@@ -0,0 +1,34 @@
+const structureCache = new WeakMap<object, string>();
+
+/**
+ * Structural key for `value`: two values with the same JSON structure get
+ * the same key. Used for change detection in dependency arrays.
+ *
+ * This is `JSON.stringify`, cached per object identity: a schema hoisted
+ * to module scope, memoised or converted from a Standard Schema validator
+ * is serialised once, not on every render. A new object is serialised in
+ * full, nested objects included, so an inline literal costs as much as it
+ * did without the cache, plus a cache entry. Hashing node by node in
+ * JavaScript would let new objects reuse the keys of shared parts, but
+ * measured several times slower than native serialisation for fresh
+ * objects. Objects are treated as immutable: mutating one in place after
+ * it has been seen is not detected — pass a new object instead.
+ *
+ * @example
+ * ```ts
+ * const schema = { type: "object", properties: {} };
+ * structuralKey(schema) === structuralKey({ type: "object", properties: {} }); // true
+ * structuralKey(schema); // cached: no serialisation
+ * ```
+ */
+export function structuralKey(value: unknown): string {
+  if (typeof value !== "object" || value === null) {
+    return String(JSON.stringify(value));
+  }
+  let key = structureCache.get(value);
+  if (key === undefined) {
+    key = JSON.stringify(value);
+    structureCache.set(value, key);
+  }
+  return key;
+}
@@ -0,0 +1,75 @@
+import { getControlKey, getFormControls } from "../adapters/extractFormFields";
+import type { FormControl } from "../adapters/extractFormFields";
+import { isModelContextPolyfill } from "../polyfill/createModelContext";
+import { getModelContext } from "./modelContext";
+
+/**
+ * Returns true if the browser registers `<form toolname>` elements itself.
+ * Browsers with the declarative API reflect `toolname` as
+ * `HTMLFormElement.prototype.toolName`.
+ */
+export function supportsDeclarativeForms(): boolean {
+  return typeof HTMLFormElement !== "undefined" && "toolName" in HTMLFormElement.prototype;
+}
+
+/**
+ * Returns true if `WebMCPForm` has to register itself through
+ * `registerTool()`: the imperative API exists but nothing reads the form's
+ * attributes, because the browser lacks the declarative API or the
+ * polyfill is installed.
+ */
+export function needsFormFallback(): boolean {
+  const modelContext = getModelContext();
+  if (!modelContext || typeof modelContext.registerTool !== "function") return false;
+  return isModelContextPolyfill(modelContext) || !supportsDeclarativeForms();
+}
+
+// React tracks the value it last rendered on the element itself, so a
+// plain `control.value = ...` is swallowed. Going through the prototype's
+// setter makes the change visible to `onChange`.
+function setNativeValue(control: FormControl, value: string): void {
+  const setter = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(control), "value")?.set;
+  if (setter) {
+    setter.call(control, value);
+  } else {
+    control.value = value;
+  }
+  control.dispatchEvent(new Event("input", { bubbles: true }));
+  control.dispatchEvent(new Event("change", { bubbles: true }));
+}
+
+function setControlValue(control: FormControl, value: unknown): void {
+  const values = Array.isArray(value) ? value.map(String) : [String(value)];
+
+  if (control instanceof HTMLInputElement && control.type === "checkbox") {
+    const checked = Array.isArray(value) ? values.includes(control.value) : value === true || value === "true";
+    if (control.checked !== checked) control.click();
+    return;
+  }
+  if (control instanceof HTMLInputElement && control.type === "radio") {
+    if (values.includes(control.value) && !control.checked) control.click();
+    return;
+  }
+  if (control instanceof HTMLSelectElement && control.multiple) {
+    for (const option of Array.from(control.options)) {
+      option.selected = values.includes(option.value);
+    }
+    control.dispatchEvent(new Event("change", { bubbles: true }));
+    return;
+  }
+  setNativeValue(control, value === null || value === undefined ? "" : values.join(","));
+}
+
+/**
+ * Write agent input into the controls of `form`, keyed like
+ * `extractFormFields`, dispatching the events a user edit would so
+ * controlled React inputs pick the values up. Unknown keys are ignored.
+ */
+export function fillFormControls(form: HTMLFormElement, input: Record<string, unknown>): void {
+  for (const control of getFormControls(form)) {
+    const key = getControlKey(control);
+    if (Object.prototype.hasOwnProperty.call(input, key)) {
+      setControlValue(control, input[key]);
+    }
+  }
+}
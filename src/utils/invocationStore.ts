@@ -0,0 +1,114 @@
+import { isToolResult } from "./toolResult";
+
+/**
+ * Live execution state of a tool, as returned by `useToolInvocation()`.
+ */
+export interface ToolInvocationState {
+  /** `"running"` while at least one call is in flight. */
+  status: "idle" | "running" | "success" | "error";
+  /** Input of the most recent call. */
+  lastInput: Record<string, unknown> | undefined;
+  /** Result of the most recently completed call. */
+  lastResult: unknown;
+  /** Error of the most recently failed call (thrown, rejected or `isError`). */
+  lastError: unknown;
+  /** `Date.now()` when the most recent call started, or `null`. */
+  startedAt: number | null;
+  /** Duration of the most recently completed call in ms, or `null`. */
+  durationMs: number | null;
+  /** Number of calls started so far. */
+  count: number;
+}
+
+/**
+ * Per-tool invocation state, created by `WebMCPProvider` and updated by
+ * the execute wrapper.
+ */
+export interface InvocationStore {
+  /**
+   * Record the start of a call. Returns a function to call exactly once
+   * when it settles.
+   */
+  start: (
+    name: string,
+    input: Record<string, unknown>,
+  ) => (outcome: { result: unknown } | { error: unknown }) => void;
+  /** The state for `name`. Identity only changes when the state does. */
+  getSnapshot: (name: string) => ToolInvocationState;
+  /** Subscribe to changes for any tool. Returns an unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const IDLE_INVOCATION: ToolInvocationState = {
+  status: "idle",
+  lastInput: undefined,
+  lastResult: undefined,
+  lastError: undefined,
+  startedAt: null,
+  durationMs: null,
+  count: 0,
+};
+
+/**
+ * Extract a readable error from an `isError` tool result.
+ */
+function resultError(result: unknown): Error | undefined {
+  if (!isToolResult(result) || !result.isError) return undefined;
+  const text = result.content
+    .map((block) => (block.type === "text" ? block.text : JSON.stringify(block.json)))
+    .join("\n");
+  return new Error(text || "Tool returned an error result.");
+}
+
+/**
+ * Create an empty invocation store.
+ */
+export function createInvocationStore(): InvocationStore {
+  const states = new Map<string, ToolInvocationState>();
+  const running = new Map<string, number>();
+  const listeners = new Set<() => void>();
+
+  const update = (name: string, patch: Partial<ToolInvocationState>) => {
+    states.set(name, { ...(states.get(name) ?? IDLE_INVOCATION), ...patch });
+    for (const listener of Array.from(listeners)) {
+      listener();
+    }
+  };
+
+  return {
+    start(name, input) {
+      const startedAt = Date.now();
+      running.set(name, (running.get(name) ?? 0) + 1);
+      update(name, {
+        status: "running",
+        lastInput: input,
+        startedAt,
+        count: (states.get(name)?.count ?? 0) + 1,
+      });
+
+      let settled = false;
+      return (outcome) => {
+        if (settled) return;
+        settled = true;
+        const active = (running.get(name) ?? 1) - 1;
+        running.set(name, active);
+
+        const error = "error" in outcome ? outcome.error : resultError(outcome.result);
+        const failed = "error" in outcome || error !== undefined;
+        update(name, {
+          status: active > 0 ? "running" : failed ? "error" : "success",
+          lastResult: "result" in outcome ? outcome.result : undefined,
+          lastError: failed ? error : undefined,
+          durationMs: Date.now() - startedAt,
+        });
+      };
+    },
+    getSnapshot: (name) => states.get(name) ?? IDLE_INVOCATION,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -44,8 +44,27 @@ export function warnIfUnavailable(hookName: string): void {
     if (!isWebMCPAvailable()) {
       console.warn(
         `[react-webmcp] ${hookName}: navigator.modelContext is not available. ` +
-          `Ensure you are running Chrome 146+ with the "WebMCP for testing" flag enabled.`,
+          `Ensure you are running Chrome 146+ with the "WebMCP for testing" flag enabled, ` +
+          `or call installWebMCPPolyfill() before rendering.`,
       );
     }
   }
 }
+
+/**
+ * Logs why `registerTool()` failed for `name`, singling out duplicate names
+ * (`InvalidStateError`). Only logs in development builds.
+ */
+export function reportRegistrationError(name: string, err: unknown): void {
+  if (process.env.NODE_ENV !== "production") {
+    const isDuplicate = err instanceof DOMException && err.name === "InvalidStateError";
+    if (isDuplicate) {
+      console.warn(
+        `[react-webmcp] Tool "${name}" is already registered (InvalidStateError). ` +
+          `This may indicate a duplicate registration or a missed unregisterTool().`,
+      );
+    } else {
+      console.error(`[react-webmcp] Failed to register tool "${name}":`, err);
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import type { ToolAnnotations, ToolResult } from "../types";
+
+/**
+ * What a `ToolPolicy` is asked about: a tool about to be registered, or an
+ * agent call about to run.
+ */
+export interface ToolPolicyRequest<TContext = unknown> {
+  /**
+   * `"register"` decides whether agents can see the tool at all;
+   * `"call"` decides whether a specific call may run.
+   */
+  phase: "register" | "call";
+  /** Tool name. */
+  name: string;
+  /** Tool description. */
+  description: string;
+  /** The tool's annotations. */
+  annotations: ToolAnnotations | undefined;
+  /** The registering API or `owner` label (e.g. `"useWebMCPTool"`). */
+  owner: string;
+  /** Agent input, for the `"call"` phase only. */
+  input?: Record<string, unknown>;
+  /** The provider's `policyContext` (e.g. route, user, environment). */
+  context: TContext;
+}
+
+/**
+ * `true` allows, `false` denies, and `{ allow: false, reason }` denies with
+ * a reason that is passed on to the agent.
+ */
+export type ToolPolicyDecision = boolean | { allow: boolean; reason?: string };
+
+/**
+ * Decides which tools agents may see and call. Passed to
+ * `<WebMCPProvider policy>`.
+ */
+export type ToolPolicy<TContext = unknown> = (
+  request: ToolPolicyRequest<TContext>,
+) => ToolPolicyDecision;
+
+/**
+ * The provider's policy together with the context it is evaluated against.
+ */
+export interface PolicyGate {
+  policy: ToolPolicy<never>;
+  context: unknown;
+}
+
+export type PolicyVerdict = { allowed: true } | { allowed: false; reason: string };
+
+const ALLOWED: PolicyVerdict = { allowed: true };
+
+/**
+ * Evaluate the provider's policy. Without a policy everything is allowed;
+ * a policy that throws denies (fail closed).
+ */
+export function evaluatePolicy(
+  gate: PolicyGate | null | undefined,
+  request: Omit<ToolPolicyRequest, "context">,
+): PolicyVerdict {
+  if (!gate) return ALLOWED;
+
+  let decision: ToolPolicyDecision;
+  try {
+    decision = (gate.policy as ToolPolicy)({ ...request, context: gate.context });
+  } catch (err) {
+    if (process.env.NODE_ENV !== "production") {
+      console.error(`[react-webmcp] Tool policy threw for "${request.name}"; denying.`, err);
+    }
+    return { allowed: false, reason: "the tool policy failed." };
+  }
+
+  if (decision === true) return ALLOWED;
+  if (decision === false) {
+    return { allowed: false, reason: "the page's tool policy does not allow it." };
+  }
+  return decision.allow
+    ? ALLOWED
+    : { allowed: false, reason: decision.reason || "the page's tool policy does not allow it." };
+}
+
+/**
+ * Build the result returned to the agent when a call is denied by policy.
+ */
+export function policyDeniedResult(toolName: string, reason: string): ToolResult {
+  return {
+    content: [
+      { type: "text", text: `Tool "${toolName}" is not available: ${reason}` },
+      { type: "json", json: { allowed: false, tool: toolName, reason } },
+    ],
+    isError: true,
+  };
+}
@@ -0,0 +1,155 @@
+import type { RateLimit, SessionBudget, ToolResult } from "../types";
+
+type LimitReason = "rate" | "concurrency" | "budget";
+
+/**
+ * Build the result returned to the agent when a call is over a limit.
+ * `retryAfterMs` is `null` when no retry time can be given.
+ */
+export function rateLimitedResult(
+  toolName: string,
+  reason: LimitReason,
+  retryAfterMs: number | null,
+): ToolResult {
+  const message =
+    reason === "rate"
+      ? `too many calls. Retry after ${retryAfterMs} ms.`
+      : reason === "concurrency"
+        ? "too many concurrent calls. Retry once a running call has finished."
+        : retryAfterMs === null
+          ? "the session's call budget is used up."
+          : `the session's call budget is used up. Retry after ${retryAfterMs} ms.`;
+  return {
+    content: [
+      { type: "text", text: `Tool "${toolName}" is rate limited: ${message}` },
+      { type: "json", json: { rateLimited: true, tool: toolName, reason, retryAfterMs } },
+    ],
+    isError: true,
+  };
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface Slots {
+  active: number;
+  waiting: Array<() => void>;
+}
+
+/**
+ * Rate, concurrency and budget state for the tools of one provider (or of
+ * one registration outside a provider), keyed by tool name so limits
+ * survive re-registration.
+ */
+export interface RateLimiter {
+  /**
+   * Count a call against the session budget and the tool's rate limit.
+   * Returns `null` when the call may go ahead, or the rate-limited result.
+   */
+  take: (name: string, rateLimit?: RateLimit, budget?: SessionBudget | null) => ToolResult | null;
+  /**
+   * Take a concurrency slot. Returns a `release` function, or a promise of
+   * one while queued, or the rate-limited result in `"reject"` mode. A
+   * queued call whose `signal` aborts leaves the queue.
+   */
+  acquire: (
+    name: string,
+    maxConcurrent: number,
+    mode: "queue" | "reject",
+    signal: AbortSignal,
+  ) => (() => void) | ToolResult | Promise<(() => void) | ToolResult>;
+}
+
+/**
+ * Create an empty rate limiter.
+ */
+export function createRateLimiter(): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+  const slots = new Map<string, Slots>();
+  let budgetUsed = 0;
+  let budgetWindowStart = Date.now();
+
+  const slotsFor = (name: string): Slots => {
+    let entry = slots.get(name);
+    if (!entry) {
+      entry = { active: 0, waiting: [] };
+      slots.set(name, entry);
+    }
+    return entry;
+  };
+
+  const releaser = (entry: Slots) => {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = entry.waiting.shift();
+      if (next) {
+        // Hand the slot straight to the next queued call.
+        next();
+      } else {
+        entry.active--;
+      }
+    };
+  };
+
+  return {
+    take(name, rateLimit, budget) {
+      const now = Date.now();
+
+      if (budget) {
+        if (budget.windowMs !== undefined && now - budgetWindowStart >= budget.windowMs) {
+          budgetUsed = 0;
+          budgetWindowStart = now;
+        }
+        if (budgetUsed >= budget.maxCalls) {
+          const retryAfter =
+            budget.windowMs === undefined ? null : budgetWindowStart + budget.windowMs - now;
+          return rateLimitedResult(name, "budget", retryAfter);
+        }
+      }
+
+      if (rateLimit && rateLimit.limit > 0 && rateLimit.intervalMs > 0) {
+        const capacity = rateLimit.burst ?? rateLimit.limit;
+        const perMs = rateLimit.limit / rateLimit.intervalMs;
+        const bucket = buckets.get(name) ?? { tokens: capacity, updatedAt: now };
+        bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * perMs);
+        bucket.updatedAt = now;
+        buckets.set(name, bucket);
+        if (bucket.tokens < 1) {
+          return rateLimitedResult(name, "rate", Math.ceil((1 - bucket.tokens) / perMs));
+        }
+        bucket.tokens -= 1;
+      }
+
+      if (budget) budgetUsed++;
+      return null;
+    },
+
+    acquire(name, maxConcurrent, mode, signal) {
+      const entry = slotsFor(name);
+      if (entry.active < maxConcurrent) {
+        entry.active++;
+        return releaser(entry);
+      }
+      if (mode === "reject" || signal.aborted) {
+        return rateLimitedResult(name, "concurrency", null);
+      }
+
+      return new Promise((resolve) => {
+        const grant = () => {
+          signal.removeEventListener("abort", onAbort);
+          resolve(releaser(entry));
+        };
+        const onAbort = () => {
+          entry.waiting = entry.waiting.filter((waiter) => waiter !== grant);
+          resolve(rateLimitedResult(name, "concurrency", null));
+        };
+        entry.waiting.push(grant);
+        signal.addEventListener("abort", onAbort);
+      });
+    },
+  };
+}
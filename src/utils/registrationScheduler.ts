@@ -0,0 +1,161 @@
+import { getModelContext } from "./modelContext";
+import { errorResult } from "./toolResult";
+import { structuralKey } from "./fingerprint";
+
+/** When queued registrations are applied to `navigator.modelContext`. */
+export type RegistrationBatching = "microtask" | "frame";
+
+/** A definition as handed to `registerTool()`. */
+export interface ScheduledTool {
+  name: string;
+  execute: (...args: never[]) => unknown;
+  [key: string]: unknown;
+}
+
+interface Entry {
+  tool: ScheduledTool;
+  /** Everything but `execute`, serialised. */
+  fingerprint: string;
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Queues `registerTool()` / `unregisterTool()` calls and applies only the
+ * net change per tool name once per microtask or animation frame, so a
+ * burst of re-registrations reaches the browser as at most one call per
+ * changed tool. There is no bulk API, so each call still fires the
+ * browser's tools-changed callback.
+ */
+export interface RegistrationScheduler {
+  /**
+   * Queue registering `tool`. `onError` is called when the registration is
+   * applied and fails, or if another component already holds the name.
+   * Returns a function that queues its removal.
+   */
+  register: (tool: ScheduledTool, onError?: (error: unknown) => void) => () => void;
+  /** Apply the queued changes now. */
+  flush: () => void;
+  /**
+   * Forget what was applied, after `provideContext()` or `clearContext()`
+   * replaced every registered tool.
+   */
+  reset: () => void;
+}
+
+/** Flush "frame" batches after this long if no frame is painted (background tabs). */
+const FRAME_FALLBACK_MS = 100;
+
+/**
+ * Create a scheduler. `getBatching` is read each time a flush is scheduled.
+ */
+export function createRegistrationScheduler(
+  getBatching: () => RegistrationBatching,
+): RegistrationScheduler {
+  // Desired state per name: an entry to register, or `null` to remove.
+  const pending = new Map<string, Entry | null>();
+  // What the browser currently holds, as registered by this scheduler.
+  const applied = new Map<string, Entry>();
+  // Duplicate registrations, reported at the next flush.
+  const rejected: Entry[] = [];
+  let scheduled = false;
+
+  const current = (name: string) => (pending.has(name) ? pending.get(name) : applied.get(name));
+
+  // The browser keeps calling the execute it was given, so it is a stable
+  // trampoline to the latest registration of the name.
+  const trampoline =
+    (name: string) =>
+    (...args: never[]) => {
+      const entry = applied.get(name);
+      return entry
+        ? entry.tool.execute(...args)
+        : errorResult(`Tool "${name}" is no longer registered.`);
+    };
+
+  const flush = () => {
+    scheduled = false;
+    const changes = Array.from(pending);
+    pending.clear();
+    for (const entry of rejected.splice(0)) {
+      entry.onError?.(
+        new DOMException(`Tool "${entry.tool.name}" is already registered.`, "InvalidStateError"),
+      );
+    }
+    const mc = getModelContext();
+    if (!mc) return;
+
+    for (const [name, next] of changes) {
+      const previous = applied.get(name);
+      if (next && previous && next.fingerprint === previous.fingerprint) {
+        // Same definition, new handler: nothing changes for the browser.
+        applied.set(name, next);
+        continue;
+      }
+      if (previous) {
+        applied.delete(name);
+        try {
+          mc.unregisterTool(name);
+        } catch {
+          // Tool may have already been unregistered externally
+        }
+      }
+      if (next) {
+        try {
+          mc.registerTool({
+            ...next.tool,
+            execute: trampoline(name),
+          } as unknown as Parameters<typeof mc.registerTool>[0]);
+          applied.set(name, next);
+        } catch (err) {
+          next.onError?.(err);
+        }
+      }
+    }
+  };
+
+  const schedule = () => {
+    if (scheduled) return;
+    scheduled = true;
+    if (getBatching() === "frame" && typeof requestAnimationFrame === "function") {
+      let done = false;
+      const run = () => {
+        if (done) return;
+        done = true;
+        clearTimeout(timer);
+        if (scheduled) flush();
+      };
+      const timer = setTimeout(run, FRAME_FALLBACK_MS);
+      requestAnimationFrame(run);
+    } else {
+      queueMicrotask(() => {
+        if (scheduled) flush();
+      });
+    }
+  };
+
+  return {
+    register(tool, onError) {
+      const { execute: _execute, ...metadata } = tool;
+      const fingerprint = Object.entries(metadata)
+        .map(([key, value]) => `${key}:${structuralKey(value)}`)
+        .join("|");
+      const entry: Entry = { tool, fingerprint, onError };
+      if (current(tool.name)) {
+        rejected.push(entry);
+        schedule();
+        return () => {};
+      }
+      pending.set(tool.name, entry);
+      schedule();
+      return () => {
+        if (current(tool.name) !== entry) return;
+        pending.set(tool.name, null);
+        schedule();
+      };
+    },
+    flush,
+    reset() {
+      applied.clear();
+    },
+  };
+}
@@ -0,0 +1,245 @@
+import { isToolResult } from "./toolResult";
+
+/**
+ * One caller of a cached call: its own cancellation signal, and how to
+ * start its `timeoutMs` timer once the shared run is approved.
+ */
+export interface CacheCaller {
+  signal: AbortSignal;
+  startTimeout: () => void;
+}
+
+interface CacheEntry {
+  /** The cached result; unset while the first call is still running. */
+  value?: unknown;
+  expiresAt: number;
+  /** The in-flight call that identical calls share. */
+  pending?: Promise<unknown>;
+  /** Adds a caller to the in-flight call. */
+  join?: (caller: CacheCaller) => void;
+}
+
+/**
+ * The result cache of one tool registration. `createExecute` creates one
+ * per registration and disposes it when the tool is unregistered.
+ */
+export interface ResultCache {
+  /**
+   * Run `compute` through the cache. Identical calls made while one is in
+   * flight share its result; with `ttlMs > 0`, successful results are also
+   * reused until they expire. Thrown errors, rejections and `isError`
+   * results are never cached.
+   *
+   * `compute` receives the shared run's caller, whose signal aborts only
+   * once every caller sharing the run has been cancelled.
+   */
+  call(
+    name: string,
+    input: Record<string, unknown>,
+    ttlMs: number,
+    caller: CacheCaller,
+    compute: (shared: CacheCaller) => unknown,
+  ): unknown;
+  /** Drop entries, as `invalidateToolCache` describes. */
+  invalidate(name?: string, input?: Record<string, unknown>): void;
+  /** Drop every entry and stop answering `invalidateToolCache`. */
+  dispose(): void;
+}
+
+/** Default time a `cache: true` result stays fresh. */
+export const DEFAULT_CACHE_TTL_MS = 60_000;
+
+// Every registration's cache that holds entries, so `invalidateToolCache`
+// can reach them from anywhere in the app.
+const liveCaches = new Set<ResultCache>();
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  const out: Record<string, unknown> = {};
+  for (const key of Object.keys(value).sort()) {
+    out[key] = canonicalize((value as Record<string, unknown>)[key]);
+  }
+  return out;
+}
+
+/**
+ * Serialise an input with object keys sorted at every depth, so inputs
+ * that differ only in key order share a cache entry.
+ */
+export function canonicalInputKey(input: Record<string, unknown> | undefined): string {
+  return JSON.stringify(canonicalize(input ?? {}));
+}
+
+function isCacheable(result: unknown): boolean {
+  return !(isToolResult(result) && result.isError);
+}
+
+interface SharedRun {
+  /** The caller handed to `compute`. */
+  caller: CacheCaller;
+  join: (caller: CacheCaller) => void;
+  /** Remove the callers' listeners once the run settles. */
+  dispose: () => void;
+}
+
+/**
+ * Fan one run out to the callers sharing it. The run's signal aborts, and
+ * `onAbandoned` is called, once every caller has been cancelled.
+ */
+function openSharedRun(onAbandoned: () => void): SharedRun {
+  const controller = new AbortController();
+  const callers = new Map<CacheCaller, () => void>();
+  let started = false;
+
+  const leave = (caller: CacheCaller) => {
+    const onAbort = callers.get(caller);
+    if (!onAbort) return;
+    caller.signal.removeEventListener("abort", onAbort);
+    callers.delete(caller);
+    if (callers.size === 0 && !controller.signal.aborted) {
+      onAbandoned();
+      controller.abort(caller.signal.reason);
+    }
+  };
+
+  return {
+    caller: {
+      signal: controller.signal,
+      startTimeout: () => {
+        if (started) return;
+        started = true;
+        for (const caller of callers.keys()) caller.startTimeout();
+      },
+    },
+    join: (caller) => {
+      if (started) caller.startTimeout();
+      const onAbort = () => leave(caller);
+      callers.set(caller, onAbort);
+      if (caller.signal.aborted) {
+        leave(caller);
+        return;
+      }
+      caller.signal.addEventListener("abort", onAbort);
+    },
+    dispose: () => {
+      for (const [caller, onAbort] of callers) {
+        caller.signal.removeEventListener("abort", onAbort);
+      }
+      callers.clear();
+    },
+  };
+}
+
+/**
+ * Create a tool registration's result cache.
+ */
+export function createResultCache(): ResultCache {
+  // Keyed by tool name, then by canonical input.
+  const tools = new Map<string, Map<string, CacheEntry>>();
+
+  const cache: ResultCache = {
+    call(name, input, ttlMs, caller, compute) {
+      const entries = tools.get(name) ?? new Map<string, CacheEntry>();
+      tools.set(name, entries);
+      liveCaches.add(cache);
+      const key = canonicalInputKey(input);
+      const hit = entries.get(key);
+      if (hit) {
+        if (hit.pending) {
+          hit.join?.(caller);
+          return hit.pending;
+        }
+        if (hit.expiresAt > Date.now()) return hit.value;
+        entries.delete(key);
+      }
+
+      const store = (entry: CacheEntry, value: unknown) => {
+        // Skip entries invalidated while the call was running.
+        if (entries.get(key) !== entry) return;
+        if (ttlMs > 0 && isCacheable(value)) {
+          entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+        } else {
+          entries.delete(key);
+        }
+      };
+
+      const entry: CacheEntry = { expiresAt: Infinity };
+      // A run every caller has given up on is not shared any more.
+      const run = openSharedRun(() => {
+        if (entries.get(key) === entry) entries.delete(key);
+      });
+      run.join(caller);
+      let result: unknown;
+      try {
+        result = compute(run.caller);
+      } catch (error) {
+        run.dispose();
+        throw error;
+      }
+      if (result instanceof Promise) {
+        entry.join = run.join;
+        entry.pending = result.then(
+          (value) => {
+            run.dispose();
+            store(entry, value);
+            return value;
+          },
+          (error) => {
+            run.dispose();
+            if (entries.get(key) === entry) entries.delete(key);
+            throw error;
+          },
+        );
+        entries.set(key, entry);
+        return entry.pending;
+      }
+
+      run.dispose();
+      if (ttlMs > 0 && isCacheable(result)) {
+        entries.set(key, { value: result, expiresAt: Date.now() + ttlMs });
+      }
+      return result;
+    },
+
+    invalidate(name, input) {
+      // Clear the maps rather than dropping them, so calls in flight see
+      // that their entry is gone.
+      if (name === undefined) {
+        for (const entries of tools.values()) entries.clear();
+      } else if (input === undefined) {
+        tools.get(name)?.clear();
+      } else {
+        tools.get(name)?.delete(canonicalInputKey(input));
+      }
+    },
+
+    dispose() {
+      cache.invalidate();
+      liveCaches.delete(cache);
+    },
+  };
+  return cache;
+}
+
+/**
+ * Drop cached results of tools annotated `cache: true`: every tool's when
+ * called without arguments, one tool's when given a `name`, or a single
+ * entry when also given the `input` it was called with. Calls already in
+ * flight finish normally but their results are not stored.
+ *
+ * @example
+ * ```ts
+ * await saveFlight(flight);
+ * invalidateToolCache("searchFlights");
+ * ```
+ */
+export function invalidateToolCache(name?: string, input?: Record<string, unknown>): void {
+  for (const cache of liveCaches) {
+    cache.invalidate(name, input);
+  }
+}
@@ -0,0 +1,228 @@
+import type {
+  JSONSchema,
+  JSONSchemaProperty,
+  StandardSchemaIssue,
+  StandardSchemaV1,
+} from "../types";
+import type { InputValidationIssue } from "./validateInput";
+
+/**
+ * Returns true if `value` implements the Standard Schema interface
+ * (e.g. a Zod, Valibot or ArkType schema).
+ */
+export function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+  if (
+    (typeof value !== "object" && typeof value !== "function") ||
+    value === null
+  ) {
+    return false;
+  }
+  const props = (value as { "~standard"?: { validate?: unknown } })["~standard"];
+  return typeof props === "object" && props !== null && typeof props.validate === "function";
+}
+
+// ---------------------------------------------------------------------------
+// JSON Schema conversion
+// ---------------------------------------------------------------------------
+
+type RawSchema = Record<string, unknown>;
+
+/** Keywords copied verbatim into `JSONSchemaProperty`. */
+const COPIED_KEYWORDS = [
+  "description",
+  "title",
+  "pattern",
+  "format",
+  "minLength",
+  "maxLength",
+  "minimum",
+  "maximum",
+  "default",
+  "const",
+  "enum",
+] as const;
+
+/** Annotations with no validation meaning that are dropped silently. */
+const IGNORED_KEYWORDS = new Set([
+  "$schema",
+  "$id",
+  "$comment",
+  "additionalProperties",
+  "examples",
+  "readOnly",
+  "writeOnly",
+  "deprecated",
+]);
+
+const SCHEMA_TYPES = new Set(["string", "number", "integer", "boolean", "array", "object"]);
+
+function isConstOption(value: unknown): value is RawSchema & { const: string | number | boolean } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    ["string", "number", "boolean"].includes(typeof (value as RawSchema).const)
+  );
+}
+
+function convertProperty(raw: RawSchema, path: string, unsupported: string[]): JSONSchemaProperty {
+  const prop: JSONSchemaProperty = {};
+  const at = path || "(root)";
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (IGNORED_KEYWORDS.has(key)) continue;
+
+    if ((COPIED_KEYWORDS as readonly string[]).includes(key)) {
+      (prop as Record<string, unknown>)[key] = value;
+      continue;
+    }
+
+    switch (key) {
+      case "type":
+        if (typeof value === "string" && SCHEMA_TYPES.has(value)) {
+          prop.type = value as JSONSchemaProperty["type"];
+        } else {
+          unsupported.push(`${at}: type ${JSON.stringify(value)}`);
+        }
+        break;
+      case "required":
+        prop.required = [...(value as string[])];
+        break;
+      case "properties": {
+        const properties: Record<string, JSONSchemaProperty> = {};
+        for (const [name, child] of Object.entries(value as Record<string, RawSchema>)) {
+          properties[name] = convertProperty(child, path ? `${path}.${name}` : name, unsupported);
+        }
+        prop.properties = properties;
+        break;
+      }
+      case "items":
+        if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+          prop.items = convertProperty(value as RawSchema, `${path || "(root)"}[]`, unsupported);
+        } else {
+          unsupported.push(`${at}: tuple "items"`);
+        }
+        break;
+      case "anyOf":
+      case "oneOf":
+        // A union of literals (e.g. z.union([z.literal("a"), z.literal("b")]))
+        // maps onto `oneOf` consts; any other union cannot be expressed.
+        if (Array.isArray(value) && value.length > 0 && value.every(isConstOption)) {
+          prop.oneOf = value.map((opt) =>
+            typeof opt.title === "string"
+              ? { const: opt.const, title: opt.title }
+              : { const: opt.const },
+          );
+          const types = new Set(value.map((opt) => opt.type ?? typeof opt.const));
+          if (types.size === 1 && !prop.type) {
+            const [only] = types;
+            if (typeof only === "string" && SCHEMA_TYPES.has(only)) {
+              prop.type = only as JSONSchemaProperty["type"];
+            }
+          }
+        } else {
+          unsupported.push(`${at}: "${key}" with non-literal members`);
+        }
+        break;
+      default:
+        unsupported.push(`${at}: "${key}"`);
+    }
+  }
+
+  return prop;
+}
+
+const conversionCache = new WeakMap<object, JSONSchema>();
+
+/**
+ * Convert a Standard Schema validator into the `JSONSchema` subset
+ * registered with `navigator.modelContext`.
+ *
+ * The validator must implement Standard JSON Schema
+ * (`~standard.jsonSchema.input`), as Zod 4 and ArkType do. Keywords the
+ * `JSONSchema` type cannot express — non-literal unions, `$ref`,
+ * `exclusiveMinimum`, `null` types, tuples and the like — throw in
+ * development and are dropped in production.
+ *
+ * Results are cached per validator object.
+ *
+ * @example
+ * ```ts
+ * const schema = z.object({ q: z.string().min(1) });
+ * standardSchemaToJSONSchema(schema);
+ * // { type: "object", properties: { q: { type: "string", minLength: 1 } }, required: ["q"] }
+ * ```
+ */
+export function standardSchemaToJSONSchema(
+  validator: StandardSchemaV1,
+  toolName?: string,
+): JSONSchema {
+  const cached = conversionCache.get(validator);
+  if (cached) return cached;
+
+  const label = toolName ? `Tool "${toolName}"` : "Standard Schema";
+  const std = validator["~standard"];
+  if (!std.jsonSchema || typeof std.jsonSchema.input !== "function") {
+    throw new Error(
+      `[react-webmcp] ${label}: the ${std.vendor} validator does not implement Standard JSON Schema ` +
+        `(~standard.jsonSchema), so no inputSchema can be derived from it. Pass a JSON Schema instead.`,
+    );
+  }
+
+  let raw: RawSchema;
+  try {
+    raw = std.jsonSchema.input({ target: "draft-2020-12" });
+  } catch (e) {
+    throw new Error(
+      `[react-webmcp] ${label}: the ${std.vendor} validator could not be converted to JSON Schema: ` +
+        `${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+
+  const unsupported: string[] = [];
+  const schema = convertProperty(raw, "", unsupported) as JSONSchema;
+
+  if (process.env.NODE_ENV !== "production" && unsupported.length > 0) {
+    throw new Error(
+      `[react-webmcp] ${label}: the ${std.vendor} validator uses constructs that cannot be ` +
+        `expressed in a WebMCP inputSchema:\n${unsupported.map((u) => `- ${u}`).join("\n")}`,
+    );
+  }
+
+  conversionCache.set(validator, schema);
+  return schema;
+}
+
+/**
+ * Resolve a tool's `inputSchema` to the JSON Schema that is registered,
+ * converting Standard Schema validators.
+ */
+export function resolveInputSchema(
+  inputSchema: JSONSchema | Record<string, never> | StandardSchemaV1,
+  toolName?: string,
+): JSONSchema | Record<string, never> {
+  return isStandardSchema(inputSchema)
+    ? standardSchemaToJSONSchema(inputSchema, toolName)
+    : inputSchema;
+}
+
+// ---------------------------------------------------------------------------
+// Issue mapping
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert Standard Schema issues into the library's validation issues so
+ * both validation paths produce the same agent-facing error result.
+ */
+export function fromStandardIssues(
+  issues: ReadonlyArray<StandardSchemaIssue>,
+): InputValidationIssue[] {
+  return issues.map((issue) => {
+    let path = "";
+    for (const segment of issue.path ?? []) {
+      const key = typeof segment === "object" ? segment.key : segment;
+      path +=
+        typeof key === "number" ? `[${key}]` : path ? `.${String(key)}` : String(key);
+    }
+    return { path, message: path ? `${path}: ${issue.message}` : issue.message };
+  });
+}
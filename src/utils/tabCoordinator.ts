@@ -0,0 +1,286 @@
+import { errorResult } from "./toolResult";
+import type { WrappedExecute } from "./createExecute";
+
+// ---------------------------------------------------------------------------
+// Protocol
+// ---------------------------------------------------------------------------
+
+const CHANNEL_NAME = "react-webmcp:tabs";
+const LOCK_PREFIX = "react-webmcp:leader:";
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+/** Random id of this tab (per page load), used to suffix tab-scoped tool names. */
+export const tabId = Math.random().toString(36).slice(2, 8);
+
+/** Messages exchanged between tabs. Call ids are prefixed with the tab id. */
+type TabMessage =
+  | {
+      type: "call";
+      id: string;
+      group: string;
+      name: string;
+      input: Record<string, unknown>;
+    }
+  | { type: "result"; id: string; result?: unknown; error?: string }
+  | { type: "cancel"; id: string; group: string }
+  /** Asks the group's leader to announce itself. */
+  | { type: "hello"; group: string }
+  | { type: "leader"; group: string }
+  | { type: "resign"; group: string };
+
+interface GroupMember {
+  /** Local tools in the group, newest last. */
+  tools: Array<{ name: string; execute: WrappedExecute }>;
+  leader: boolean;
+  /** Whether a tab, this one included, is known to lead the group. */
+  leaderKnown: boolean;
+  /** Calls waiting for a leader to become known. */
+  waiting: Array<() => void>;
+  /** Withdraws the lock request, or releases the lock once held. */
+  controller: AbortController;
+  release?: () => void;
+}
+
+export interface TabCoordinator {
+  /**
+   * Take part in the leader election for `group` with a local tool. While
+   * this tab leads the group, calls proxied by other tabs run `execute`.
+   * Returns a function that leaves the group again.
+   */
+  join: (group: string, name: string, execute: WrappedExecute) => () => void;
+  /** Whether this tab currently leads `group`. */
+  isLeader: (group: string) => boolean;
+  /**
+   * Run tool `name` in the tab leading `group` and resolve with its result.
+   * While no leader is known yet, the call waits for one to announce itself
+   * or for this tab to win the election, and then runs here. Resolves with
+   * an `isError` result if no answer arrives within `timeoutMs`. Aborting
+   * `signal`, or a `toolcancel` for the tool in this tab, cancels the call
+   * in the leader.
+   */
+  call: (
+    group: string,
+    name: string,
+    input: Record<string, unknown>,
+    timeoutMs?: number,
+    signal?: AbortSignal,
+  ) => Promise<unknown>;
+}
+
+export interface TabCoordinatorOptions {
+  /** Defaults to `navigator.locks`. */
+  locks?: Pick<LockManager, "request">;
+  /** Defaults to `new BroadcastChannel("react-webmcp:tabs")`. */
+  channel?: BroadcastChannel;
+}
+
+function cancelledToolName(e: Event): string | undefined {
+  return (e as CustomEvent & { toolName?: string }).toolName ?? (e as CustomEvent).detail?.toolName;
+}
+
+/**
+ * Create a coordinator for the tools of this tab. Leadership of a group is
+ * a Web Lock held for as long as the tab has tools in the group, so the
+ * next tab takes over when the leader closes or its tools unmount.
+ */
+export function createTabCoordinator(options: TabCoordinatorOptions): TabCoordinator {
+  const locks = options.locks ?? navigator.locks;
+  const channel = options.channel ?? new BroadcastChannel(CHANNEL_NAME);
+  const groups = new Map<string, GroupMember>();
+  const pending = new Map<string, (message: { result?: unknown; error?: string }) => void>();
+  // Calls this tab runs for others, by call id, so they can be cancelled.
+  const serving = new Map<string, AbortController>();
+  let nextId = 0;
+
+  const post = (message: TabMessage) => channel.postMessage(message);
+
+  const setLeaderKnown = (member: GroupMember, known: boolean) => {
+    member.leaderKnown = known;
+    if (known) {
+      for (const resume of member.waiting.splice(0)) resume();
+    }
+  };
+
+  const serve = (message: Extract<TabMessage, { type: "call" }>) => {
+    const member = groups.get(message.group);
+    if (!member?.leader) return;
+    const tool = member.tools.filter((t) => t.name === message.name).pop();
+    if (!tool) {
+      post({
+        type: "result",
+        id: message.id,
+        error: `Tool "${message.name}" is not registered in the leading tab.`,
+      });
+      return;
+    }
+    const controller = new AbortController();
+    serving.set(message.id, controller);
+    Promise.resolve()
+      .then(() => tool.execute(message.input ?? {}, { signal: controller.signal }))
+      .then(
+        (result) => {
+          try {
+            post({ type: "result", id: message.id, result });
+          } catch {
+            // The result cannot be structured-cloned (functions, DOM nodes, ...).
+            post({
+              type: "result",
+              id: message.id,
+              error: `Tool "${message.name}" returned a value that cannot be sent to another tab.`,
+            });
+          }
+        },
+        (err: unknown) =>
+          post({
+            type: "result",
+            id: message.id,
+            error: err instanceof Error ? err.message || err.name : String(err),
+          }),
+      )
+      .finally(() => serving.delete(message.id));
+  };
+
+  channel.addEventListener("message", (event: MessageEvent<TabMessage>) => {
+    const message = event.data;
+    if (message.type === "call") {
+      serve(message);
+    } else if (message.type === "result") {
+      pending.get(message.id)?.(message);
+    } else if (message.type === "cancel") {
+      serving.get(message.id)?.abort();
+    } else if (message.type === "hello") {
+      if (groups.get(message.group)?.leader) post({ type: "leader", group: message.group });
+    } else {
+      const member = groups.get(message.group);
+      if (member && !member.leader) setLeaderKnown(member, message.type === "leader");
+    }
+  });
+
+  return {
+    join(group, name, execute) {
+      let member = groups.get(group);
+      if (!member) {
+        const created: GroupMember = {
+          tools: [],
+          leader: false,
+          leaderKnown: false,
+          waiting: [],
+          controller: new AbortController(),
+        };
+        groups.set(group, created);
+        locks
+          .request(LOCK_PREFIX + group, { signal: created.controller.signal }, () => {
+            if (created.controller.signal.aborted) return;
+            created.leader = true;
+            setLeaderKnown(created, true);
+            post({ type: "leader", group });
+            return new Promise<void>((resolve) => {
+              created.release = resolve;
+            });
+          })
+          // Aborted: the group was left before the lock was granted.
+          .catch(() => {});
+        post({ type: "hello", group });
+        member = created;
+      }
+      const current = member;
+      const entry = { name, execute };
+      current.tools.push(entry);
+      return () => {
+        const index = current.tools.indexOf(entry);
+        if (index === -1) return;
+        current.tools.splice(index, 1);
+        if (current.tools.length > 0) return;
+        groups.delete(group);
+        if (current.leader) post({ type: "resign", group });
+        current.leader = false;
+        current.controller.abort();
+        current.release?.();
+      };
+    },
+    isLeader: (group) => groups.get(group)?.leader ?? false,
+    call(group, name, input, timeoutMs = DEFAULT_TIMEOUT_MS, signal) {
+      return new Promise((resolve) => {
+        const id = `${tabId}-${++nextId}`;
+        let settled = false;
+        let forwarded = false;
+        const settle = (result: unknown) => {
+          if (settled) return;
+          settled = true;
+          clearTimeout(timer);
+          pending.delete(id);
+          window.removeEventListener("toolcancel", onCancel);
+          signal?.removeEventListener("abort", cancel);
+          resolve(result);
+        };
+        // Forwarded calls are answered by the leader once it has stopped.
+        const cancel = () => {
+          if (forwarded) post({ type: "cancel", id, group });
+          else settle(errorResult(`Tool "${name}" was cancelled.`));
+        };
+        const onCancel = (e: Event) => {
+          if (cancelledToolName(e) === name) cancel();
+        };
+        const timer = setTimeout(
+          () => {
+            if (forwarded) post({ type: "cancel", id, group });
+            settle(errorResult(`Tool "${name}" did not answer from the leading tab within ${timeoutMs} ms.`));
+          },
+          timeoutMs,
+        );
+        window.addEventListener("toolcancel", onCancel);
+        signal?.addEventListener("abort", cancel);
+
+        const start = () => {
+          if (settled) return;
+          if (signal?.aborted) {
+            cancel();
+            return;
+          }
+          const member = groups.get(group);
+          const local = member?.leader && member.tools.filter((t) => t.name === name).pop();
+          if (local) {
+            // This tab won the election while the call waited.
+            window.removeEventListener("toolcancel", onCancel);
+            signal?.removeEventListener("abort", cancel);
+            Promise.resolve()
+              .then(() => local.execute(input, { signal }))
+              .then(settle, (err: unknown) => settle(errorResult(err)));
+            return;
+          }
+          forwarded = true;
+          pending.set(id, (message) =>
+            settle(message.error !== undefined ? errorResult(message.error) : message.result),
+          );
+          post({ type: "call", id, group, name, input });
+        };
+
+        const member = groups.get(group);
+        if (member && !member.leaderKnown) {
+          member.waiting.push(start);
+        } else {
+          start();
+        }
+      });
+    },
+  };
+}
+
+let shared: TabCoordinator | null = null;
+
+/**
+ * The page-wide coordinator, or `null` where `BroadcastChannel` or Web
+ * Locks are unavailable (e.g. during server rendering). Internal.
+ */
+export function getTabCoordinator(): TabCoordinator | null {
+  if (
+    !shared &&
+    typeof window !== "undefined" &&
+    typeof BroadcastChannel !== "undefined" &&
+    typeof navigator !== "undefined" &&
+    navigator.locks
+  ) {
+    shared = createTabCoordinator({});
+  }
+  return shared;
+}
@@ -0,0 +1,68 @@
+import type {
+  JSONSchema,
+  JSONSchemaProperty,
+  ToolAnnotations,
+} from "../types";
+import type { WrappedExecute } from "./createExecute";
+
+/**
+ * A tool registered through this library's imperative APIs, together with
+ * the wrapped `execute` handed to `navigator.modelContext` (so calls go
+ * through validation, policy, confirmation and the other call stages).
+ */
+export interface DirectoryTool {
+  name: string;
+  description: string;
+  inputSchema: JSONSchema | Record<string, never>;
+  outputSchema?: JSONSchema | JSONSchemaProperty;
+  annotations?: ToolAnnotations;
+  execute: WrappedExecute;
+}
+
+/**
+ * Every tool registered by `useWebMCPTool`, `useWebMCPContext` and
+ * `WebMCP.Tool`, with or without a provider. Read by `connectMCPBridge`.
+ */
+export interface ToolDirectory {
+  /** Add a tool. Returns a function that removes it again. */
+  add: (tool: DirectoryTool) => () => void;
+  /** The current tools, oldest registration first. */
+  getSnapshot: () => readonly DirectoryTool[];
+  /** Subscribe to changes. Returns an unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+}
+
+function createToolDirectory(): ToolDirectory {
+  const tools = new Set<DirectoryTool>();
+  const listeners = new Set<() => void>();
+  let snapshot: readonly DirectoryTool[] = [];
+
+  const emit = () => {
+    snapshot = Array.from(tools);
+    for (const listener of Array.from(listeners)) {
+      listener();
+    }
+  };
+
+  return {
+    add(tool) {
+      // Copy so the same definition can be added twice.
+      const entry = { ...tool };
+      tools.add(entry);
+      emit();
+      return () => {
+        if (tools.delete(entry)) emit();
+      };
+    },
+    getSnapshot: () => snapshot,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/** The page-wide tool directory. Internal. */
+export const toolDirectory = createToolDirectory();
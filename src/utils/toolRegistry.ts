@@ -0,0 +1,82 @@
+import type {
+  JSONSchema,
+  JSONSchemaProperty,
+  ToolAnnotations,
+} from "../types";
+
+/**
+ * A tool currently registered through this library, as reported by
+ * `useRegisteredTools()`.
+ */
+export interface RegisteredTool {
+  /** Unique id for this registration. */
+  id: string;
+  /** Tool name as seen by agents. */
+  name: string;
+  /** Tool description as seen by agents. */
+  description: string;
+  /** The registered (JSON) input schema. `{}` for declarative forms. */
+  inputSchema: JSONSchema | Record<string, never>;
+  /** Optional output schema. */
+  outputSchema?: JSONSchema | JSONSchemaProperty;
+  /** Optional annotations. */
+  annotations?: ToolAnnotations;
+  /** Whether the tool was registered imperatively or by a declarative form. */
+  kind: "imperative" | "declarative";
+  /**
+   * Label of the owning component: the `owner` option if given, otherwise
+   * the registering API (`"useWebMCPTool"`, `"useWebMCPContext"`,
+   * `"WebMCP.Tool"` or `"WebMCPForm"`).
+   */
+  owner: string;
+  /** Stable id of the owning component instance (from `useId`). */
+  ownerId: string;
+}
+
+/**
+ * An external store of registered tools, created by `WebMCPProvider` and
+ * read with `useSyncExternalStore`.
+ */
+export interface ToolRegistry {
+  /** Add a tool. Returns a function that removes it again. */
+  add: (tool: Omit<RegisteredTool, "id">) => () => void;
+  /** The current tools. The array identity only changes when the list does. */
+  getSnapshot: () => readonly RegisteredTool[];
+  /** Subscribe to changes. Returns an unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Create an empty tool registry.
+ */
+export function createToolRegistry(): ToolRegistry {
+  const tools = new Map<string, RegisteredTool>();
+  const listeners = new Set<() => void>();
+  let snapshot: readonly RegisteredTool[] = [];
+  let nextId = 0;
+
+  const emit = () => {
+    snapshot = Array.from(tools.values());
+    for (const listener of Array.from(listeners)) {
+      listener();
+    }
+  };
+
+  return {
+    add(tool) {
+      const id = `tool-${++nextId}`;
+      tools.set(id, { ...tool, id });
+      emit();
+      return () => {
+        if (tools.delete(id)) emit();
+      };
+    },
+    getSnapshot: () => snapshot,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
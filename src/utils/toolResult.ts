@@ -0,0 +1,91 @@
+import type { ToolResult } from "../types";
+
+/**
+ * Build a successful result containing a single text block.
+ *
+ * @example
+ * ```ts
+ * return textResult(`Added: ${text}`);
+ * ```
+ */
+export function textResult(text: string): ToolResult {
+  return { content: [{ type: "text", text }] };
+}
+
+/**
+ * Build a successful result containing a single JSON block.
+ *
+ * @example
+ * ```ts
+ * return jsonResult({ flights: results });
+ * ```
+ */
+export function jsonResult(json: unknown): ToolResult {
+  return { content: [{ type: "json", json }] };
+}
+
+/**
+ * Build an error result (`isError: true`) from a message or an `Error`.
+ *
+ * @example
+ * ```ts
+ * if (!flight) return errorResult(`Flight ${id} not found.`);
+ * ```
+ */
+export function errorResult(error: unknown): ToolResult {
+  return {
+    content: [{ type: "text", text: errorMessage(error) }],
+    isError: true,
+  };
+}
+
+/**
+ * Returns true if `value` already has the `ToolResult` envelope shape.
+ */
+export function isToolResult(value: unknown): value is ToolResult {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Array.isArray((value as { content?: unknown }).content)
+  );
+}
+
+/**
+ * Coerce any `execute` return value into a `ToolResult`.
+ *
+ * - `ToolResult`-shaped objects are returned unchanged
+ * - `undefined` / `null` become an empty content list
+ * - strings, numbers and booleans become a text block
+ * - `Error`s become an error result
+ * - plain objects and arrays become a JSON block
+ *
+ * @example
+ * ```ts
+ * normalizeToolResult("done"); // { content: [{ type: "text", text: "done" }] }
+ * normalizeToolResult({ id: 1 }); // { content: [{ type: "json", json: { id: 1 } }] }
+ * ```
+ */
+export function normalizeToolResult(value: unknown): ToolResult {
+  if (isToolResult(value)) return value;
+  if (value === undefined || value === null) return { content: [] };
+  if (value instanceof Error) return errorResult(value);
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean" ||
+    typeof value === "bigint"
+  ) {
+    return textResult(String(value));
+  }
+  return jsonResult(value);
+}
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message || error.name;
+  if (typeof error === "string") return error;
+  try {
+    return JSON.stringify(error) ?? String(error);
+  } catch {
+    return String(error);
+  }
+}
@@ -0,0 +1,225 @@
+import type { JSONSchema, JSONSchemaProperty, ToolResult } from "../types";
+import { errorResult } from "./toolResult";
+
+/**
+ * A single problem found while validating agent input against a schema.
+ */
+export interface InputValidationIssue {
+  /** Dotted path to the offending value (e.g. `"passengers[0].age"`). Empty for the root. */
+  path: string;
+  /** Human- and agent-readable description of the problem. */
+  message: string;
+}
+
+/**
+ * Describe the JSON type of a runtime value for error messages.
+ */
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+/**
+ * Returns true if `value` satisfies the JSON Schema `type` keyword.
+ * Schemas from elsewhere (e.g. remote MCP servers) may list several types,
+ * such as `["string", "null"]`, or name types outside `JSONSchemaProperty`:
+ * `"null"` is checked, and any other unknown type is not.
+ */
+function matchesType(type: unknown, value: unknown): boolean {
+  if (Array.isArray(type)) {
+    return type.length === 0 || type.some((t) => matchesType(t, value));
+  }
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function describeSchemaType(type: unknown): string {
+  return Array.isArray(type) ? type.join(" or ") : String(type);
+}
+
+function joinPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+function validateValue(
+  schema: JSONSchema | JSONSchemaProperty,
+  value: unknown,
+  path: string,
+  issues: InputValidationIssue[],
+  root: string,
+): void {
+  const prop = schema as JSONSchemaProperty;
+  const at = path || root;
+
+  if (prop.type && !matchesType(prop.type, value)) {
+    issues.push({
+      path,
+      message: `${at}: expected ${describeSchemaType(prop.type)}, got ${describeType(value)}.`,
+    });
+    // Further keywords are meaningless once the type is wrong.
+    return;
+  }
+
+  if (prop.const !== undefined && value !== prop.const) {
+    issues.push({
+      path,
+      message: `${at}: must be ${JSON.stringify(prop.const)}.`,
+    });
+  }
+
+  if (prop.enum && prop.enum.length > 0 && !prop.enum.includes(value as string)) {
+    issues.push({
+      path,
+      message: `${at}: must be one of ${prop.enum.map((v) => JSON.stringify(v)).join(", ")}.`,
+    });
+  }
+
+  if (prop.oneOf && prop.oneOf.length > 0 && !prop.oneOf.some((opt) => opt.const === value)) {
+    issues.push({
+      path,
+      message: `${at}: must be one of ${prop.oneOf.map((opt) => JSON.stringify(opt.const)).join(", ")}.`,
+    });
+  }
+
+  if (typeof value === "string") {
+    if (prop.minLength !== undefined && value.length < prop.minLength) {
+      issues.push({
+        path,
+        message: `${at}: must be at least ${prop.minLength} characters long.`,
+      });
+    }
+    if (prop.maxLength !== undefined && value.length > prop.maxLength) {
+      issues.push({
+        path,
+        message: `${at}: must be at most ${prop.maxLength} characters long.`,
+      });
+    }
+    if (prop.pattern) {
+      let regex: RegExp | null = null;
+      try {
+        regex = new RegExp(prop.pattern);
+      } catch {
+        // An invalid pattern is a schema bug, not an input error — skip it.
+      }
+      if (regex && !regex.test(value)) {
+        issues.push({
+          path,
+          message: `${at}: must match the pattern ${prop.pattern}.`,
+        });
+      }
+    }
+  }
+
+  if (typeof value === "number") {
+    if (prop.minimum !== undefined && value < prop.minimum) {
+      issues.push({
+        path,
+        message: `${at}: must be greater than or equal to ${prop.minimum}.`,
+      });
+    }
+    if (prop.maximum !== undefined && value > prop.maximum) {
+      issues.push({
+        path,
+        message: `${at}: must be less than or equal to ${prop.maximum}.`,
+      });
+    }
+  }
+
+  if (Array.isArray(value) && prop.items) {
+    value.forEach((item, i) => {
+      validateValue(prop.items!, item, `${path || root}[${i}]`, issues, root);
+    });
+  }
+
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    const obj = value as Record<string, unknown>;
+    for (const key of prop.required ?? []) {
+      if (obj[key] === undefined) {
+        issues.push({
+          path: joinPath(path, key),
+          message: `${joinPath(path, key)}: is required.`,
+        });
+      }
+    }
+    for (const [key, childSchema] of Object.entries(prop.properties ?? {})) {
+      if (obj[key] !== undefined) {
+        validateValue(childSchema, obj[key], joinPath(path, key), issues, root);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a tool's input against its declared `inputSchema`.
+ *
+ * Supports the JSON Schema subset described by `JSONSchema` /
+ * `JSONSchemaProperty`: `type`, `const`, `enum`, `oneOf`, `pattern`,
+ * `minLength`/`maxLength`, `minimum`/`maximum`, `required`, and nested
+ * `properties`/`items`, plus `type` arrays and `"null"` in schemas from
+ * other sources. Unknown properties are allowed. A missing input
+ * (`undefined` or `null`) is treated as an empty object.
+ *
+ * Returns an empty array when the input is valid.
+ *
+ * @example
+ * ```ts
+ * validateInput(
+ *   { type: "object", properties: { n: { type: "number" } }, required: ["n"] },
+ *   { n: "3" },
+ * );
+ * // [{ path: "n", message: "n: expected number, got string." }]
+ * ```
+ */
+export function validateInput(
+  schema: JSONSchema | Record<string, never> | undefined,
+  input: unknown,
+): InputValidationIssue[] {
+  const issues: InputValidationIssue[] = [];
+  if (!schema) return issues;
+  validateValue(schema, input ?? {}, "", issues, "input");
+  return issues;
+}
+
+/**
+ * Validate `value` against `schema`, naming the root `root` in messages.
+ * Unlike `validateInput`, a missing value is not replaced. Internal.
+ */
+export function validateAgainstSchema(
+  schema: JSONSchema | JSONSchemaProperty,
+  value: unknown,
+  root: string,
+): InputValidationIssue[] {
+  const issues: InputValidationIssue[] = [];
+  validateValue(schema, value, "", issues, root);
+  return issues;
+}
+
+/**
+ * Build the structured error result returned to the agent when its input
+ * fails validation. The handler is never called in this case.
+ */
+export function invalidInputResult(
+  toolName: string,
+  issues: InputValidationIssue[],
+): ToolResult {
+  const lines = issues.map((issue) => `- ${issue.message}`).join("\n");
+  return errorResult(`Invalid input for tool "${toolName}":\n${lines}`);
+}
@@ -0,0 +1,41 @@
+import type { JSONSchema, JSONSchemaProperty } from "../types";
+import type { InputValidationIssue } from "./validateInput";
+import { validateAgainstSchema } from "./validateInput";
+import { isToolResult } from "./toolResult";
+
+/**
+ * Validate a tool's result against its declared `outputSchema`.
+ *
+ * A plain return value is checked as is. A `ToolResult` envelope is
+ * checked through its first `json` content block (where `jsonResult()`
+ * and `normalizeResult` put structured output); an envelope without one
+ * is reported. `isError` results are not checked. Supports the same
+ * JSON Schema subset as `validateInput`.
+ *
+ * Returns an empty array when the result matches.
+ *
+ * @example
+ * ```ts
+ * validateOutput(
+ *   { type: "object", properties: { total: { type: "number" } }, required: ["total"] },
+ *   jsonResult({ total: "12" }),
+ * );
+ * // [{ path: "total", message: "total: expected number, got string." }]
+ * ```
+ */
+export function validateOutput(
+  schema: JSONSchema | JSONSchemaProperty | undefined,
+  result: unknown,
+): InputValidationIssue[] {
+  if (!schema) return [];
+  if (!isToolResult(result)) {
+    return validateAgainstSchema(schema, result, "output");
+  }
+  if (result.isError) return [];
+
+  const block = result.content.find((c) => c.type === "json");
+  if (!block || block.type !== "json") {
+    return [{ path: "", message: "output: the result has no JSON content block to check." }];
+  }
+  return validateAgainstSchema(schema, block.json, "output");
+}
@@ -1,13 +1,30 @@
 import { defineConfig } from "tsup";
+import { version } from "./package.json";
 
-export default defineConfig({
-  entry: ["src/index.ts"],
-  format: ["cjs", "esm"],
-  dts: true,
-  splitting: false,
-  sourcemap: true,
-  clean: true,
-  external: ["react", "react-dom"],
-  treeshake: true,
-  minify: false,
-});
+const define = { __REACT_WEBMCP_VERSION__: JSON.stringify(version) };
+
+export default defineConfig([
+  {
+    entry: ["src/index.ts"],
+    format: ["cjs", "esm"],
+    dts: true,
+    splitting: false,
+    sourcemap: true,
+    clean: true,
+    external: ["react", "react-dom"],
+    treeshake: true,
+    minify: false,
+    define,
+  },
+  {
+    // `react-webmcp-relay`: stdio <-> WebSocket relay for connectMCPBridge().
+    entry: { "mcp-relay": "src/bridge/cli.ts" },
+    format: ["esm"],
+    platform: "node",
+    target: "node18",
+    banner: { js: "#!/usr/bin/env node" },
+    sourcemap: false,
+    clean: false,
+    minify: false,
+  },
+]);